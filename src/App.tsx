@@ -8,7 +8,10 @@ import UploadPage from './pages/UploadPage';
 import MeetingPage from './pages/MeetingPage';
 import SummaryPage from './pages/SummaryPage';
 import EmailPage from './pages/EmailPage';
+import ClipPage from './pages/ClipPage';
 import AdminPage from './pages/AdminPage';
+import ParticipantsPage from './pages/ParticipantsPage';
+import AnalyticsPage from './pages/AnalyticsPage';
 
 export default function App() {
   return (
@@ -28,6 +31,9 @@ export default function App() {
             <Route path="/meeting/:id" element={<MeetingPage />} />
             <Route path="/meeting/:id/summary" element={<SummaryPage />} />
             <Route path="/meeting/:id/email" element={<EmailPage />} />
+            <Route path="/meeting/:id/clips/:clipId" element={<ClipPage />} />
+            <Route path="/participants" element={<ParticipantsPage />} />
+            <Route path="/analytics" element={<AnalyticsPage />} />
             <Route
               path="/admin"
               element={
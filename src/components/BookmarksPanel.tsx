@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import type { MeetingBookmark, TranscriptSegment } from '../types/database';
+import { Bookmark, Highlighter, Trash2 } from 'lucide-react';
+
+interface Props {
+  bookmarks: MeetingBookmark[];
+  segments: TranscriptSegment[];
+  /** Bookmark whose note field should take focus, e.g. one just created */
+  focusId: string | null;
+  onSeek: (ms: number) => void;
+  onUpdateNote: (bookmarkId: string, note: string) => void;
+  onDelete: (bookmarkId: string) => void;
+}
+
+const EXCERPT_CHARS = 160;
+
+const formatTime = (ms: number) => {
+  const totalSec = Math.floor(ms / 1000);
+  const m = Math.floor(totalSec / 60);
+  const s = totalSec % 60;
+  return `${m}:${String(s).padStart(2, '0')}`;
+};
+
+/** Transcript text a highlight covers, shortened for the list */
+function excerpt(bookmark: MeetingBookmark, segments: TranscriptSegment[]): string {
+  const text = segments
+    .filter((s) => s.kind === 'speech' && s.start_ms < bookmark.end_ms! && s.end_ms > bookmark.start_ms)
+    .map((s) => s.text)
+    .join(' ');
+  return text.length > EXCERPT_CHARS ? `${text.slice(0, EXCERPT_CHARS)}…` : text;
+}
+
+function NoteField({ bookmark, autoFocus, onSave }: {
+  bookmark: MeetingBookmark;
+  autoFocus: boolean;
+  onSave: (note: string) => void;
+}) {
+  const [draft, setDraft] = useState(bookmark.note);
+  return (
+    <textarea
+      value={draft}
+      dir="auto"
+      rows={draft ? 2 : 1}
+      placeholder="Add a note..."
+      autoFocus={autoFocus}
+      onClick={(e) => e.stopPropagation()}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => { if (draft.trim() !== bookmark.note) onSave(draft.trim()); }}
+      onKeyDown={(e) => { if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); e.currentTarget.blur(); } }}
+    />
+  );
+}
+
+/** Bookmarks and highlights in playback order; clicking one seeks the media */
+export default function BookmarksPanel({ bookmarks, segments, focusId, onSeek, onUpdateNote, onDelete }: Props) {
+  return (
+    <aside className="bookmarks-panel">
+      <h3>Bookmarks</h3>
+      {bookmarks.length === 0 && (
+        <p className="hint">
+          Bookmark the current playback time from the toolbar, or highlight segments with the highlighter on each one.
+        </p>
+      )}
+      {bookmarks.map((b) => (
+        <div key={b.id} className={`bookmark bookmark-${b.kind}`} onClick={() => onSeek(b.start_ms)}>
+          <div className="bookmark-header">
+            {b.kind === 'highlight' ? <Highlighter size={14} /> : <Bookmark size={14} />}
+            <span className="segment-time">
+              {formatTime(b.start_ms)}{b.end_ms !== null && ` - ${formatTime(b.end_ms)}`}
+            </span>
+            <button
+              onClick={(e) => { e.stopPropagation(); onDelete(b.id); }}
+              className="btn btn-ghost btn-xs btn-danger"
+              title="Delete"
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+          {b.kind === 'highlight' && <p className="bookmark-excerpt" dir="auto">{excerpt(b, segments)}</p>}
+          <NoteField
+            key={`${b.id}:${b.note}`}
+            bookmark={b}
+            autoFocus={b.id === focusId}
+            onSave={(note) => onUpdateNote(b.id, note)}
+          />
+        </div>
+      ))}
+    </aside>
+  );
+}
@@ -0,0 +1,92 @@
+import { useRef, useState } from 'react';
+import type { MeetingClip } from '../types/database';
+import type { PlaybackClock } from '../lib/playback';
+import Playhead from './Playhead';
+
+export interface TimeRange {
+  start_ms: number;
+  end_ms: number;
+}
+
+interface Props {
+  durationMs: number;
+  playback: PlaybackClock;
+  clips: MeetingClip[];
+  selection: TimeRange | null;
+  onSelect: (range: TimeRange) => void;
+  onSeek: (ms: number) => void;
+}
+
+/** Drags shorter than this are treated as a click, which seeks */
+const MIN_DRAG_PX = 4;
+
+const percent = (ms: number, durationMs: number) => `${(Math.min(Math.max(ms, 0), durationMs) / durationMs) * 100}%`;
+
+/** The whole meeting as a bar: drag across it to select a range for a clip */
+export default function ClipTimeline({ durationMs, playback, clips, selection, onSelect, onSeek }: Props) {
+  const barRef = useRef<HTMLDivElement>(null);
+  const [drag, setDrag] = useState<{ fromX: number; from: number; to: number } | null>(null);
+
+  const msAt = (clientX: number) => {
+    const rect = barRef.current!.getBoundingClientRect();
+    return Math.round(Math.min(Math.max((clientX - rect.left) / rect.width, 0), 1) * durationMs);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const ms = msAt(e.clientX);
+    setDrag({ fromX: e.clientX, from: ms, to: ms });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (drag) setDrag({ ...drag, to: msAt(e.clientX) });
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!drag) return;
+    setDrag(null);
+    if (Math.abs(e.clientX - drag.fromX) < MIN_DRAG_PX) {
+      onSeek(drag.from);
+      return;
+    }
+    const to = msAt(e.clientX);
+    onSelect({ start_ms: Math.min(drag.from, to), end_ms: Math.max(drag.from, to) });
+  };
+
+  const shown = drag
+    ? { start_ms: Math.min(drag.from, drag.to), end_ms: Math.max(drag.from, drag.to) }
+    : selection;
+
+  return (
+    <div
+      ref={barRef}
+      className="clip-timeline"
+      title="Drag to select a range for a clip; click to seek"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+    >
+      {clips.map((clip) => (
+        <div
+          key={clip.id}
+          className="clip-timeline-clip"
+          title={clip.title}
+          style={{
+            left: percent(clip.start_ms, durationMs),
+            width: `calc(${percent(clip.end_ms, durationMs)} - ${percent(clip.start_ms, durationMs)})`,
+          }}
+        />
+      ))}
+      {shown && (
+        <div
+          className="clip-timeline-selection"
+          style={{
+            left: percent(shown.start_ms, durationMs),
+            width: `calc(${percent(shown.end_ms, durationMs)} - ${percent(shown.start_ms, durationMs)})`,
+          }}
+        />
+      )}
+      <Playhead playback={playback} durationMs={durationMs} className="clip-timeline-playhead" />
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import type { MeetingClip } from '../types/database';
+import type { TimeRange } from './ClipTimeline';
+import { parseTimestamp } from '../lib/search';
+import { Check, Download, Film, Play, Trash2, X } from 'lucide-react';
+
+interface Props {
+  meetingId: string;
+  clips: MeetingClip[];
+  /** Range being turned into a clip, picked on the timeline or from segments */
+  draft: TimeRange | null;
+  onDraftChange: (range: TimeRange | null) => void;
+  onCreate: (title: string, range: TimeRange) => Promise<void>;
+  onExport: (clip: MeetingClip) => void;
+  onDelete: (clipId: string) => void;
+  onSeek: (ms: number) => void;
+}
+
+const formatTime = (ms: number) => {
+  const totalSec = Math.floor(ms / 1000);
+  const m = Math.floor(totalSec / 60);
+  const s = totalSec % 60;
+  return `${m}:${String(s).padStart(2, '0')}`;
+};
+
+/** m:ss input that applies on blur or Enter and snaps back when invalid */
+function TimeField({ ms, label, onChange }: { ms: number; label: string; onChange: (ms: number) => void }) {
+  const [value, setValue] = useState(formatTime(ms));
+  const apply = () => {
+    const parsed = parseTimestamp(value);
+    if (parsed === null) setValue(formatTime(ms));
+    else if (parsed !== ms) onChange(parsed);
+  };
+  return (
+    <input
+      type="text"
+      value={value}
+      aria-label={label}
+      onChange={(e) => setValue(e.target.value)}
+      onBlur={apply}
+      onKeyDown={(e) => e.key === 'Enter' && apply()}
+    />
+  );
+}
+
+export default function ClipsPanel({ meetingId, clips, draft, onDraftChange, onCreate, onExport, onDelete, onSeek }: Props) {
+  const [title, setTitle] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const setBound = (bound: keyof TimeRange, ms: number) => {
+    if (!draft) return;
+    const next = { ...draft, [bound]: ms };
+    if (next.end_ms > next.start_ms) onDraftChange(next);
+  };
+
+  const handleCreate = async () => {
+    if (!draft || !title.trim()) return;
+    setSaving(true);
+    await onCreate(title.trim(), draft);
+    setSaving(false);
+    setTitle('');
+  };
+
+  return (
+    <aside className="clips-panel">
+      <h3>Clips</h3>
+      {draft ? (
+        <div className="clip-draft">
+          <input
+            type="text"
+            value={title}
+            dir="auto"
+            placeholder="Clip name"
+            autoFocus
+            onChange={(e) => setTitle(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+          />
+          <div className="clip-draft-range" key={`${draft.start_ms}-${draft.end_ms}`}>
+            <TimeField ms={draft.start_ms} label="Clip start" onChange={(ms) => setBound('start_ms', ms)} />
+            <span>to</span>
+            <TimeField ms={draft.end_ms} label="Clip end" onChange={(ms) => setBound('end_ms', ms)} />
+            <span className="segment-time">{formatTime(draft.end_ms - draft.start_ms)}</span>
+          </div>
+          <div className="editor-actions">
+            <button onClick={handleCreate} disabled={saving || !title.trim()} className="btn btn-primary btn-xs">
+              <Check size={14} /> Save clip
+            </button>
+            <button onClick={() => onDraftChange(null)} className="btn btn-ghost btn-xs">
+              <X size={14} /> Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <p className="hint">
+          Drag across the timeline, or pick segments with <Film size={12} />, to select a range.
+        </p>
+      )}
+      {clips.map((clip) => (
+        <div key={clip.id} className="clip-item" onClick={() => onSeek(clip.start_ms)}>
+          <div className="bookmark-header">
+            <Film size={14} />
+            <span className="clip-title" dir="auto">{clip.title}</span>
+          </div>
+          <div className="bookmark-header">
+            <span className="segment-time">
+              {formatTime(clip.start_ms)} - {formatTime(clip.end_ms)}
+            </span>
+            <div className="clip-actions" onClick={(e) => e.stopPropagation()}>
+              <Link to={`/meeting/${meetingId}/clips/${clip.id}`} className="btn btn-ghost btn-xs" title="Open the clip on its own">
+                <Play size={14} />
+              </Link>
+              <button onClick={() => onExport(clip)} className="btn btn-ghost btn-xs" title="Download subtitles and text">
+                <Download size={14} />
+              </button>
+              <button onClick={() => onDelete(clip.id)} className="btn btn-ghost btn-xs btn-danger" title="Delete">
+                <Trash2 size={14} />
+              </button>
+            </div>
+          </div>
+        </div>
+      ))}
+    </aside>
+  );
+}
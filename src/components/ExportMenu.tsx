@@ -0,0 +1,72 @@
+import { useEffect, useRef, useState } from 'react';
+import { EXPORT_FORMATS, type ExportFormat } from '../../supabase/functions/_shared/export/index.ts';
+import { ChevronDown, Download, Loader2 } from 'lucide-react';
+
+export type ExportChoice = ExportFormat | 'txt' | 'json';
+
+interface Props {
+  onExport: (format: ExportChoice, includeSummary: boolean, redact: boolean) => Promise<void>;
+}
+
+const CHOICES: { format: ExportChoice; label: string }[] = [
+  { format: 'txt', label: 'Plain text' },
+  { format: 'json', label: 'JSON' },
+  ...EXPORT_FORMATS,
+];
+
+/** Download menu for the transcript formats. Captions never include the summary. */
+export default function ExportMenu({ onExport }: Props) {
+  const [open, setOpen] = useState(false);
+  const [includeSummary, setIncludeSummary] = useState(true);
+  const [redact, setRedact] = useState(false);
+  const [busy, setBusy] = useState<ExportChoice | null>(null);
+  const [error, setError] = useState('');
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const onMouseDown = (e: MouseEvent) => {
+      if (!ref.current?.contains(e.target as Node)) setOpen(false);
+    };
+    window.addEventListener('mousedown', onMouseDown);
+    return () => window.removeEventListener('mousedown', onMouseDown);
+  }, [open]);
+
+  const choose = async (format: ExportChoice) => {
+    setBusy(format);
+    setError('');
+    try {
+      await onExport(format, includeSummary, redact);
+      setOpen(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed');
+    }
+    setBusy(null);
+  };
+
+  return (
+    <div className="export-menu" ref={ref}>
+      <button onClick={() => setOpen((v) => !v)} className="btn btn-ghost btn-sm">
+        <Download size={16} /> Export <ChevronDown size={14} />
+      </button>
+      {open && (
+        <div className="export-menu-list">
+          {CHOICES.map(({ format, label }) => (
+            <button key={format} onClick={() => choose(format)} disabled={busy !== null} className="btn btn-ghost btn-sm">
+              {busy === format ? <Loader2 className="spin" size={14} /> : <Download size={14} />} {label}
+            </button>
+          ))}
+          <label className="checkbox-label">
+            <input type="checkbox" checked={includeSummary} onChange={(e) => setIncludeSummary(e.target.checked)} />
+            Include latest summary
+          </label>
+          <label className="checkbox-label" title="Replace phone numbers, email addresses and ID numbers, except marks you dismissed">
+            <input type="checkbox" checked={redact} onChange={(e) => setRedact(e.target.checked)} />
+            Redact personal data
+          </label>
+          {error && <p className="error-msg">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
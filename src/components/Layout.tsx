@@ -1,6 +1,6 @@
 import { Link, Outlet, useNavigate } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
-import { LogOut, Upload, LayoutDashboard, Settings } from 'lucide-react';
+import { LogOut, Upload, LayoutDashboard, Settings, Users, BarChart3 } from 'lucide-react';
 
 export default function Layout() {
   const { user, profile, signOut } = useAuth();
@@ -19,6 +19,8 @@ export default function Layout() {
           <nav className="nav-links">
             <Link to="/"><LayoutDashboard size={18} /> Dashboard</Link>
             <Link to="/upload"><Upload size={18} /> Upload</Link>
+            <Link to="/participants"><Users size={18} /> Participants</Link>
+            <Link to="/analytics"><BarChart3 size={18} /> Analytics</Link>
             {profile?.is_admin && (
               <Link to="/admin"><Settings size={18} /> Admin</Link>
             )}
@@ -0,0 +1,86 @@
+import { useEffect, useState } from 'react';
+import { getMeetingAnalytics } from '../lib/edge-functions';
+import type { MeetingAnalytics } from '../../supabase/functions/_shared/analytics.ts';
+import { Loader2 } from 'lucide-react';
+
+interface Props {
+  meetingId: string;
+}
+
+const formatDuration = (ms: number) => {
+  const totalSec = Math.round(ms / 1000);
+  const m = Math.floor(totalSec / 60);
+  const s = totalSec % 60;
+  return m ? `${m}m ${String(s).padStart(2, '0')}s` : `${s}s`;
+};
+
+const formatShare = (share: number) => `${Math.round(share * 100)}%`;
+
+/** Participation statistics computed by the meeting_analytics function */
+export default function MeetingAnalyticsPanel({ meetingId }: Props) {
+  const [analytics, setAnalytics] = useState<MeetingAnalytics | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    getMeetingAnalytics({ meetingId }).then(
+      (res) => setAnalytics(res.analytics),
+      (err) => setError(err instanceof Error ? err.message : 'Could not compute analytics'),
+    );
+  }, [meetingId]);
+
+  if (error) return <div className="analytics-panel"><p className="error-msg">{error}</p></div>;
+  if (!analytics) {
+    return (
+      <div className="analytics-panel">
+        <div className="loading-indicator"><Loader2 className="spin" size={18} /> Computing analytics...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="analytics-panel">
+      <div className="analytics-totals">
+        <span><strong>{formatDuration(analytics.duration_ms)}</strong> long</span>
+        <span><strong>{analytics.turns}</strong> turns</span>
+        <span title={`${formatDuration(analytics.overlap_ms)} of overlapping speech`}>
+          <strong>{analytics.overlaps}</strong> overlaps
+        </span>
+        <span><strong>{analytics.interruptions}</strong> interruptions</span>
+        <span><strong>{analytics.fillers}</strong> filler words</span>
+      </div>
+      <table className="meetings-table analytics-table">
+        <thead>
+          <tr>
+            <th>Speaker</th>
+            <th>Talk time</th>
+            <th>Turns</th>
+            <th>Avg turn</th>
+            <th>Words/min</th>
+            <th title="Interrupted others / was interrupted">Interruptions</th>
+            <th>Fillers</th>
+          </tr>
+        </thead>
+        <tbody>
+          {analytics.speakers.map((s) => (
+            <tr key={s.speaker_id}>
+              <td>{s.speaker_label}</td>
+              <td>
+                <div className="share-bar" title={formatDuration(s.talk_ms)}>
+                  <div className="share-bar-fill" style={{ width: formatShare(s.talk_share) }} />
+                  <span>{formatShare(s.talk_share)}</span>
+                </div>
+              </td>
+              <td>{s.turns}</td>
+              <td>{formatDuration(s.avg_turn_ms)}</td>
+              <td>{s.wpm}</td>
+              <td>{s.interruptions} / {s.interrupted}</td>
+              <td title={Object.entries(s.filler_counts).map(([word, n]) => `${word}: ${n}`).join(', ')}>
+                {s.fillers}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,14 @@
+import { usePlaybackValue, type PlaybackClock } from '../lib/playback';
+
+interface Props {
+  playback: PlaybackClock;
+  durationMs: number;
+  className: string;
+}
+
+/** Line at the playback position; re-renders on its own so the timeline around it doesn't */
+export default function Playhead({ playback, durationMs, className }: Props) {
+  const ms = usePlaybackValue(playback, (ms) => ms);
+  if (ms === null || !durationMs) return null;
+  return <div className={className} style={{ left: `${(Math.min(Math.max(ms, 0), durationMs) / durationMs) * 100}%` }} />;
+}
@@ -0,0 +1,92 @@
+import type { PiiKind, PiiRedaction, RedactionStatus, TranscriptSegment } from '../types/database';
+import { Check, CheckCheck, RotateCcw, X } from 'lucide-react';
+
+const KIND_LABELS: Record<PiiKind, string> = {
+  phone: 'Phone',
+  email: 'Email',
+  israeli_id: 'ID number',
+};
+
+const STATUS_BADGES: Record<RedactionStatus, string> = {
+  suggested: 'badge badge-blue',
+  confirmed: 'badge badge-green',
+  dismissed: 'badge badge-gray',
+};
+
+interface Props {
+  redactions: PiiRedaction[];
+  segments: TranscriptSegment[];
+  onSeek: (ms: number) => void;
+  onSetStatus: (ids: string[], status: RedactionStatus) => void;
+}
+
+const formatTime = (ms: number) => {
+  const totalSec = Math.floor(ms / 1000);
+  return `${Math.floor(totalSec / 60)}:${String(totalSec % 60).padStart(2, '0')}`;
+};
+
+/**
+ * Personal data the detectors found, to confirm or dismiss one by one.
+ * Confirmed and suggested spans are both redacted; dismissed ones are not.
+ */
+export default function RedactionReview({ redactions, segments, onSeek, onSetStatus }: Props) {
+  const startById = new Map(segments.map((s) => [s.id, s.start_ms]));
+  const suggested = redactions.filter((r) => r.status === 'suggested');
+  // Transcript order, then summaries
+  const ordered = [...redactions].sort((a, b) =>
+    (startById.get(a.target_id) ?? Infinity) - (startById.get(b.target_id) ?? Infinity) || a.start_offset - b.start_offset);
+
+  if (redactions.length === 0) {
+    return (
+      <div className="redaction-review">
+        <p className="hint">No personal data found.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="redaction-review">
+      <div className="section-header">
+        <h3>Personal data ({suggested.length} to review)</h3>
+        {suggested.length > 0 && (
+          <button onClick={() => onSetStatus(suggested.map((r) => r.id), 'confirmed')} className="btn btn-ghost btn-xs">
+            <CheckCheck size={14} /> Confirm all
+          </button>
+        )}
+      </div>
+      <ul className="redaction-list">
+        {ordered.map((r) => {
+          const startMs = r.target === 'segment' ? startById.get(r.target_id) : undefined;
+          return (
+            <li key={r.id} className={r.status === 'dismissed' ? 'redaction-item redaction-dismissed' : 'redaction-item'}>
+              {startMs !== undefined ? (
+                <button onClick={() => onSeek(startMs)} className="segment-time">{formatTime(startMs)}</button>
+              ) : (
+                <span className="segment-time">{r.target === 'summary' ? 'Summary' : 'Earlier revision'}</span>
+              )}
+              <span className="redaction-kind">{KIND_LABELS[r.kind]}</span>
+              <code dir="ltr">{r.text}</code>
+              <span className={STATUS_BADGES[r.status]}>{r.status}</span>
+              <span className="redaction-actions">
+                {r.status !== 'confirmed' && (
+                  <button onClick={() => onSetStatus([r.id], 'confirmed')} className="btn btn-ghost btn-xs" title="Redact">
+                    <Check size={14} />
+                  </button>
+                )}
+                {r.status !== 'dismissed' ? (
+                  <button onClick={() => onSetStatus([r.id], 'dismissed')} className="btn btn-ghost btn-xs" title="Not personal data">
+                    <X size={14} />
+                  </button>
+                ) : (
+                  <button onClick={() => onSetStatus([r.id], 'suggested')} className="btn btn-ghost btn-xs" title="Review again">
+                    <RotateCcw size={14} />
+                  </button>
+                )}
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+import { useEffect, useState } from 'react';
+import type { TranscriptSegment } from '../types/database';
+import type { UncertainWord } from '../lib/transcript';
+import { Check, ChevronLeft, ChevronRight, Pencil, Play, X } from 'lucide-react';
+
+interface Props {
+  item: UncertainWord | null;
+  segment: TranscriptSegment | null;
+  /** Position of the item among the remaining uncertain words */
+  position: number;
+  remaining: number;
+  total: number;
+  onPrevious: () => void;
+  onNext: () => void;
+  onReplay: () => void;
+  onResolve: (correction?: string) => void;
+  onExit: () => void;
+}
+
+/**
+ * Proofreading toolbar for review mode.
+ * Keys: J/K next/previous, R replay, Enter accept, E correct, Esc exit.
+ */
+export default function ReviewBar({
+  item, segment, position, remaining, total, onPrevious, onNext, onReplay, onResolve, onExit,
+}: Props) {
+  const [correction, setCorrection] = useState<string | null>(null);
+  const word = item && segment ? segment.meta?.words?.[item.wordIndex] : undefined;
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      // Typing a correction owns the keyboard; the input handles Enter and Escape itself
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      if (e.metaKey || e.ctrlKey || e.altKey) return;
+
+      switch (e.key) {
+        case 'j':
+        case 'ArrowDown':
+          onNext();
+          break;
+        case 'k':
+        case 'ArrowUp':
+          onPrevious();
+          break;
+        case 'r':
+          onReplay();
+          break;
+        case 'Enter':
+          if (word) onResolve();
+          break;
+        case 'e':
+          if (word) setCorrection(word.text.trim());
+          break;
+        case 'Escape':
+          onExit();
+          break;
+        default:
+          return;
+      }
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [word, onNext, onPrevious, onReplay, onResolve, onExit]);
+
+  // Keep the word under review on screen
+  useEffect(() => {
+    document.querySelector('.word-review')?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  }, [item]);
+
+  const submitCorrection = () => {
+    if (correction === null) return;
+    onResolve(correction);
+    setCorrection(null);
+  };
+
+  return (
+    <div className="review-bar">
+      <div className="review-progress">
+        <strong>Review</strong>
+        <span>{total - remaining} of {total} uncertain words reviewed</span>
+        <div className="progress-bar">
+          <div className="progress-fill" style={{ width: `${total ? ((total - remaining) / total) * 100 : 100}%` }} />
+        </div>
+      </div>
+
+      {word ? (
+        <div className="review-current">
+          <span className="segment-time">{position + 1}/{remaining}</span>
+          {correction === null ? (
+            <span className="review-word">
+              {word.text.trim()}
+              {word.confidence !== null && <span className="hint"> {Math.round(word.confidence * 100)}%</span>}
+            </span>
+          ) : (
+            <input
+              type="text"
+              value={correction}
+              autoFocus
+              onChange={(e) => setCorrection(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') submitCorrection();
+                if (e.key === 'Escape') setCorrection(null);
+              }}
+            />
+          )}
+          <button onClick={onPrevious} className="btn btn-ghost btn-xs" title="Previous (K)"><ChevronLeft size={14} /></button>
+          <button onClick={onReplay} className="btn btn-ghost btn-xs" title="Replay (R)"><Play size={14} /></button>
+          {correction === null ? (
+            <>
+              <button onClick={() => onResolve()} className="btn btn-primary btn-xs" title="Accept (Enter)">
+                <Check size={14} /> Accept
+              </button>
+              <button onClick={() => setCorrection(word.text.trim())} className="btn btn-outline btn-xs" title="Correct (E)">
+                <Pencil size={14} /> Correct
+              </button>
+            </>
+          ) : (
+            <button onClick={submitCorrection} className="btn btn-primary btn-xs">
+              <Check size={14} /> Save
+            </button>
+          )}
+          <button onClick={onNext} className="btn btn-ghost btn-xs" title="Next (J)"><ChevronRight size={14} /></button>
+        </div>
+      ) : (
+        <span className="success-msg">Nothing left to review.</span>
+      )}
+
+      <button onClick={onExit} className="btn btn-ghost btn-xs" title="Exit review (Esc)"><X size={14} /></button>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import { Link } from 'react-router-dom';
+import type { SearchHit } from '../types/database';
+import { highlightMatches, snippetAround } from '../lib/search';
+import { formatTime } from '../../supabase/functions/_shared/transcript-text.ts';
+import { FileText, Sparkles } from 'lucide-react';
+
+interface Props {
+  hits: SearchHit[];
+  query: string;
+}
+
+function Highlighted({ text, query }: { text: string; query: string }) {
+  return (
+    <span dir="auto" className="search-snippet">
+      {highlightMatches(text, query).map((part, i) => (part.match ? <mark key={i}>{part.text}</mark> : part.text))}
+    </span>
+  );
+}
+
+/** Transcript and summary matches grouped by meeting, best meeting first */
+export default function SearchResults({ hits, query }: Props) {
+  const groups = new Map<string, SearchHit[]>();
+  for (const hit of hits) {
+    groups.set(hit.meeting_id, [...(groups.get(hit.meeting_id) ?? []), hit]);
+  }
+
+  if (groups.size === 0) {
+    return <p className="hint">No matches in transcripts or summaries.</p>;
+  }
+
+  return (
+    <div className="search-results">
+      {[...groups.values()].map((group) => {
+        const [first] = group;
+        // Summary first, then transcript matches in the order they were said
+        const ordered = [...group].sort((a, b) => (a.start_ms ?? -1) - (b.start_ms ?? -1));
+        return (
+          <div key={first.meeting_id} className="search-group">
+            <div className="search-group-header">
+              <Link to={`/meeting/${first.meeting_id}`}>{first.meeting_title}</Link>
+              <span className="segment-time">{new Date(first.meeting_created_at).toLocaleDateString()}</span>
+            </div>
+            {ordered.map((hit) => hit.source === 'summary' ? (
+              <Link key="summary" to={`/meeting/${hit.meeting_id}/summary`} className="search-hit">
+                <Sparkles size={14} />
+                <span className="segment-speaker">Summary</span>
+                <Highlighted text={snippetAround(hit.content, query)} query={query} />
+              </Link>
+            ) : (
+              <Link key={hit.segment_id} to={`/meeting/${hit.meeting_id}?t=${hit.start_ms}`} className="search-hit">
+                <FileText size={14} />
+                <span className="segment-time">{formatTime(hit.start_ms ?? 0)}</span>
+                <span className="segment-speaker">{hit.speaker_label}</span>
+                <Highlighted text={hit.content} query={query} />
+              </Link>
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
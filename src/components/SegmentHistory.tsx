@@ -0,0 +1,52 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import type { TranscriptSegmentEdit } from '../types/database';
+import { Loader2, Undo2 } from 'lucide-react';
+
+interface Props {
+  segmentId: string;
+  /** Changes whenever the segment text does, to reload the list */
+  segmentText: string;
+  onRevert: (text: string) => void;
+}
+
+/** Edit history of one segment, newest first */
+export default function SegmentHistory({ segmentId, segmentText, onRevert }: Props) {
+  const [edits, setEdits] = useState<TranscriptSegmentEdit[] | null>(null);
+
+  useEffect(() => {
+    supabase
+      .from('transcript_segment_edits')
+      .select('*')
+      .eq('segment_id', segmentId)
+      .order('created_at', { ascending: false })
+      .then(({ data }) => setEdits(data ?? []));
+  }, [segmentId, segmentText]);
+
+  if (!edits) {
+    return <div className="segment-history"><Loader2 className="spin" size={16} /></div>;
+  }
+
+  return (
+    <div className="segment-history" onClick={(e) => e.stopPropagation()}>
+      {edits.length === 0 && <p className="hint">No edits yet.</p>}
+      {edits.map((edit) => (
+        <div key={edit.id} className="segment-edit">
+          <div className="segment-edit-meta">
+            <span>{edit.editor_name || 'System'}</span>
+            <span className="segment-time">{new Date(edit.created_at).toLocaleString()}</span>
+            <button
+              onClick={() => onRevert(edit.old_text)}
+              className="btn btn-ghost btn-xs"
+              title="Restore the text from before this edit"
+            >
+              <Undo2 size={14} /> Revert
+            </button>
+          </div>
+          <del>{edit.old_text}</del>
+          <ins>{edit.new_text}</ins>
+        </div>
+      ))}
+    </div>
+  );
+}
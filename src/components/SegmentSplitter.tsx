@@ -0,0 +1,41 @@
+import { useEffect, useMemo } from 'react';
+import type { TranscriptSegment } from '../types/database';
+import { splitPoints } from '../lib/segment-edits';
+import { segmentDirection } from '../lib/language';
+
+interface Props {
+  segment: TranscriptSegment;
+  onSplit: (offset: number) => void;
+  onCancel: () => void;
+}
+
+/** Segment text with a marker between words; clicking one splits there */
+export default function SegmentSplitter({ segment, onSplit, onCancel }: Props) {
+  const points = useMemo(() => splitPoints(segment), [segment]);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onCancel();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [onCancel]);
+
+  const bounds = [0, ...points, segment.text.length];
+
+  return (
+    <div className="segment-splitter" onClick={(e) => e.stopPropagation()}>
+      <p className="segment-text" dir={segmentDirection(segment)}>
+        {bounds.slice(1).map((end, i) => (
+          <span key={bounds[i]}>
+            {i > 0 && (
+              <button className="split-point" onClick={() => onSplit(bounds[i])} title="Split here">|</button>
+            )}
+            {segment.text.slice(bounds[i], end)}
+          </span>
+        ))}
+      </p>
+      <p className="hint">Click between two words to split the segment there. Esc to cancel.</p>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import { Fragment, memo, useMemo, type ReactNode } from 'react';
+import type { TranscriptSegment } from '../types/database';
+import { alignWords, findActiveWord, isUncertain } from '../lib/transcript';
+import { segmentDirection } from '../lib/language';
+import type { TextRange } from '../lib/search';
+import { usePlaybackValue, type PlaybackClock } from '../lib/playback';
+
+/** Confirmed spans are shown differently from suggestions */
+export type RedactionRange = TextRange & { confirmed: boolean };
+
+/** A range to wrap in <mark>, with the classes it gets */
+type MarkRange = TextRange & { className: string };
+
+interface Props {
+  segment: TranscriptSegment;
+  /** Playback clock, only passed to the segment being played */
+  playback: PlaybackClock | null;
+  /** Words below this confidence are underlined until reviewed */
+  confidenceThreshold: number;
+  /** Word the reviewer is looking at, only passed to its segment */
+  reviewWord: number | null;
+  /** Search matches as character ranges of the text */
+  highlights?: TextRange[];
+  /** Index into `highlights` of the match being navigated to */
+  currentHighlight?: number | null;
+  /** Personal data marks that weren't dismissed */
+  redactions?: RedactionRange[];
+  onSeek: (ms: number) => void;
+}
+
+/**
+ * Wraps the parts of text[offset..] covered by ranges in <mark>. Ranges are
+ * sorted by start; where two overlap, the earlier one wins.
+ */
+function highlight(text: string, offset: number, ranges: MarkRange[]): ReactNode {
+  if (ranges.length === 0) return text;
+  const parts: ReactNode[] = [];
+  let cursor = 0;
+  ranges.forEach((range, i) => {
+    const start = Math.max(range.start - offset, cursor);
+    const end = Math.min(range.end - offset, text.length);
+    if (end <= start) return;
+    if (start > cursor) parts.push(text.slice(cursor, start));
+    parts.push(
+      <mark key={i} className={range.className}>
+        {text.slice(start, end)}
+      </mark>,
+    );
+    cursor = end;
+  });
+  if (cursor < text.length) parts.push(text.slice(cursor));
+  return parts;
+}
+
+function SegmentText({
+  segment, playback, confidenceThreshold, reviewWord, highlights, currentHighlight = null, redactions, onSeek,
+}: Props) {
+  const tokens = useMemo(() => alignWords(segment), [segment]);
+  const marks = useMemo(() => [
+    ...(highlights ?? []).map((range, i) => ({
+      ...range,
+      className: i === currentHighlight ? 'search-match search-match-current' : 'search-match',
+    })),
+    ...(redactions ?? []).map((range) => ({
+      ...range,
+      className: range.confirmed ? 'pii-mark pii-mark-confirmed' : 'pii-mark',
+    })),
+  ].sort((a, b) => a.start - b.start), [highlights, currentHighlight, redactions]);
+  // Where each token starts in the text, to place marks
+  const offsets = useMemo(() => {
+    const starts: number[] = [];
+    let offset = 0;
+    for (const token of tokens ?? []) {
+      starts.push(offset);
+      offset += token.text.length;
+    }
+    return starts;
+  }, [tokens]);
+  const resolved = useMemo(() => new Set(segment.meta?.review?.resolved ?? []), [segment]);
+  const words = segment.meta?.words ?? [];
+  // Re-renders when the highlighted word changes, not on every frame
+  const activeWord = usePlaybackValue(playback, (ms) => (ms === null ? -1 : findActiveWord(words, ms)));
+  const dir = segmentDirection(segment);
+
+  if (!tokens) {
+    return <p className="segment-text" dir={dir}>{highlight(segment.text, 0, marks)}</p>;
+  }
+
+  return (
+    <p className="segment-text" dir={dir}>
+      {tokens.map((token, i) => {
+        const content = highlight(token.text, offsets[i], marks);
+        if (token.wordIndex === null) return <Fragment key={i}>{content}</Fragment>;
+        const word = words[token.wordIndex];
+        const classes = ['word'];
+        if (token.wordIndex === activeWord) classes.push('word-active');
+        if (isUncertain(word, confidenceThreshold) && !resolved.has(token.wordIndex)) classes.push('word-uncertain');
+        if (token.wordIndex === reviewWord) classes.push('word-review');
+        return (
+          <span
+            key={i}
+            className={classes.join(' ')}
+            title={word.confidence !== null ? `Confidence ${Math.round(word.confidence * 100)}%` : undefined}
+            onClick={(e) => {
+              e.stopPropagation();
+              onSeek(word.start_ms);
+            }}
+          >
+            {content}
+          </span>
+        );
+      })}
+    </p>
+  );
+}
+
+export default memo(SegmentText);
@@ -0,0 +1,41 @@
+import type { SpeakerSuggestion } from '../lib/edge-functions';
+import { Check, X } from 'lucide-react';
+
+const CONFIDENCE_BADGES: Record<SpeakerSuggestion['confidence'], string> = {
+  high: 'badge badge-green',
+  medium: 'badge badge-blue',
+  low: 'badge badge-gray',
+};
+
+interface Props {
+  suggestions: SpeakerSuggestion[];
+  /** Current label per speaker id */
+  labels: Map<string, string>;
+  onAccept: (suggestion: SpeakerSuggestion) => void;
+  onDismiss: (suggestion: SpeakerSuggestion) => void;
+}
+
+/** Proposed speaker names with the quote each one is based on */
+export default function SpeakerSuggestions({ suggestions, labels, onAccept, onDismiss }: Props) {
+  return (
+    <div className="speaker-suggestions">
+      {suggestions.map((s) => (
+        <div key={s.speaker_id} className="speaker-suggestion">
+          <div className="speaker-suggestion-name">
+            <span className="hint">{labels.get(s.speaker_id) ?? s.speaker_id}</span>
+            <span>&rarr;</span>
+            <strong>{s.name}</strong>
+            <span className={CONFIDENCE_BADGES[s.confidence]}>{s.confidence}</span>
+            <button onClick={() => onAccept(s)} className="btn btn-primary btn-xs">
+              <Check size={14} /> Accept
+            </button>
+            <button onClick={() => onDismiss(s)} className="btn btn-ghost btn-xs" title="Dismiss">
+              <X size={14} />
+            </button>
+          </div>
+          <blockquote dir="auto">{s.quote}</blockquote>
+        </div>
+      ))}
+    </div>
+  );
+}
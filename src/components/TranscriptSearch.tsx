@@ -0,0 +1,85 @@
+import { parseTimestamp } from '../lib/search';
+import { ChevronDown, ChevronUp, Clock, Regex, Search, WholeWord } from 'lucide-react';
+
+interface Props {
+  query: string;
+  regex: boolean;
+  wholeWord: boolean;
+  /** Time range bounds as typed, e.g. `1:30` */
+  from: string;
+  to: string;
+  error: string | null;
+  matchCount: number;
+  position: number;
+  /** URL parameters to set; null removes one */
+  onChange: (changes: Record<string, string | null>) => void;
+  onNext: () => void;
+  onPrevious: () => void;
+}
+
+/** Search box with match navigation and the time range filter. Enter / Shift+Enter step through matches. */
+export default function TranscriptSearch({
+  query, regex, wholeWord, from, to, error, matchCount, position, onChange, onNext, onPrevious,
+}: Props) {
+  return (
+    <div className="transcript-search">
+      <div className="search-input">
+        <Search size={18} />
+        <input
+          type="text"
+          placeholder="Search transcript..."
+          value={query}
+          onChange={(e) => onChange({ q: e.target.value })}
+          onKeyDown={(e) => {
+            if (e.key !== 'Enter') return;
+            e.preventDefault();
+            if (e.shiftKey) onPrevious(); else onNext();
+          }}
+        />
+        {query && (
+          <span className={`match-counter ${error ? 'invalid' : ''}`} title={error ?? undefined}>
+            {error ? 'Invalid' : matchCount ? `${position + 1}/${matchCount}` : 'No matches'}
+          </span>
+        )}
+        <button
+          onClick={() => onChange({ regex: regex ? null : '1' })}
+          className={`btn btn-xs ${regex ? 'btn-outline' : 'btn-ghost'}`}
+          title="Regular expression"
+        >
+          <Regex size={14} />
+        </button>
+        <button
+          onClick={() => onChange({ word: wholeWord ? null : '1' })}
+          className={`btn btn-xs ${wholeWord ? 'btn-outline' : 'btn-ghost'}`}
+          title="Whole words only"
+        >
+          <WholeWord size={14} />
+        </button>
+        <button onClick={onPrevious} disabled={!matchCount} className="btn btn-ghost btn-xs" title="Previous match (Shift+Enter)">
+          <ChevronUp size={14} />
+        </button>
+        <button onClick={onNext} disabled={!matchCount} className="btn btn-ghost btn-xs" title="Next match (Enter)">
+          <ChevronDown size={14} />
+        </button>
+      </div>
+      <div className="time-range" title="Only show segments in this time range (m:ss)">
+        <Clock size={16} />
+        <input
+          type="text"
+          placeholder="From"
+          value={from}
+          className={from && parseTimestamp(from) === null ? 'invalid' : ''}
+          onChange={(e) => onChange({ from: e.target.value })}
+        />
+        <span>-</span>
+        <input
+          type="text"
+          placeholder="To"
+          value={to}
+          className={to && parseTimestamp(to) === null ? 'invalid' : ''}
+          onChange={(e) => onChange({ to: e.target.value })}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { MeetingBookmark, TranscriptSegment } from '../types/database';
+import type { WaveformPeaks } from '../lib/media';
+import type { PlaybackClock } from '../lib/playback';
+import Playhead from './Playhead';
+import { Loader2, ZoomIn, ZoomOut } from 'lucide-react';
+
+interface Props {
+  /** Null while the peaks are being loaded or computed */
+  peaks: WaveformPeaks | null;
+  peaksFailed: boolean;
+  durationMs: number;
+  playback: PlaybackClock;
+  segments: TranscriptSegment[];
+  bookmarks: MeetingBookmark[];
+  /** Start times of segments matching the transcript search */
+  searchHits: number[];
+  onSeek: (ms: number) => void;
+}
+
+const SPEAKER_COLORS = ['#4f46e5', '#0891b2', '#16a34a', '#d97706', '#db2777', '#7c3aed', '#dc2626', '#475569'];
+const ZOOM_LEVELS = [1, 2, 4, 8, 16];
+const WAVE_HEIGHT = 64;
+/** Browsers refuse canvases much wider than this; wider views are stretched */
+const MAX_CANVAS_WIDTH = 16384;
+
+const formatTime = (ms: number) => {
+  const totalSec = Math.floor(ms / 1000);
+  const m = Math.floor(totalSec / 60);
+  const s = totalSec % 60;
+  return `${m}:${String(s).padStart(2, '0')}`;
+};
+
+function drawPeaks(canvas: HTMLCanvasElement, peaks: WaveformPeaks, durationMs: number) {
+  const cssWidth = canvas.clientWidth;
+  if (!cssWidth) return;
+  const width = Math.min(Math.round(cssWidth * window.devicePixelRatio), MAX_CANVAS_WIDTH);
+  const height = Math.round(WAVE_HEIGHT * window.devicePixelRatio);
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+
+  // Columns of the peak data that fall under each pixel
+  const columnsPerPixel = (durationMs / 1000) * peaks.resolution / width;
+  ctx.fillStyle = getComputedStyle(canvas).color;
+  for (let x = 0; x < width; x++) {
+    const from = Math.floor(x * columnsPerPixel);
+    const to = Math.max(from + 1, Math.floor((x + 1) * columnsPerPixel));
+    let peak = 0;
+    for (let i = from; i < to && i < peaks.peaks.length; i++) peak = Math.max(peak, peaks.peaks[i]);
+    const barHeight = Math.max(1, (peak / 255) * height);
+    ctx.fillRect(x, (height - barHeight) / 2, 1, barHeight);
+  }
+}
+
+/**
+ * Waveform of the recording with a lane per speaker underneath, marking
+ * bookmarks, highlights and search hits. Click anywhere to seek.
+ */
+export default function Waveform({
+  peaks, peaksFailed, durationMs, playback, segments, bookmarks, searchHits, onSeek,
+}: Props) {
+  const [zoom, setZoom] = useState(1);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const lanes = useMemo(() => {
+    const bySpeaker = new Map<string, { label: string; segments: TranscriptSegment[] }>();
+    for (const seg of segments) {
+      if (seg.kind !== 'speech') continue;
+      const lane = bySpeaker.get(seg.speaker_id) ?? { label: seg.speaker_label, segments: [] };
+      lane.segments.push(seg);
+      bySpeaker.set(seg.speaker_id, lane);
+    }
+    return [...bySpeaker.entries()].map(([speakerId, lane], i) => ({
+      speakerId,
+      ...lane,
+      color: SPEAKER_COLORS[i % SPEAKER_COLORS.length],
+    }));
+  }, [segments]);
+
+  // Redraw when the data or zoom changes and whenever the view is resized
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !peaks) return;
+    drawPeaks(canvas, peaks, durationMs);
+    const observer = new ResizeObserver(() => drawPeaks(canvas, peaks, durationMs));
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, [peaks, durationMs, zoom]);
+
+  // Keep the playhead in view when zoomed in; follows the clock directly
+  // rather than re-rendering the lanes on every frame
+  useEffect(() => {
+    const scroll = scrollRef.current;
+    if (!scroll || !durationMs) return;
+    const follow = () => {
+      const ms = playback.get();
+      if (ms === null) return;
+      const x = (ms / durationMs) * scroll.scrollWidth;
+      if (x < scroll.scrollLeft || x > scroll.scrollLeft + scroll.clientWidth) {
+        scroll.scrollLeft = x - scroll.clientWidth / 4;
+      }
+    };
+    follow();
+    return playback.subscribe(follow);
+  }, [playback, durationMs, zoom]);
+
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    onSeek(Math.round(Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 1) * durationMs));
+  };
+
+  const at = (ms: number) => `${(Math.min(Math.max(ms, 0), durationMs) / durationMs) * 100}%`;
+  const span = (start: number, end: number) => ({
+    left: at(start),
+    width: `calc(${at(end)} - ${at(start)})`,
+  });
+
+  if (!durationMs) return null;
+
+  return (
+    <div className="waveform">
+      <div className="waveform-toolbar">
+        <div className="waveform-legend">
+          {lanes.map((lane) => (
+            <span key={lane.speakerId} className="waveform-legend-item">
+              <span className="waveform-swatch" style={{ background: lane.color }} /> {lane.label}
+            </span>
+          ))}
+        </div>
+        {!peaks && !peaksFailed && (
+          <span className="hint"><Loader2 className="spin" size={12} /> Building waveform...</span>
+        )}
+        <button
+          onClick={() => setZoom(ZOOM_LEVELS[Math.max(ZOOM_LEVELS.indexOf(zoom) - 1, 0)])}
+          disabled={zoom === ZOOM_LEVELS[0]}
+          className="btn btn-ghost btn-xs"
+          title="Zoom out"
+        >
+          <ZoomOut size={14} />
+        </button>
+        <span className="segment-time">{zoom}x</span>
+        <button
+          onClick={() => setZoom(ZOOM_LEVELS[Math.min(ZOOM_LEVELS.indexOf(zoom) + 1, ZOOM_LEVELS.length - 1)])}
+          disabled={zoom === ZOOM_LEVELS[ZOOM_LEVELS.length - 1]}
+          className="btn btn-ghost btn-xs"
+          title="Zoom in"
+        >
+          <ZoomIn size={14} />
+        </button>
+      </div>
+      <div className="waveform-scroll" ref={scrollRef}>
+        <div className="waveform-content" style={{ width: `${zoom * 100}%` }} onClick={handleClick}>
+          <canvas ref={canvasRef} className="waveform-canvas" style={{ height: WAVE_HEIGHT }} />
+          {bookmarks.map((b) => (b.kind === 'highlight' ? (
+            <div
+              key={b.id}
+              className="waveform-highlight"
+              style={span(b.start_ms, b.end_ms!)}
+              title={b.note || `Highlight ${formatTime(b.start_ms)}`}
+            />
+          ) : (
+            <div
+              key={b.id}
+              className="waveform-bookmark"
+              style={{ left: at(b.start_ms) }}
+              title={b.note || `Bookmark ${formatTime(b.start_ms)}`}
+            />
+          )))}
+          {searchHits.map((ms, i) => (
+            <div key={i} className="waveform-search-hit" style={{ left: at(ms) }} />
+          ))}
+          <div className="waveform-lanes">
+            {lanes.map((lane) => (
+              <div key={lane.speakerId} className="waveform-lane" title={lane.label}>
+                {lane.segments.map((seg) => (
+                  <div key={seg.id} className="waveform-turn" style={{ ...span(seg.start_ms, seg.end_ms), background: lane.color }} />
+                ))}
+              </div>
+            ))}
+          </div>
+          <Playhead playback={playback} durationMs={durationMs} className="waveform-playhead" />
+        </div>
+      </div>
+    </div>
+  );
+}
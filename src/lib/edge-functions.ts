@@ -1,4 +1,7 @@
 import { supabase } from './supabase';
+import type { PiiRedaction, TranscriptionProviderName } from '../types/database';
+import type { ExportFormat } from '../../supabase/functions/_shared/export/index.ts';
+import type { AnalyticsOverview, MeetingAnalytics } from '../../supabase/functions/_shared/analytics.ts';
 
 export async function invokeEdgeFunction<T>(
   name: string,
@@ -22,10 +25,32 @@ export async function createUploadUrl(params: {
   title?: string;
   filename: string;
   mime: string;
+  durationSeconds?: number;
+  customTerms?: string[];
 }): Promise<CreateUploadUrlResponse> {
   return invokeEdgeFunction<CreateUploadUrlResponse>('create_upload_url', params);
 }
 
+// --- Import ---
+
+interface ImportTranscriptResponse {
+  meetingId: string;
+  jobId: string;
+  format: string;
+  segmentCount: number;
+}
+
+/** Without a meetingId, creates a meeting that has no recording */
+export async function importTranscript(params: {
+  meetingId?: string;
+  title?: string;
+  filename: string;
+  content: string;
+  customTerms?: string[];
+}): Promise<ImportTranscriptResponse> {
+  return invokeEdgeFunction<ImportTranscriptResponse>('import_transcript', params);
+}
+
 // --- Transcription ---
 
 interface StartTranscriptionResponse {
@@ -41,6 +66,7 @@ export async function startTranscription(params: {
     diarize?: boolean;
     tagAudioEvents?: boolean;
     modelId?: string;
+    provider?: TranscriptionProviderName;
   };
 }): Promise<StartTranscriptionResponse> {
   return invokeEdgeFunction<StartTranscriptionResponse>('start_transcription', params);
@@ -52,6 +78,8 @@ interface GenerateSummaryResponse {
   summaryId: string;
   version: number;
   content_md: string;
+  /** Only in non-streamed responses; a streamed partial rejects instead */
+  is_partial?: boolean;
 }
 
 export async function generateSummary(params: {
@@ -60,10 +88,97 @@ export async function generateSummary(params: {
   modelId?: string;
   userInstructions?: string;
   forceNewVersion?: boolean;
+  includeAudioEvents?: boolean;
 }): Promise<GenerateSummaryResponse> {
   return invokeEdgeFunction<GenerateSummaryResponse>('generate_summary', params);
 }
 
+/**
+ * Generates a summary over server-sent events, passing each piece of text to
+ * onText as the model writes it. Resolves with the saved version. If the
+ * model fails midway, the text so far is saved as a partial version, passed
+ * to onPartial, and the promise rejects.
+ */
+export async function streamSummary(
+  params: Parameters<typeof generateSummary>[0],
+  handlers: { onText: (text: string) => void; onPartial?: (summary: GenerateSummaryResponse) => void },
+): Promise<GenerateSummaryResponse> {
+  // functions.invoke buffers the whole response, so this goes through fetch
+  const { data: { session } } = await supabase.auth.getSession();
+  const anonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/generate_summary`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${session?.access_token ?? anonKey}`,
+      'apikey': anonKey,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ ...params, stream: true }),
+  });
+  if (!response.ok || !response.body) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error ?? `Summary generation failed (${response.status})`);
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+    const events = buffer.split('\n\n');
+    buffer = events.pop() ?? '';
+    for (const block of events) {
+      const event = block.match(/^event: (.*)$/m)?.[1];
+      const data = JSON.parse(block.match(/^data: (.*)$/m)?.[1] ?? 'null');
+      if (event === 'delta') {
+        handlers.onText(data.text);
+      } else if (event === 'done') {
+        return data as GenerateSummaryResponse;
+      } else if (event === 'error') {
+        if (data.partial) handlers.onPartial?.(data.partial);
+        throw new Error(data.error);
+      }
+    }
+  }
+  throw new Error('The connection closed before the summary was complete');
+}
+
+// --- Speakers ---
+
+export interface SpeakerSuggestion {
+  speaker_id: string;
+  name: string;
+  /** Transcript passage the name was taken from */
+  quote: string;
+  confidence: 'high' | 'medium' | 'low';
+}
+
+export async function suggestSpeakers(params: {
+  meetingId: string;
+  modelId?: string;
+}): Promise<{ suggestions: SpeakerSuggestion[] }> {
+  return invokeEdgeFunction<{ suggestions: SpeakerSuggestion[] }>('suggest_speakers', params);
+}
+
+// --- Analytics ---
+
+export async function getMeetingAnalytics(params: { meetingId: string }): Promise<{ analytics: MeetingAnalytics }> {
+  return invokeEdgeFunction<{ analytics: MeetingAnalytics }>('meeting_analytics', params);
+}
+
+/** Participation across all of the user's transcribed meetings */
+export async function getAnalyticsOverview(): Promise<{ overview: AnalyticsOverview }> {
+  return invokeEdgeFunction<{ overview: AnalyticsOverview }>('meeting_analytics', {});
+}
+
+// --- Redaction ---
+
+/** Runs the PII detectors and returns every mark for the meeting */
+export async function detectPii(params: { meetingId: string }): Promise<{ redactions: PiiRedaction[] }> {
+  return invokeEdgeFunction<{ redactions: PiiRedaction[] }>('detect_pii', params);
+}
+
 // --- Email ---
 
 interface SendEmailResponse {
@@ -78,6 +193,12 @@ export async function sendEmail(params: {
   subject: string;
   messagePreface?: string;
   includeTranscript: boolean;
+  /** Transcript files to attach, e.g. `['pdf']` */
+  attachments?: ExportFormat[];
+  /** Clips to include as excerpts, each attached as subtitles and text */
+  clipIds?: string[];
+  /** Redact personal data; may be forced on for external recipients */
+  redact?: boolean;
 }): Promise<SendEmailResponse> {
   const { data: { session } } = await supabase.auth.getSession();
   const googleToken = session?.provider_token;
@@ -0,0 +1,33 @@
+import type { TranscriptSegment } from '../types/database';
+
+/** Choices for the transcription language; an empty code lets the provider detect it */
+export const LANGUAGE_OPTIONS = [
+  { code: '', label: 'Auto-detect' },
+  { code: 'he', label: 'Hebrew' },
+  { code: 'en', label: 'English' },
+  { code: 'ar', label: 'Arabic' },
+  { code: 'ru', label: 'Russian' },
+  { code: 'fr', label: 'French' },
+  { code: 'es', label: 'Spanish' },
+  { code: 'de', label: 'German' },
+  { code: 'am', label: 'Amharic' },
+] as const;
+
+const RTL_LANGUAGES = new Set(['he', 'yi', 'ar', 'fa', 'ur']);
+
+export type TextDirection = 'rtl' | 'ltr' | 'auto';
+
+/** Direction for a segment's text; segments without a language let the browser decide */
+export function segmentDirection(segment: Pick<TranscriptSegment, 'language_code'>): TextDirection {
+  if (!segment.language_code) return 'auto';
+  return RTL_LANGUAGES.has(segment.language_code) ? 'rtl' : 'ltr';
+}
+
+/**
+ * Wraps text in Unicode directional isolates so it reads correctly in plain
+ * text next to left-to-right timestamps and speaker names.
+ */
+export function isolateText(text: string, dir: TextDirection): string {
+  const open = dir === 'rtl' ? '\u2067' : dir === 'ltr' ? '\u2066' : '\u2068';
+  return `${open}${text}\u2069`;
+}
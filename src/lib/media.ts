@@ -0,0 +1,79 @@
+import { supabase } from './supabase';
+
+/**
+ * Reads a media file's duration from its metadata without decoding it.
+ * Resolves to undefined when the browser can't tell.
+ */
+export function getMediaDuration(file: File): Promise<number | undefined> {
+  return new Promise((resolve) => {
+    const url = URL.createObjectURL(file);
+    const media = document.createElement(file.type.startsWith('video/') ? 'video' : 'audio');
+    const done = (duration?: number) => {
+      URL.revokeObjectURL(url);
+      resolve(duration !== undefined && Number.isFinite(duration) ? duration : undefined);
+    };
+    media.preload = 'metadata';
+    media.onloadedmetadata = () => done(media.duration);
+    media.onerror = () => done();
+    media.src = url;
+  });
+}
+
+export interface WaveformPeaks {
+  /** Peak columns per second of media */
+  resolution: number;
+  duration_ms: number;
+  /** Loudest sample in each column across channels, scaled so the loudest is 255 */
+  peaks: number[];
+}
+
+const PEAKS_PER_SECOND = 20;
+
+// Decoding resamples to the context's rate; the lowest rate browsers accept
+// keeps a two-hour recording to a couple of hundred MB while decoding, and
+// 20 columns a second don't need more.
+const DECODE_SAMPLE_RATE = 3000;
+
+/** Peaks are cached next to the recording, e.g. `.../original/recording.m4a.peaks.json` */
+export const peaksPath = (mediaPath: string) => `${mediaPath}.peaks.json`;
+
+export async function computePeaks(data: ArrayBuffer): Promise<WaveformPeaks> {
+  const context = new OfflineAudioContext(1, 1, DECODE_SAMPLE_RATE);
+  const audio = await context.decodeAudioData(data);
+  const samplesPerPeak = audio.sampleRate / PEAKS_PER_SECOND;
+  const peaks = new Float32Array(Math.ceil(audio.length / samplesPerPeak));
+  for (let c = 0; c < audio.numberOfChannels; c++) {
+    const samples = audio.getChannelData(c);
+    for (let i = 0; i < samples.length; i++) {
+      const column = Math.floor(i / samplesPerPeak);
+      const value = Math.abs(samples[i]);
+      if (value > peaks[column]) peaks[column] = value;
+    }
+  }
+  const loudest = peaks.reduce((max, v) => Math.max(max, v), 0) || 1;
+  return {
+    resolution: PEAKS_PER_SECOND,
+    duration_ms: Math.round(audio.duration * 1000),
+    peaks: Array.from(peaks, (v) => Math.round((v / loudest) * 255)),
+  };
+}
+
+/**
+ * Peaks for a recording from the storage cache. On a miss the media is
+ * downloaded and decoded once, and the result stored for later visits.
+ */
+export async function loadPeaks(mediaPath: string, mediaUrl: string): Promise<WaveformPeaks> {
+  const { data: cached } = await supabase.storage.from('media').download(peaksPath(mediaPath));
+  if (cached) return JSON.parse(await cached.text());
+
+  const response = await fetch(mediaUrl);
+  if (!response.ok) throw new Error(`Could not download the recording (${response.status})`);
+  const peaks = await computePeaks(await response.arrayBuffer());
+  // Best effort: a failed write only means decoding again next time
+  await supabase.storage
+    .from('media')
+    .upload(peaksPath(mediaPath), new Blob([JSON.stringify(peaks)], { type: 'application/json' }), {
+      contentType: 'application/json',
+    });
+  return peaks;
+}
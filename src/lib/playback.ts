@@ -0,0 +1,45 @@
+import { useSyncExternalStore } from 'react';
+
+// The playback position changes on every animation frame while media plays.
+// It is kept outside React state so each view subscribes to only what it
+// shows: playheads follow every frame, while the transcript re-renders only
+// when the active segment or word changes.
+
+export interface PlaybackClock {
+  /** Position in milliseconds, null before the media has played */
+  get: () => number | null;
+  set: (ms: number | null) => void;
+  subscribe: (listener: () => void) => () => void;
+}
+
+export function createPlaybackClock(): PlaybackClock {
+  let current: number | null = null;
+  const listeners = new Set<() => void>();
+  return {
+    get: () => current,
+    set: (ms) => {
+      if (ms === current) return;
+      current = ms;
+      listeners.forEach((listener) => listener());
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+}
+
+const stoppedClock: Pick<PlaybackClock, 'get' | 'subscribe'> = {
+  get: () => null,
+  subscribe: () => () => {},
+};
+
+/**
+ * A value derived from the playback position. The caller re-renders only
+ * when the selected value changes, so `select` should return a primitive.
+ * A null clock reads as stopped.
+ */
+export function usePlaybackValue<T>(clock: PlaybackClock | null, select: (ms: number | null) => T): T {
+  const source = clock ?? stoppedClock;
+  return useSyncExternalStore(source.subscribe, () => select(source.get()));
+}
@@ -0,0 +1,106 @@
+// Search helpers. The normalization mirrors the database functions
+// (search_normalize / search_variants) so cross-meeting results can be
+// highlighted the way they matched.
+
+const FINAL_LETTERS: Record<string, string> = { 'ך': 'כ', 'ם': 'מ', 'ן': 'נ', 'ף': 'פ', 'ץ': 'צ' };
+const HEBREW_PREFIXES = 'ובכלמשה';
+
+export function normalizeSearchText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/\u05BE/g, ' ')
+    .replace(/[\u0591-\u05C7]/g, '')
+    .replace(/[ךםןףץ]/g, (c) => FINAL_LETTERS[c])
+    .replace(/([\u05D0-\u05EA])["'\u05F3\u05F4]+(?=[\u05D0-\u05EA])/g, '$1')
+    .replace(/[^a-z0-9\u00C0-\u024F\u0400-\u04FF\u05D0-\u05EA\u0600-\u06FF\u1200-\u137F]+/g, ' ')
+    .trim();
+}
+
+/** A word and its forms without up to three attached Hebrew prefixes */
+export function searchVariants(token: string): string[] {
+  const variants = [token];
+  for (let i = 0; i < 3 && token.length - i > 2 && HEBREW_PREFIXES.includes(token[i]); i++) {
+    variants.push(token.slice(i + 1));
+  }
+  return variants;
+}
+
+function queryTerms(query: string): string[][] {
+  return normalizeSearchText(query).split(' ').filter(Boolean).map(searchVariants);
+}
+
+/** Whether a word of the text matches any query word, the way the database matches it */
+function matchesWord(word: string, terms: string[][]): boolean {
+  const wordVariants = normalizeSearchText(word).split(' ').filter(Boolean).flatMap(searchVariants);
+  return terms.some((variants) => variants.some((q) => wordVariants.some((w) => w.startsWith(q))));
+}
+
+export interface HighlightPart {
+  text: string;
+  match: boolean;
+}
+
+/** Splits text into runs, marking the words that match the query */
+export function highlightMatches(text: string, query: string): HighlightPart[] {
+  const terms = queryTerms(query);
+  if (terms.length === 0) return [{ text, match: false }];
+  return text.split(/(\s+)/).filter(Boolean).map((part) => ({
+    text: part,
+    match: /\S/.test(part) && matchesWord(part, terms),
+  }));
+}
+
+/** About `radius` characters either side of the first match, for long texts like summaries */
+export function snippetAround(text: string, query: string, radius = 120): string {
+  const plain = text.replace(/[#*_>`|]+/g, ' ').replace(/\s+/g, ' ').trim();
+  const terms = queryTerms(query);
+  let at = 0;
+  for (const match of plain.matchAll(/\S+/g)) {
+    if (matchesWord(match[0], terms)) {
+      at = match.index!;
+      break;
+    }
+  }
+  const start = Math.max(0, plain.lastIndexOf(' ', Math.max(0, at - radius)) + 1);
+  const end = Math.min(plain.length, at + radius);
+  return `${start > 0 ? '…' : ''}${plain.slice(start, end).trim()}${end < plain.length ? '…' : ''}`;
+}
+
+// --- In-transcript search ---
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+export interface SearchOptions {
+  regex: boolean;
+  wholeWord: boolean;
+}
+
+/** The pattern for a search box value; `error` is set for an invalid regex */
+export function buildSearchPattern(query: string, options: SearchOptions): { pattern: RegExp | null; error: string | null } {
+  if (!query.trim()) return { pattern: null, error: null };
+  let source = options.regex ? query : query.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  if (options.wholeWord) source = `(?<![\\p{L}\\p{N}\\p{M}])(?:${source})(?![\\p{L}\\p{N}\\p{M}])`;
+  try {
+    return { pattern: new RegExp(source, 'giu'), error: null };
+  } catch (err) {
+    return { pattern: null, error: err instanceof Error ? err.message : 'Invalid pattern' };
+  }
+}
+
+/** Non-empty matches of the pattern in the text */
+export function findMatches(text: string, pattern: RegExp): TextRange[] {
+  const ranges: TextRange[] = [];
+  for (const match of text.matchAll(pattern)) {
+    if (match[0].length > 0) ranges.push({ start: match.index!, end: match.index! + match[0].length });
+  }
+  return ranges;
+}
+
+/** `1:30`, `1:02:03` or plain seconds, in milliseconds; null when blank or invalid */
+export function parseTimestamp(value: string | null): number | null {
+  if (!value?.trim() || !/^\d+(:\d{1,2}){0,2}$/.test(value.trim())) return null;
+  return value.trim().split(':').reduce((total, part) => total * 60 + Number(part), 0) * 1000;
+}
@@ -0,0 +1,140 @@
+import type { SegmentReview, TranscriptSegment, TranscriptWord } from '../types/database';
+import { alignWords } from './transcript';
+
+// Structural edits of transcript segments. Each function returns the column
+// values to write; timings come from word timestamps where the segment has
+// them and are interpolated from the text position otherwise.
+
+/**
+ * Columns of transcript_segments the editor reads and writes back. Leaves out
+ * the generated search_vector: Postgres rejects upserts of rows that carry it.
+ */
+export const SEGMENT_COLUMNS =
+  'id, meeting_id, revision_id, kind, speaker_id, speaker_label, start_ms, end_ms, text, language_code, meta, edited_at, edited_by, created_at';
+
+type SegmentPatch = Pick<TranscriptSegment, 'text' | 'start_ms' | 'end_ms' | 'meta'>;
+export type NewSegment = Omit<TranscriptSegment, 'id' | 'created_at' | 'edited_at' | 'edited_by'>;
+
+/** Character offsets at which the segment may be split, one per word after the first */
+export function splitPoints(segment: TranscriptSegment): number[] {
+  const tokens = alignWords(segment);
+  if (tokens) {
+    const points: number[] = [];
+    let offset = 0;
+    for (const token of tokens) {
+      if (token.wordIndex !== null && offset > 0) points.push(offset);
+      offset += token.text.length;
+    }
+    return points;
+  }
+  return [...segment.text.matchAll(/\s+(?=\S)/g)].map((m) => m.index! + m[0].length);
+}
+
+/** Splits the segment before the word starting at `offset` */
+export function splitSegment(segment: TranscriptSegment, offset: number): [SegmentPatch, NewSegment] {
+  const words = segment.meta?.words ?? [];
+  const tokens = alignWords(segment);
+
+  let firstWords: TranscriptWord[] = [];
+  let secondWords: TranscriptWord[] = [];
+  let splitMs: [number, number];
+
+  if (tokens && words.length > 0) {
+    let position = 0;
+    let splitIndex = words.length;
+    for (const token of tokens) {
+      if (token.wordIndex !== null && position >= offset) {
+        splitIndex = token.wordIndex;
+        break;
+      }
+      position += token.text.length;
+    }
+    firstWords = words.slice(0, splitIndex);
+    secondWords = words.slice(splitIndex);
+    splitMs = [
+      firstWords[firstWords.length - 1]?.end_ms ?? segment.start_ms,
+      secondWords[0]?.start_ms ?? segment.end_ms,
+    ];
+  } else {
+    const at = Math.round(segment.start_ms + (segment.end_ms - segment.start_ms) * (offset / segment.text.length));
+    firstWords = words.filter((w) => w.start_ms < at);
+    secondWords = words.filter((w) => w.start_ms >= at);
+    splitMs = [at, at];
+  }
+
+  const [firstReview, secondReview] = splitReview(segment.meta?.review, firstWords.length);
+
+  return [
+    {
+      text: segment.text.slice(0, offset).trim(),
+      start_ms: segment.start_ms,
+      end_ms: splitMs[0],
+      meta: { ...segment.meta, words: firstWords, review: firstReview },
+    },
+    {
+      meeting_id: segment.meeting_id,
+      revision_id: segment.revision_id,
+      kind: segment.kind,
+      speaker_id: segment.speaker_id,
+      speaker_label: segment.speaker_label,
+      language_code: segment.language_code,
+      text: segment.text.slice(offset).trim(),
+      start_ms: splitMs[1],
+      end_ms: segment.end_ms,
+      meta: { ...segment.meta, words: secondWords, review: secondReview },
+    },
+  ];
+}
+
+/** Appends `next` to `segment`; the merged segment keeps the first speaker */
+export function mergeSegments(segment: TranscriptSegment, next: TranscriptSegment): SegmentPatch {
+  const firstWords = segment.meta?.words ?? [];
+  const secondWords = (next.meta?.words ?? []).map((w) => ({ ...w, speaker_id: segment.speaker_id }));
+  const review = segment.meta?.review || next.meta?.review
+    ? {
+      resolved: [
+        ...(segment.meta?.review?.resolved ?? []),
+        ...(next.meta?.review?.resolved ?? []).map((i) => i + firstWords.length),
+      ],
+      reviewed_at: [segment.meta?.review?.reviewed_at, next.meta?.review?.reviewed_at].filter(Boolean).sort().pop()!,
+    }
+    : undefined;
+
+  return {
+    text: `${segment.text} ${next.text}`,
+    start_ms: Math.min(segment.start_ms, next.start_ms),
+    end_ms: Math.max(segment.end_ms, next.end_ms),
+    meta: { ...next.meta, ...segment.meta, words: [...firstWords, ...secondWords], review },
+  };
+}
+
+/** Moves one segment to another speaker, without touching the speaker's other segments */
+export function reassignSpeaker(
+  segment: TranscriptSegment,
+  speakerId: string,
+  speakerLabel: string,
+): Pick<TranscriptSegment, 'speaker_id' | 'speaker_label' | 'meta'> {
+  return {
+    speaker_id: speakerId,
+    speaker_label: speakerLabel,
+    meta: segment.meta?.words
+      ? { ...segment.meta, words: segment.meta.words.map((w) => ({ ...w, speaker_id: speakerId })) }
+      : segment.meta,
+  };
+}
+
+/** A speaker id not used by any segment yet */
+export function nextSpeakerId(segments: TranscriptSegment[]): string {
+  const used = new Set(segments.map((s) => s.speaker_id));
+  let n = 0;
+  while (used.has(`speaker_${n}`)) n++;
+  return `speaker_${n}`;
+}
+
+function splitReview(review: SegmentReview | undefined, at: number): [SegmentReview | undefined, SegmentReview | undefined] {
+  if (!review) return [undefined, undefined];
+  return [
+    { ...review, resolved: review.resolved.filter((i) => i < at) },
+    { ...review, resolved: review.resolved.filter((i) => i >= at).map((i) => i - at) },
+  ];
+}
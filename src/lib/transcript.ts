@@ -0,0 +1,202 @@
+import type { TranscriptSegment, TranscriptSegmentMeta, TranscriptWord } from '../types/database';
+
+export interface TextToken {
+  text: string;
+  /** Index into the segment's meta.words, or null for spacing and unmatched text */
+  wordIndex: number | null;
+}
+
+/**
+ * Splits a segment's text into tokens that line up with its word timings.
+ * Words are located in order, so the text keeps its original spacing and
+ * punctuation. Returns null when the words no longer match the text.
+ */
+export function alignWords(segment: TranscriptSegment): TextToken[] | null {
+  const words = segment.meta?.words;
+  if (!words?.length) return null;
+
+  const tokens: TextToken[] = [];
+  let cursor = 0;
+
+  for (let i = 0; i < words.length; i++) {
+    const wordText = words[i].text.trim();
+    if (!wordText) continue;
+
+    const at = segment.text.indexOf(wordText, cursor);
+    if (at === -1) return null;
+
+    if (at > cursor) {
+      tokens.push({ text: segment.text.slice(cursor, at), wordIndex: null });
+    }
+    tokens.push({ text: wordText, wordIndex: i });
+    cursor = at + wordText.length;
+  }
+
+  if (cursor < segment.text.length) {
+    tokens.push({ text: segment.text.slice(cursor), wordIndex: null });
+  }
+  return tokens;
+}
+
+export interface UncertainWord {
+  segmentId: string;
+  wordIndex: number;
+}
+
+export function isUncertain(word: TranscriptWord, threshold: number): boolean {
+  return word.type !== 'audio_event' && word.confidence !== null && word.confidence < threshold;
+}
+
+/** Low-confidence words not yet resolved in review, in transcript order */
+export function findUncertainWords(segments: TranscriptSegment[], threshold: number): UncertainWord[] {
+  const result: UncertainWord[] = [];
+  for (const segment of segments) {
+    const resolved = new Set(segment.meta?.review?.resolved ?? []);
+    segment.meta?.words?.forEach((word, wordIndex) => {
+      if (isUncertain(word, threshold) && !resolved.has(wordIndex)) {
+        result.push({ segmentId: segment.id, wordIndex });
+      }
+    });
+  }
+  return result;
+}
+
+/**
+ * Marks a word as reviewed, optionally replacing its text. The segment text
+ * is rebuilt around the word so spacing and word alignment are kept.
+ */
+export function resolveWord(
+  segment: TranscriptSegment,
+  wordIndex: number,
+  correction?: string,
+): { text: string; meta: TranscriptSegmentMeta } {
+  const words = [...(segment.meta?.words ?? [])];
+  let text = segment.text;
+
+  if (correction !== undefined && correction.trim() && correction.trim() !== words[wordIndex]?.text.trim()) {
+    const tokens = alignWords(segment);
+    const replacement = correction.trim();
+    words[wordIndex] = { ...words[wordIndex], text: replacement };
+    text = tokens
+      ? tokens.map((t) => (t.wordIndex === wordIndex ? replacement : t.text)).join('')
+      : text;
+  }
+
+  const resolved = new Set(segment.meta?.review?.resolved ?? []);
+  resolved.add(wordIndex);
+
+  return {
+    text,
+    meta: {
+      ...segment.meta,
+      words,
+      review: { resolved: [...resolved].sort((a, b) => a - b), reviewed_at: new Date().toISOString() },
+    },
+  };
+}
+
+/**
+ * Re-derives word timings for edited segment text. Words that survived the
+ * edit keep their timing and confidence; new or changed words share the time
+ * span of the words they replaced (or the gap they were inserted into) and
+ * have no confidence. Returns [] when the segment had no word timings.
+ */
+export function rebaseWords(segment: TranscriptSegment, text: string): TranscriptWord[] {
+  const words = segment.meta?.words ?? [];
+  if (words.length === 0) return [];
+
+  const oldTokens = words.map((w) => w.text.trim());
+  const newTokens = text.split(/\s+/).filter(Boolean);
+
+  // Longest common subsequence of the two token lists
+  const n = oldTokens.length;
+  const m = newTokens.length;
+  const lcs = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = oldTokens[i] === newTokens[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  const matches: [number, number][] = [];
+  for (let i = 0, j = 0; i < n && j < m;) {
+    if (oldTokens[i] === newTokens[j]) {
+      matches.push([i++, j++]);
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  matches.push([n, m]);
+
+  const result: TranscriptWord[] = [];
+  let prevOld = -1;
+  let prevNew = -1;
+  for (const [oldIndex, newIndex] of matches) {
+    const inserted = newTokens.slice(prevNew + 1, newIndex);
+    if (inserted.length > 0) {
+      const replaced = words.slice(prevOld + 1, oldIndex);
+      const start = replaced[0]?.start_ms ?? words[prevOld]?.end_ms ?? segment.start_ms;
+      const end = replaced[replaced.length - 1]?.end_ms ?? words[oldIndex]?.start_ms ?? segment.end_ms;
+      const step = Math.max(end - start, 0) / inserted.length;
+      const speaker = (replaced[0] ?? words[prevOld] ?? words[oldIndex])?.speaker_id ?? segment.speaker_id;
+      inserted.forEach((token, k) => result.push({
+        text: token,
+        start_ms: Math.round(start + step * k),
+        end_ms: Math.round(start + step * (k + 1)),
+        speaker_id: speaker,
+        confidence: null,
+      }));
+    }
+    if (oldIndex < n) result.push(words[oldIndex]);
+    prevOld = oldIndex;
+    prevNew = newIndex;
+  }
+  return result;
+}
+
+/** Text and meta for a segment whose text a person rewrote */
+export function editSegmentText(segment: TranscriptSegment, text: string): { text: string; meta: TranscriptSegmentMeta } {
+  const words = rebaseWords(segment, text);
+  return {
+    text,
+    meta: {
+      ...segment.meta,
+      words,
+      // A person has read the whole segment, so nothing in it needs review any more
+      review: { resolved: words.map((_, i) => i), reviewed_at: new Date().toISOString() },
+    },
+  };
+}
+
+/** Audio events are bracketed wherever the transcript is rendered as text */
+export function formatAudioEvent(label: string): string {
+  return `[${label}]`;
+}
+
+/** Index of the word being spoken at `ms`, or -1 */
+export function findActiveWord(words: TranscriptWord[], ms: number): number {
+  let lo = 0;
+  let hi = words.length - 1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (words[mid].end_ms <= ms) {
+      lo = mid + 1;
+    } else if (words[mid].start_ms > ms) {
+      hi = mid - 1;
+    } else {
+      return mid;
+    }
+  }
+  return -1;
+}
+
+/** Total speaking time per speaker id, in milliseconds */
+export function speakerTalkTime(segments: TranscriptSegment[]): Map<string, number> {
+  const totals = new Map<string, number>();
+  for (const segment of segments) {
+    if (segment.kind !== 'speech') continue;
+    totals.set(segment.speaker_id, (totals.get(segment.speaker_id) ?? 0) + Math.max(0, segment.end_ms - segment.start_ms));
+  }
+  return totals;
+}
@@ -1,9 +1,12 @@
 import { useEffect, useState, useCallback } from 'react';
 import { supabase } from '../lib/supabase';
-import type { AppSettings, SummaryTemplate } from '../types/database';
+import type {
+  AppSettings, GlossaryTerm, PiiKind, SummaryTemplate, TranscriptionMode, TranscriptionProviderName,
+} from '../types/database';
+import { DETECTORS, PII_KINDS } from '../../supabase/functions/_shared/redaction.ts';
 import { Save, Plus, Trash2, Loader2, Star } from 'lucide-react';
 
-type Tab = 'providers' | 'templates' | 'limits' | 'email';
+type Tab = 'providers' | 'templates' | 'glossary' | 'limits' | 'email' | 'privacy';
 
 export default function AdminPage() {
   const [tab, setTab] = useState<Tab>('providers');
@@ -12,7 +15,7 @@ export default function AdminPage() {
     <div className="admin-page">
       <h1>Admin Settings</h1>
       <div className="admin-tabs">
-        {(['providers', 'templates', 'limits', 'email'] as Tab[]).map((t) => (
+        {(['providers', 'templates', 'glossary', 'limits', 'email', 'privacy'] as Tab[]).map((t) => (
           <button
             key={t}
             className={`tab-btn ${tab === t ? 'active' : ''}`}
@@ -25,8 +28,10 @@ export default function AdminPage() {
 
       {tab === 'providers' && <ProvidersTab />}
       {tab === 'templates' && <TemplatesTab />}
+      {tab === 'glossary' && <GlossaryTab />}
       {tab === 'limits' && <LimitsTab />}
       {tab === 'email' && <EmailTab />}
+      {tab === 'privacy' && <PrivacyTab />}
     </div>
   );
 }
@@ -35,6 +40,7 @@ function ProvidersTab() {
   const [settings, setSettings] = useState<AppSettings | null>(null);
   const [elevenlabsKey, setElevenlabsKey] = useState('');
   const [openrouterKey, setOpenrouterKey] = useState('');
+  const [whisperKey, setWhisperKey] = useState('');
   const [saving, setSaving] = useState(false);
   const [message, setMessage] = useState('');
 
@@ -54,6 +60,18 @@ function ProvidersTab() {
     const { error } = await supabase
       .from('app_settings')
       .update({
+        transcription_mode: settings.transcription_mode,
+        default_transcription_provider: settings.default_transcription_provider,
+        whisper_base_url: settings.whisper_base_url,
+        whisper_model_id: settings.whisper_model_id,
+        segment_max_pause_ms: settings.segment_max_pause_ms,
+        segment_max_duration_ms: settings.segment_max_duration_ms,
+        segment_max_chars: settings.segment_max_chars,
+        segment_split_on_sentence: settings.segment_split_on_sentence,
+        review_confidence_threshold: settings.review_confidence_threshold,
+        chunk_threshold_seconds: settings.chunk_threshold_seconds,
+        chunk_duration_seconds: settings.chunk_duration_seconds,
+        chunk_overlap_seconds: settings.chunk_overlap_seconds,
         elevenlabs_default_model_id: settings.elevenlabs_default_model_id,
         elevenlabs_diarize_default: settings.elevenlabs_diarize_default,
         elevenlabs_tag_audio_events_default: settings.elevenlabs_tag_audio_events_default,
@@ -64,11 +82,13 @@ function ProvidersTab() {
       .eq('id', 1);
 
     // Save secrets via edge function (they should never be in the frontend DB)
-    if (elevenlabsKey || openrouterKey) {
+    if (elevenlabsKey || openrouterKey || whisperKey) {
       await supabase.functions.invoke('update_provider_secrets', {
         body: {
           elevenlabs_api_key: elevenlabsKey || undefined,
           openrouter_api_key: openrouterKey || undefined,
+          whisper_api_key: whisperKey || undefined,
+          whisper_base_url: settings.whisper_base_url || undefined,
         },
       });
     }
@@ -77,12 +97,123 @@ function ProvidersTab() {
     setMessage(error ? `Error: ${error.message}` : 'Settings saved!');
     setElevenlabsKey('');
     setOpenrouterKey('');
+    setWhisperKey('');
   };
 
   if (!settings) return <div className="loading-indicator"><Loader2 className="spin" size={20} /></div>;
 
   return (
     <div className="admin-section">
+      <h2>Transcription</h2>
+      <label>
+        Mode
+        <select
+          value={settings.transcription_mode}
+          onChange={(e) => setSettings({ ...settings, transcription_mode: e.target.value as TranscriptionMode })}
+        >
+          <option value="sync">Synchronous (wait for the provider)</option>
+          <option value="async">Asynchronous (finalized by webhook)</option>
+        </select>
+      </label>
+      <p className="hint">
+        Use asynchronous mode for long recordings that would otherwise time out. Deliveries are verified
+        with the webhook's signing secret: supabase secrets set ELEVENLABS_WEBHOOK_SECRET=&lt;secret&gt;
+      </p>
+      <label>
+        Default Provider
+        <select
+          value={settings.default_transcription_provider}
+          onChange={(e) => setSettings({ ...settings, default_transcription_provider: e.target.value as TranscriptionProviderName })}
+        >
+          <option value="elevenlabs">ElevenLabs</option>
+          <option value="whisper">Whisper-compatible server</option>
+        </select>
+      </label>
+
+      <h2>Segmentation</h2>
+      <label>
+        Split after pause longer than (ms)
+        <input
+          type="number"
+          min="0"
+          value={settings.segment_max_pause_ms}
+          onChange={(e) => setSettings({ ...settings, segment_max_pause_ms: parseInt(e.target.value) || 0 })}
+        />
+      </label>
+      <label>
+        Max segment duration (ms)
+        <input
+          type="number"
+          min="0"
+          value={settings.segment_max_duration_ms}
+          onChange={(e) => setSettings({ ...settings, segment_max_duration_ms: parseInt(e.target.value) || 0 })}
+        />
+      </label>
+      <label>
+        Max segment length (characters)
+        <input
+          type="number"
+          min="0"
+          value={settings.segment_max_chars}
+          onChange={(e) => setSettings({ ...settings, segment_max_chars: parseInt(e.target.value) || 0 })}
+        />
+      </label>
+      <label className="checkbox-label">
+        <input
+          type="checkbox"
+          checked={settings.segment_split_on_sentence}
+          onChange={(e) => setSettings({ ...settings, segment_split_on_sentence: e.target.checked })}
+        />
+        Split at sentence-ending punctuation
+      </label>
+      <p className="hint">Segments always split on speaker change. Set a limit to 0 to disable it.</p>
+      <label>
+        Low-confidence threshold (0-1)
+        <input
+          type="number"
+          min="0"
+          max="1"
+          step="0.05"
+          value={settings.review_confidence_threshold}
+          onChange={(e) => setSettings({ ...settings, review_confidence_threshold: parseFloat(e.target.value) || 0 })}
+        />
+      </label>
+      <p className="hint">Words below this confidence are underlined and visited in review mode.</p>
+
+      <h2>Long Recordings</h2>
+      <label>
+        Split recordings longer than (seconds)
+        <input
+          type="number"
+          min="0"
+          value={settings.chunk_threshold_seconds}
+          onChange={(e) => setSettings({ ...settings, chunk_threshold_seconds: parseInt(e.target.value) || 0 })}
+        />
+      </label>
+      <label>
+        Chunk length (seconds)
+        <input
+          type="number"
+          min="60"
+          value={settings.chunk_duration_seconds}
+          onChange={(e) => setSettings({ ...settings, chunk_duration_seconds: parseInt(e.target.value) || 1200 })}
+        />
+      </label>
+      <label>
+        Chunk overlap (seconds)
+        <input
+          type="number"
+          min="0"
+          value={settings.chunk_overlap_seconds}
+          onChange={(e) => setSettings({ ...settings, chunk_overlap_seconds: parseInt(e.target.value) || 0 })}
+        />
+      </label>
+      <p className="hint">
+        Chunks are transcribed in parallel, always through the webhook whatever the mode above, and stitched
+        together. Only WAV and MP3 files can be split: longer recordings in other formats, or for providers
+        without webhooks, are refused. Set the threshold to 0 to disable.
+      </p>
+
       <h2>ElevenLabs</h2>
       <label>
         API Key (leave blank to keep current)
@@ -114,6 +245,31 @@ function ProvidersTab() {
         Tag audio events by default
       </label>
 
+      <h2>Whisper</h2>
+      <label>
+        Server URL
+        <input
+          type="text"
+          value={settings.whisper_base_url ?? ''}
+          onChange={(e) => setSettings({ ...settings, whisper_base_url: e.target.value || null })}
+          placeholder="e.g. https://whisper.internal.example"
+        />
+      </label>
+      <label>
+        API Key (optional, leave blank to keep current)
+        <input type="password" value={whisperKey} onChange={(e) => setWhisperKey(e.target.value)} placeholder="sk-..." />
+      </label>
+      <label>
+        Model ID
+        <input
+          type="text"
+          value={settings.whisper_model_id ?? ''}
+          onChange={(e) => setSettings({ ...settings, whisper_model_id: e.target.value || null })}
+          placeholder="e.g. Systran/faster-whisper-large-v3"
+        />
+      </label>
+      <p className="hint">Speaks the OpenAI audio/transcriptions API. Whisper does not diarize, so transcripts have a single speaker.</p>
+
       <h2>OpenRouter</h2>
       <label>
         API Key (leave blank to keep current)
@@ -237,6 +393,9 @@ function TemplatesTab() {
           <label>
             User Prompt
             <textarea rows={6} value={editing.user_prompt} onChange={(e) => setEditing({ ...editing, user_prompt: e.target.value })} />
+            <span className="hint">
+              Placeholders: {'{{TRANSCRIPT}}'}, {'{{INSTRUCTIONS}}'}, {'{{PARTICIPANTS}}'} (linked speakers), {'{{HIGHLIGHTS}}'} (highlighted spans and notes); these two are appended when omitted. {'{{ANALYTICS}}'} adds talk time, turns and interruptions per speaker
+            </span>
           </label>
           <label>
             Output Format
@@ -270,6 +429,102 @@ function TemplatesTab() {
   );
 }
 
+function GlossaryTab() {
+  const [terms, setTerms] = useState<GlossaryTerm[]>([]);
+  const [editing, setEditing] = useState<{ id: string; term: string; aliases: string } | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [message, setMessage] = useState('');
+
+  const fetch = useCallback(() => {
+    supabase.from('glossary_terms').select('*').order('term').then(({ data }) => {
+      setTerms(data ?? []);
+      setLoading(false);
+    });
+  }, []);
+
+  useEffect(() => { fetch(); }, [fetch]);
+
+  const save = async () => {
+    if (!editing?.term.trim()) return;
+    const row = {
+      term: editing.term.trim(),
+      aliases: editing.aliases.split(/[\n,]/).map((a) => a.trim()).filter(Boolean),
+    };
+    const { error } = editing.id
+      ? await supabase.from('glossary_terms').update(row).eq('id', editing.id)
+      : await supabase.from('glossary_terms').insert(row);
+    if (error) {
+      setMessage(`Error: ${error.code === '23505' ? `"${row.term}" is already in the glossary` : error.message}`);
+      return;
+    }
+    setMessage('');
+    setEditing(null);
+    fetch();
+  };
+
+  const remove = async (termId: string) => {
+    if (!confirm('Delete this term?')) return;
+    await supabase.from('glossary_terms').delete().eq('id', termId);
+    fetch();
+  };
+
+  if (loading) return <div className="loading-indicator"><Loader2 className="spin" size={20} /></div>;
+
+  return (
+    <div className="admin-section">
+      <div className="section-header">
+        <h2>Glossary</h2>
+        <button onClick={() => setEditing({ id: '', term: '', aliases: '' })} className="btn btn-primary btn-sm">
+          <Plus size={16} /> New Term
+        </button>
+      </div>
+      <p className="hint">
+        Terms are sent to the transcription provider to bias recognition. Providers that can't take them all
+        get the rest fixed up afterwards, together with any aliases (common misrecognitions) listed here.
+      </p>
+
+      {editing && (
+        <div className="template-editor">
+          <label>
+            Term
+            <input type="text" value={editing.term} onChange={(e) => setEditing({ ...editing, term: e.target.value })} />
+          </label>
+          <label>
+            Aliases (one per line or comma separated)
+            <textarea rows={3} value={editing.aliases} onChange={(e) => setEditing({ ...editing, aliases: e.target.value })} />
+          </label>
+          {message && <p className="error-msg">{message}</p>}
+          <div className="editor-actions">
+            <button onClick={save} className="btn btn-primary btn-sm"><Save size={16} /> Save</button>
+            <button onClick={() => { setEditing(null); setMessage(''); }} className="btn btn-ghost btn-sm">Cancel</button>
+          </div>
+        </div>
+      )}
+
+      <div className="templates-list">
+        {terms.map((t) => (
+          <div key={t.id} className="template-card">
+            <div className="template-info">
+              <strong>{t.term}</strong>
+              {t.aliases.length > 0 && <span className="hint">{t.aliases.join(', ')}</span>}
+            </div>
+            <div className="template-actions">
+              <button
+                onClick={() => setEditing({ id: t.id, term: t.term, aliases: t.aliases.join('\n') })}
+                className="btn btn-ghost btn-xs"
+              >
+                Edit
+              </button>
+              <button onClick={() => remove(t.id)} className="btn btn-ghost btn-xs btn-danger"><Trash2 size={14} /></button>
+            </div>
+          </div>
+        ))}
+        {terms.length === 0 && <p className="hint">No glossary terms yet.</p>}
+      </div>
+    </div>
+  );
+}
+
 function LimitsTab() {
   const [settings, setSettings] = useState<AppSettings | null>(null);
   const [saving, setSaving] = useState(false);
@@ -367,3 +622,77 @@ function EmailTab() {
     </div>
   );
 }
+
+function PrivacyTab() {
+  const [settings, setSettings] = useState<AppSettings | null>(null);
+  const [domains, setDomains] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    supabase.from('app_settings').select('*').eq('id', 1).single().then(({ data }) => {
+      if (!data) return;
+      setSettings(data);
+      setDomains(data.internal_email_domains.join('\n'));
+    });
+  }, []);
+
+  const toggleDetector = (kind: PiiKind) => {
+    if (!settings) return;
+    const enabled = settings.redaction_detectors.includes(kind)
+      ? settings.redaction_detectors.filter((k) => k !== kind)
+      : [...settings.redaction_detectors, kind];
+    setSettings({ ...settings, redaction_detectors: enabled });
+  };
+
+  const save = async () => {
+    if (!settings) return;
+    setSaving(true);
+    const { error } = await supabase
+      .from('app_settings')
+      .update({
+        redaction_detectors: settings.redaction_detectors,
+        redact_external_email: settings.redact_external_email,
+        internal_email_domains: domains.split('\n').map((d) => d.trim().replace(/^@/, '')).filter(Boolean),
+      })
+      .eq('id', 1);
+    setSaving(false);
+    setMessage(error ? `Error: ${error.message}` : 'Saved!');
+  };
+
+  if (!settings) return <div className="loading-indicator"><Loader2 className="spin" size={20} /></div>;
+
+  return (
+    <div className="admin-section">
+      <h2>Personal Data Redaction</h2>
+      <p className="hint">Detectors suggest spans to redact; meeting owners confirm or dismiss them on the meeting page.</p>
+      {PII_KINDS.map((kind) => (
+        <label key={kind} className="checkbox-label">
+          <input
+            type="checkbox"
+            checked={settings.redaction_detectors.includes(kind)}
+            onChange={() => toggleDetector(kind)}
+          />
+          {DETECTORS[kind].label}
+        </label>
+      ))}
+      <label className="checkbox-label">
+        <input
+          type="checkbox"
+          checked={settings.redact_external_email}
+          onChange={(e) => setSettings({ ...settings, redact_external_email: e.target.checked })}
+        />
+        Always redact emails sent outside the organisation
+      </label>
+      <label>
+        Internal email domains (one per line)
+        <textarea value={domains} onChange={(e) => setDomains(e.target.value)} rows={3} placeholder="example.ac.il" />
+      </label>
+      <p className="hint">Subdomains count as internal. When empty, every recipient counts as external.</p>
+      {message && <p className={message.startsWith('Error') ? 'error-msg' : 'success-msg'}>{message}</p>}
+      <button onClick={save} disabled={saving} className="btn btn-primary">
+        {saving ? <Loader2 className="spin" size={18} /> : <Save size={18} />} Save Privacy Settings
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { getAnalyticsOverview } from '../lib/edge-functions';
+import type { AnalyticsOverview } from '../../supabase/functions/_shared/analytics.ts';
+import { Loader2 } from 'lucide-react';
+
+const formatDuration = (ms: number) => {
+  const totalMin = Math.round(ms / 60000);
+  const h = Math.floor(totalMin / 60);
+  const m = totalMin % 60;
+  return h ? `${h}h ${m}m` : `${m}m`;
+};
+
+const formatShare = (share: number) => `${Math.round(share * 100)}%`;
+
+/** Participation balance across all of the user's transcribed meetings */
+export default function AnalyticsPage() {
+  const [overview, setOverview] = useState<AnalyticsOverview | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    getAnalyticsOverview().then(
+      (res) => setOverview(res.overview),
+      (err) => setError(err instanceof Error ? err.message : 'Could not compute analytics'),
+    );
+  }, []);
+
+  return (
+    <div className="analytics-page">
+      <div className="page-header">
+        <h1>Analytics</h1>
+      </div>
+
+      {error ? (
+        <p className="error-msg">{error}</p>
+      ) : !overview ? (
+        <div className="loading-indicator"><Loader2 className="spin" size={24} /> Computing analytics...</div>
+      ) : overview.totals.meetings === 0 ? (
+        <div className="empty-state">
+          <p>No transcribed meetings yet.</p>
+        </div>
+      ) : (
+        <>
+          <div className="analytics-totals">
+            <span><strong>{overview.totals.meetings}</strong> meetings</span>
+            <span><strong>{formatDuration(overview.totals.duration_ms)}</strong> of meetings</span>
+            <span><strong>{formatDuration(overview.totals.talk_ms)}</strong> of speech</span>
+            <span><strong>{overview.totals.overlaps}</strong> overlaps</span>
+            <span><strong>{overview.totals.interruptions}</strong> interruptions</span>
+          </div>
+
+          <h3 className="analytics-heading">People</h3>
+          <p className="hint">
+            Speakers linked to the participant directory are matched across meetings; unnamed speakers are pooled.
+          </p>
+          <div className="meetings-table-wrapper">
+            <table className="meetings-table analytics-table">
+              <thead>
+                <tr>
+                  <th>Name</th>
+                  <th>Meetings</th>
+                  <th>Talk time</th>
+                  <th title="Average share of talk time in the meetings they were in">Avg share</th>
+                  <th>Turns</th>
+                  <th>Avg turn</th>
+                  <th>Words/min</th>
+                  <th title="Interrupted others / was interrupted">Interruptions</th>
+                  <th>Fillers/min</th>
+                </tr>
+              </thead>
+              <tbody>
+                {overview.people.map((p) => (
+                  <tr key={p.key}>
+                    <td>{p.name}</td>
+                    <td>{p.meetings}</td>
+                    <td>{formatDuration(p.talk_ms)}</td>
+                    <td>
+                      <div className="share-bar">
+                        <div className="share-bar-fill" style={{ width: formatShare(p.avg_share) }} />
+                        <span>{formatShare(p.avg_share)}</span>
+                      </div>
+                    </td>
+                    <td>{p.turns}</td>
+                    <td>{Math.round(p.avg_turn_ms / 1000)}s</td>
+                    <td>{p.wpm}</td>
+                    <td>{p.interruptions} / {p.interrupted}</td>
+                    <td>{p.fillers_per_minute}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <h3 className="analytics-heading">Meetings</h3>
+          <div className="meetings-table-wrapper">
+            <table className="meetings-table analytics-table">
+              <thead>
+                <tr>
+                  <th>Title</th>
+                  <th>Date</th>
+                  <th>Length</th>
+                  <th>Speakers</th>
+                  <th title="Share of talk time of whoever spoke most">Top speaker</th>
+                  <th>Overlaps</th>
+                  <th>Interruptions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {overview.meetings.map((m) => (
+                  <tr key={m.meeting_id}>
+                    <td className="meeting-title"><Link to={`/meeting/${m.meeting_id}`}>{m.title}</Link></td>
+                    <td>{new Date(m.created_at).toLocaleDateString()}</td>
+                    <td>{formatDuration(m.duration_ms)}</td>
+                    <td>{m.speakers}</td>
+                    <td>{formatShare(m.top_share)}</td>
+                    <td>{m.overlaps}</td>
+                    <td>{m.interruptions}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
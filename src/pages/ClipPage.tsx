@@ -0,0 +1,176 @@
+import { useEffect, useRef, useState } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { supabase } from '../lib/supabase';
+import type { Meeting, MeetingClip } from '../types/database';
+import { exportClipBundle, exportFileName } from '../../supabase/functions/_shared/export/index.ts';
+import { ArrowLeft, Download, ExternalLink, Loader2, Music, RotateCcw } from 'lucide-react';
+
+type ClipMeeting = Pick<Meeting, 'title' | 'source_filename' | 'media_mime'>;
+
+const formatTime = (ms: number) => {
+  const totalSec = Math.floor(ms / 1000);
+  const m = Math.floor(totalSec / 60);
+  const s = totalSec % 60;
+  return `${m}:${String(s).padStart(2, '0')}`;
+};
+
+/** Plays one clip of a meeting's recording on its own, with its excerpt */
+export default function ClipPage() {
+  const { id, clipId } = useParams<{ id: string; clipId: string }>();
+  const [clip, setClip] = useState<MeetingClip | null>(null);
+  const [meeting, setMeeting] = useState<ClipMeeting | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [mediaUrl, setMediaUrl] = useState<string | null>(null);
+  const [playbackMs, setPlaybackMs] = useState<number | null>(null);
+  const mediaRef = useRef<HTMLVideoElement & HTMLAudioElement>(null);
+
+  useEffect(() => {
+    if (!id || !clipId) return;
+    Promise.all([
+      supabase.from('meeting_clips').select('*').eq('id', clipId).eq('meeting_id', id).single(),
+      supabase.from('meetings').select('title, source_filename, media_mime').eq('id', id).single(),
+    ]).then(([clipRes, meetingRes]) => {
+      setClip(clipRes.data);
+      setMeeting(meetingRes.data);
+      setLoading(false);
+    });
+  }, [id, clipId]);
+
+  useEffect(() => {
+    if (!clip?.media_path) return;
+    supabase.storage
+      .from('media')
+      .createSignedUrl(clip.media_path, 3600)
+      .then(({ data }) => {
+        if (data?.signedUrl) setMediaUrl(data.signedUrl);
+      });
+  }, [clip?.media_path]);
+
+  // Keep playback inside the clip: stop at its end, restart from its start
+  useEffect(() => {
+    const media = mediaRef.current;
+    if (!media || !clip) return;
+    const onTimeUpdate = () => {
+      const ms = Math.round(media.currentTime * 1000);
+      if (ms >= clip.end_ms) {
+        media.pause();
+        media.currentTime = clip.end_ms / 1000;
+      }
+      setPlaybackMs(ms);
+    };
+    const onPlay = () => {
+      const ms = media.currentTime * 1000;
+      if (ms < clip.start_ms || ms >= clip.end_ms - 250) media.currentTime = clip.start_ms / 1000;
+    };
+    media.addEventListener('timeupdate', onTimeUpdate);
+    media.addEventListener('play', onPlay);
+    return () => {
+      media.removeEventListener('timeupdate', onTimeUpdate);
+      media.removeEventListener('play', onPlay);
+    };
+  }, [mediaUrl, clip]);
+
+  const handleRestart = () => {
+    if (!mediaRef.current || !clip) return;
+    mediaRef.current.currentTime = clip.start_ms / 1000;
+    mediaRef.current.play();
+  };
+
+  const handleSeek = (ms: number) => {
+    if (!mediaRef.current) return;
+    mediaRef.current.currentTime = ms / 1000;
+    mediaRef.current.play();
+  };
+
+  const handleExport = () => {
+    if (!clip || !meeting) return;
+    const file = exportClipBundle(
+      { title: clip.title, start_ms: clip.start_ms, end_ms: clip.end_ms, segments: clip.excerpt },
+      meeting.title || meeting.source_filename,
+    );
+    const blob = new Blob([file.content as BlobPart], { type: file.mime });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = exportFileName(clip.title, file.extension);
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  if (loading) {
+    return <div className="loading-indicator"><Loader2 className="spin" size={24} /> Loading clip...</div>;
+  }
+
+  if (!clip || !meeting) {
+    return <div className="empty-state">Clip not found.</div>;
+  }
+
+  // Media fragment, so the player opens at the clip even before our handlers run
+  const src = mediaUrl ? `${mediaUrl}#t=${clip.start_ms / 1000},${clip.end_ms / 1000}` : null;
+
+  return (
+    <div className="clip-page">
+      <div className="page-header">
+        <Link to={`/meeting/${id}`} className="btn btn-ghost">
+          <ArrowLeft size={18} />
+        </Link>
+        <h1 dir="auto">{clip.title}</h1>
+        <div className="header-actions">
+          <button onClick={handleExport} className="btn btn-outline">
+            <Download size={18} /> Subtitles &amp; text
+          </button>
+        </div>
+      </div>
+      <p className="hint">
+        {meeting.title || meeting.source_filename}, {formatTime(clip.start_ms)} - {formatTime(clip.end_ms)}
+        {' '}<Link to={`/meeting/${id}?t=${clip.start_ms}`}><ExternalLink size={12} /> Open in meeting</Link>
+      </p>
+
+      {src && (
+        <div className="media-player">
+          {meeting.media_mime?.startsWith('video/') ? (
+            <video ref={mediaRef} src={src} controls className="media-element" />
+          ) : (
+            <div className="audio-player-wrapper">
+              <audio ref={mediaRef} src={src} controls className="audio-element" />
+            </div>
+          )}
+          <button onClick={handleRestart} className="btn btn-ghost btn-sm">
+            <RotateCcw size={16} /> Play from the start
+          </button>
+        </div>
+      )}
+
+      <div className="transcript-section">
+        <div className="transcript-segments">
+          {clip.excerpt.map((seg, i) => {
+            if (seg.kind === 'audio_event') {
+              return (
+                <button key={i} className="audio-event" onClick={() => handleSeek(seg.start_ms)}>
+                  <Music size={12} /> {seg.text}
+                  <span className="segment-time">{formatTime(seg.start_ms - clip.start_ms)}</span>
+                </button>
+              );
+            }
+            const isActive = playbackMs !== null && playbackMs >= seg.start_ms && playbackMs < seg.end_ms;
+            return (
+              <div
+                key={i}
+                className={`segment ${isActive ? 'segment-active' : ''}`}
+                onClick={() => handleSeek(seg.start_ms)}
+              >
+                <div className="segment-header">
+                  <span className="segment-speaker">{seg.speaker_label}</span>
+                  <span className="segment-time" title={`${formatTime(seg.start_ms)} in the meeting`}>
+                    {formatTime(Math.max(0, seg.start_ms - clip.start_ms))}
+                  </span>
+                </div>
+                <p className="segment-text" dir="auto">{seg.text}</p>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,9 +2,10 @@ import { useEffect, useState, useCallback } from 'react';
 import { Link } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../context/AuthContext';
-import type { Meeting, MeetingStatus } from '../types/database';
+import type { Meeting, MeetingStatus, SearchHit } from '../types/database';
 import { Plus, Mic, Search, Eye, Sparkles, Mail, Trash2, Loader2 } from 'lucide-react';
 import RecordingModal from '../components/RecordingModal';
+import SearchResults from '../components/SearchResults';
 
 export default function DashboardPage() {
   const { user } = useAuth();
@@ -13,6 +14,7 @@ export default function DashboardPage() {
   const [search, setSearch] = useState('');
   const [statusFilter, setStatusFilter] = useState<MeetingStatus | ''>('');
   const [showRecorder, setShowRecorder] = useState(false);
+  const [searchHits, setSearchHits] = useState<{ query: string; hits: SearchHit[]; error: string | null } | null>(null);
 
   const fetchMeetings = useCallback(async () => {
     if (!user) return;
@@ -38,6 +40,18 @@ export default function DashboardPage() {
     fetchMeetings();
   }, [fetchMeetings]);
 
+  // Transcript and summary search runs server-side once typing pauses
+  const searchQuery = search.trim();
+  useEffect(() => {
+    if (searchQuery.length < 2) return;
+    const timer = setTimeout(() => {
+      supabase.rpc('search_meetings', { search_text: searchQuery }).then(({ data, error }) => {
+        setSearchHits({ query: searchQuery, hits: data ?? [], error: error?.message ?? null });
+      });
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
   const handleDelete = async (meetingId: string) => {
     if (!confirm('Delete this meeting and all associated data?')) return;
     await supabase.from('meetings').delete().eq('id', meetingId);
@@ -91,7 +105,7 @@ export default function DashboardPage() {
           <Search size={18} />
           <input
             type="text"
-            placeholder="Search meetings..."
+            placeholder="Search meetings and transcripts..."
             value={search}
             onChange={(e) => setSearch(e.target.value)}
           />
@@ -109,6 +123,17 @@ export default function DashboardPage() {
         </select>
       </div>
 
+      {searchQuery.length >= 2 && (
+        <div className="search-panel">
+          <h3>In transcripts and summaries</h3>
+          {searchHits?.query !== searchQuery
+            ? <div className="loading-indicator"><Loader2 className="spin" size={18} /> Searching...</div>
+            : searchHits.error
+              ? <div className="error-msg">Search failed: {searchHits.error}</div>
+              : <SearchResults hits={searchHits.hits} query={searchQuery} />}
+        </div>
+      )}
+
       {loading ? (
         <div className="loading-indicator"><Loader2 className="spin" size={24} /> Loading meetings...</div>
       ) : meetings.length === 0 ? (
@@ -2,8 +2,15 @@ import { useState, useEffect, useCallback } from 'react';
 import { useParams, Link } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
 import { sendEmail } from '../lib/edge-functions';
-import type { Meeting } from '../types/database';
-import { ArrowLeft, Send, Loader2, CheckCircle, AlertCircle } from 'lucide-react';
+import type { AppSettings, Meeting, MeetingClip, Participant } from '../types/database';
+import { EXPORT_FORMATS, type ExportFormat } from '../../supabase/functions/_shared/export/index.ts';
+import { externalRecipients } from '../../supabase/functions/_shared/redaction.ts';
+import { formatTime } from '../../supabase/functions/_shared/transcript-text.ts';
+import { ArrowLeft, Send, Loader2, CheckCircle, AlertCircle, Plus } from 'lucide-react';
+
+type Suggestion = Pick<Participant, 'name' | 'email'>;
+
+type RedactionPolicy = Pick<AppSettings, 'redact_external_email' | 'internal_email_domains'>;
 
 export default function EmailPage() {
   const { id } = useParams<{ id: string }>();
@@ -13,9 +20,15 @@ export default function EmailPage() {
   const [subject, setSubject] = useState('');
   const [preface, setPreface] = useState('');
   const [includeTranscript, setIncludeTranscript] = useState(false);
+  const [attachments, setAttachments] = useState<ExportFormat[]>([]);
+  const [clips, setClips] = useState<Pick<MeetingClip, 'id' | 'title' | 'start_ms' | 'end_ms'>[]>([]);
+  const [clipIds, setClipIds] = useState<string[]>([]);
+  const [redact, setRedact] = useState(false);
+  const [redactionPolicy, setRedactionPolicy] = useState<RedactionPolicy | null>(null);
   const [sending, setSending] = useState(false);
   const [result, setResult] = useState<'sent' | 'failed' | null>(null);
   const [error, setError] = useState('');
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
 
   const fetchMeeting = useCallback(async () => {
     if (!id) return;
@@ -24,12 +37,61 @@ export default function EmailPage() {
     if (data) {
       setSubject(`Meeting Notes: ${data.title || data.source_filename}`);
     }
+    const { data: clipRows } = await supabase
+      .from('meeting_clips')
+      .select('id, title, start_ms, end_ms')
+      .eq('meeting_id', id)
+      .order('start_ms', { ascending: true });
+    setClips(clipRows ?? []);
+    // Participants linked to the meeting's speakers are suggested as recipients
+    if (data?.active_revision_id) {
+      const { data: links } = await supabase
+        .from('meeting_speakers')
+        .select('participants(name, email)')
+        .eq('revision_id', data.active_revision_id)
+        .overrideTypes<{ participants: Suggestion | null }[]>();
+      const people = (links ?? [])
+        .map((l) => l.participants)
+        .filter((p): p is Suggestion => !!p?.email);
+      setSuggestions([...new Map(people.map((p) => [p.email!.toLowerCase(), p])).values()]);
+    }
   }, [id]);
 
   useEffect(() => {
     fetchMeeting();
   }, [fetchMeeting]);
 
+  useEffect(() => {
+    supabase
+      .from('app_settings')
+      .select('redact_external_email, internal_email_domains')
+      .eq('id', 1)
+      .single()
+      .then(({ data }) => setRedactionPolicy(data));
+  }, []);
+
+  const recipients = to.split(',').map((e) => e.trim().toLowerCase()).filter(Boolean);
+  const openSuggestions = suggestions.filter((p) => !recipients.includes(p.email!.toLowerCase()));
+
+  // Mirrors the check in send_email, which makes the final decision
+  const external = externalRecipients(
+    [...recipients, ...cc.split(',').map((e) => e.trim()).filter(Boolean)],
+    redactionPolicy?.internal_email_domains ?? [],
+  );
+  const redactionForced = !!redactionPolicy?.redact_external_email && external.length > 0;
+
+  const toggleAttachment = (format: ExportFormat) => {
+    setAttachments((prev) => (prev.includes(format) ? prev.filter((f) => f !== format) : [...prev, format]));
+  };
+
+  const toggleClip = (clipId: string) => {
+    setClipIds((prev) => (prev.includes(clipId) ? prev.filter((c) => c !== clipId) : [...prev, clipId]));
+  };
+
+  const addRecipient = (email: string) => {
+    setTo((prev) => (prev.trim() ? `${prev.trim().replace(/,$/, '')}, ${email}` : email));
+  };
+
   const handleSend = async () => {
     if (!id || !to.trim()) return;
 
@@ -48,6 +110,9 @@ export default function EmailPage() {
         subject,
         messagePreface: preface || undefined,
         includeTranscript,
+        attachments: attachments.length ? attachments : undefined,
+        clipIds: clipIds.length ? clipIds : undefined,
+        redact: redact || redactionForced,
       });
       setResult(res.status);
     } catch (err) {
@@ -88,6 +153,16 @@ export default function EmailPage() {
               required
             />
           </label>
+          {openSuggestions.length > 0 && (
+            <div className="recipient-suggestions">
+              <span className="hint">Participants:</span>
+              {openSuggestions.map((p) => (
+                <button key={p.email} onClick={() => addRecipient(p.email!)} className="btn btn-ghost btn-xs" title={p.email!}>
+                  <Plus size={14} /> {p.name}
+                </button>
+              ))}
+            </div>
+          )}
 
           <label>
             Cc (optional)
@@ -127,6 +202,51 @@ export default function EmailPage() {
             Include full transcript
           </label>
 
+          <div className="attachment-options">
+            <span>Attach transcript as</span>
+            {EXPORT_FORMATS.map(({ format, label }) => (
+              <label key={format} className="checkbox-label">
+                <input
+                  type="checkbox"
+                  checked={attachments.includes(format)}
+                  onChange={() => toggleAttachment(format)}
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+
+          {clips.length > 0 && (
+            <div className="attachment-options">
+              <span>Include clips</span>
+              {clips.map((clip) => (
+                <label key={clip.id} className="checkbox-label">
+                  <input
+                    type="checkbox"
+                    checked={clipIds.includes(clip.id)}
+                    onChange={() => toggleClip(clip.id)}
+                  />
+                  {clip.title} ({formatTime(clip.start_ms)} - {formatTime(clip.end_ms)})
+                </label>
+              ))}
+            </div>
+          )}
+
+          <label className="checkbox-label">
+            <input
+              type="checkbox"
+              checked={redact || redactionForced}
+              disabled={redactionForced}
+              onChange={(e) => setRedact(e.target.checked)}
+            />
+            Redact personal data (phone numbers, email addresses, ID numbers)
+          </label>
+          {redactionForced && (
+            <p className="hint">
+              Required for recipients outside your organisation: {external.join(', ')}
+            </p>
+          )}
+
           {result === 'failed' && (
             <div className="error-card">
               <AlertCircle size={18} />
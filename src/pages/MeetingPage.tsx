@@ -1,32 +1,164 @@
-import { useEffect, useState, useRef, useCallback } from 'react';
-import { useParams, Link } from 'react-router-dom';
+import { useEffect, useState, useRef, useCallback, useMemo } from 'react';
+import { useParams, useSearchParams, Link } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
-import { startTranscription } from '../lib/edge-functions';
-import type { Meeting, TranscriptSegment } from '../types/database';
-import { Loader2, Search, Download, Sparkles, Mail, RotateCcw, Pencil, Check, X } from 'lucide-react';
+import { detectPii, startTranscription, suggestSpeakers, type SpeakerSuggestion } from '../lib/edge-functions';
+import type {
+  Meeting, MeetingBookmark, MeetingClip, MeetingSpeaker, Participant, PiiKind, PiiRedaction, RedactionStatus,
+  TranscriptionJob, TranscriptRevision, TranscriptSegment,
+} from '../types/database';
+import SegmentText, { type RedactionRange } from '../components/SegmentText';
+import ReviewBar from '../components/ReviewBar';
+import SegmentHistory from '../components/SegmentHistory';
+import SegmentSplitter from '../components/SegmentSplitter';
+import SpeakerSuggestions from '../components/SpeakerSuggestions';
+import TranscriptSearch from '../components/TranscriptSearch';
+import ExportMenu, { type ExportChoice } from '../components/ExportMenu';
+import BookmarksPanel from '../components/BookmarksPanel';
+import ClipsPanel from '../components/ClipsPanel';
+import ClipTimeline, { type TimeRange } from '../components/ClipTimeline';
+import Waveform from '../components/Waveform';
+import MeetingAnalyticsPanel from '../components/MeetingAnalyticsPanel';
+import RedactionReview from '../components/RedactionReview';
+import {
+  excerptSegments, exportClipBundle, exportFileName, exportTranscript,
+} from '../../supabase/functions/_shared/export/index.ts';
+import {
+  locateMark, marksByTarget, PII_KINDS, redactSegments, redactText,
+} from '../../supabase/functions/_shared/redaction.ts';
+import { fetchAllRows } from '../../supabase/functions/_shared/pagination.ts';
+import { isolateText, segmentDirection } from '../lib/language';
+import { loadPeaks, type WaveformPeaks } from '../lib/media';
+import { createPlaybackClock, usePlaybackValue } from '../lib/playback';
+import {
+  editSegmentText, findUncertainWords, formatAudioEvent, isUncertain, resolveWord, speakerTalkTime,
+} from '../lib/transcript';
+import { buildSearchPattern, findMatches, parseTimestamp, type TextRange } from '../lib/search';
+import { mergeSegments, nextSpeakerId, reassignSpeaker, SEGMENT_COLUMNS, splitSegment } from '../lib/segment-edits';
+import {
+  Loader2, Sparkles, Mail, RotateCcw, Pencil, Check, X, Music, ListChecks, History,
+  Scissors, Merge, Undo2, Wand2, BookmarkPlus, Highlighter, Film, BarChart3, ShieldAlert,
+} from 'lucide-react';
+
+type ChunkProgress = Pick<TranscriptionJob, 'id' | 'chunk_index' | 'chunk_start_ms' | 'chunk_end_ms' | 'status'>;
+
+type RevisionOption = TranscriptRevision & {
+  transcription_jobs: Pick<TranscriptionJob, 'provider'> | null;
+};
+
+/** How to take back a structural edit: rows to write back and rows it created */
+interface UndoEntry {
+  label: string;
+  restore: TranscriptSegment[];
+  remove: string[];
+}
+
+const NEW_SPEAKER = '__new__';
+
+const byStart = (a: TranscriptSegment, b: TranscriptSegment) => a.start_ms - b.start_ms;
+
+const CHUNK_STATUS_BADGES: Record<TranscriptionJob['status'], string> = {
+  queued: 'badge badge-gray',
+  running: 'badge badge-blue',
+  completed: 'badge badge-green',
+  failed: 'badge badge-red',
+};
 
 export default function MeetingPage() {
   const { id } = useParams<{ id: string }>();
+  // Search and filter state lives in the URL so a filtered view can be shared:
+  // q, regex, word, speakers, from, to; t is set when opened from a search result
+  const [searchParams, setSearchParams] = useSearchParams();
+  const linkedMs = searchParams.has('t') ? Number(searchParams.get('t')) || 0 : null;
+  const searchText = searchParams.get('q') ?? '';
+  const regexSearch = searchParams.get('regex') === '1';
+  const wholeWordSearch = searchParams.get('word') === '1';
+  const speakerFilterParam = searchParams.get('speakers');
+  const fromParam = searchParams.get('from') ?? '';
+  const toParam = searchParams.get('to') ?? '';
+  const [matchCursor, setMatchCursor] = useState(0);
   const [meeting, setMeeting] = useState<Meeting | null>(null);
   const [segments, setSegments] = useState<TranscriptSegment[]>([]);
   const [loading, setLoading] = useState(true);
-  const [searchText, setSearchText] = useState('');
   const [editingSpeaker, setEditingSpeaker] = useState<string | null>(null);
   const [newSpeakerLabel, setNewSpeakerLabel] = useState('');
+  const [playback] = useState(createPlaybackClock);
+  const [chunkJobs, setChunkJobs] = useState<ChunkProgress[]>([]);
+  const [revisions, setRevisions] = useState<RevisionOption[]>([]);
+  const [showAudioEvents, setShowAudioEvents] = useState(true);
+  const [confidenceThreshold, setConfidenceThreshold] = useState(0.6);
+  const [reviewMode, setReviewMode] = useState(false);
+  const [reviewCursor, setReviewCursor] = useState(0);
+  const reviewStopRef = useRef<ReturnType<typeof setTimeout>>(undefined);
+  const [editingSegment, setEditingSegment] = useState<string | null>(null);
+  const [draftText, setDraftText] = useState('');
+  const [historySegment, setHistorySegment] = useState<string | null>(null);
+  const [splittingSegment, setSplittingSegment] = useState<string | null>(null);
+  const [undoStack, setUndoStack] = useState<UndoEntry[]>([]);
+  const [participants, setParticipants] = useState<Participant[]>([]);
+  const [speakerLinks, setSpeakerLinks] = useState<MeetingSpeaker[]>([]);
+  const [speakerSuggestions, setSpeakerSuggestions] = useState<SpeakerSuggestion[] | null>(null);
+  const [suggestingSpeakers, setSuggestingSpeakers] = useState(false);
+  const [suggestError, setSuggestError] = useState('');
+  const [transcriptionError, setTranscriptionError] = useState('');
+  const [bookmarks, setBookmarks] = useState<MeetingBookmark[]>([]);
+  const [highlightAnchor, setHighlightAnchor] = useState<string | null>(null);
+  const [newBookmarkId, setNewBookmarkId] = useState<string | null>(null);
+  const [clips, setClips] = useState<MeetingClip[]>([]);
+  const [clipDraft, setClipDraft] = useState<TimeRange | null>(null);
+  const [showAnalytics, setShowAnalytics] = useState(false);
+  const [redactions, setRedactions] = useState<PiiRedaction[]>([]);
+  const [redactionKinds, setRedactionKinds] = useState<PiiKind[]>(PII_KINDS);
+  const [showRedactions, setShowRedactions] = useState(false);
+  const [detectingPii, setDetectingPii] = useState(false);
+  const [redactionError, setRedactionError] = useState('');
   const mediaRef = useRef<HTMLVideoElement & HTMLAudioElement>(null);
 
   const fetchData = useCallback(async () => {
     if (!id) return;
-    const [meetingRes, segmentsRes] = await Promise.all([
-      supabase.from('meetings').select('*').eq('id', id).single(),
+    const { data: meetingData } = await supabase.from('meetings').select('*').eq('id', id).single();
+    const revisionId = meetingData?.active_revision_id;
+    const [
+      segmentsRes, revisionsRes, participantsRes, linksRes, bookmarksRes, clipsRes, redactionsRes,
+    ] = await Promise.all([
+      revisionId
+        ? fetchAllRows((from, to) => supabase
+          .from('transcript_segments')
+          .select(SEGMENT_COLUMNS)
+          .eq('revision_id', revisionId)
+          .order('start_ms', { ascending: true })
+          .order('id')
+          .range(from, to))
+        : Promise.resolve({ data: [] }),
       supabase
-        .from('transcript_segments')
+        .from('transcript_revisions')
+        .select('*, transcription_jobs(provider)')
+        .eq('meeting_id', id)
+        .order('revision', { ascending: false }),
+      supabase.from('participants').select('*').order('name'),
+      revisionId
+        ? supabase.from('meeting_speakers').select('*').eq('revision_id', revisionId)
+        : Promise.resolve({ data: [] }),
+      supabase
+        .from('meeting_bookmarks')
         .select('*')
         .eq('meeting_id', id)
         .order('start_ms', { ascending: true }),
+      supabase
+        .from('meeting_clips')
+        .select('*')
+        .eq('meeting_id', id)
+        .order('start_ms', { ascending: true }),
+      supabase.from('pii_redactions').select('*').eq('meeting_id', id),
     ]);
-    setMeeting(meetingRes.data);
+    setMeeting(meetingData);
     setSegments(segmentsRes.data ?? []);
+    setUndoStack([]);
+    setRevisions(revisionsRes.data ?? []);
+    setParticipants(participantsRes.data ?? []);
+    setSpeakerLinks(linksRes.data ?? []);
+    setBookmarks(bookmarksRes.data ?? []);
+    setClips(clipsRes.data ?? []);
+    setRedactions(redactionsRes.data ?? []);
     setLoading(false);
   }, [id]);
 
@@ -34,6 +166,26 @@ export default function MeetingPage() {
     fetchData();
   }, [fetchData]);
 
+  // Long recordings are transcribed in chunks; show how far each one got
+  const fetchChunkProgress = useCallback(async () => {
+    if (!id) return;
+    const { data: parent } = await supabase
+      .from('transcription_jobs')
+      .select('id')
+      .eq('meeting_id', id)
+      .is('parent_job_id', null)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (!parent) return;
+    const { data } = await supabase
+      .from('transcription_jobs')
+      .select('id, chunk_index, chunk_start_ms, chunk_end_ms, status')
+      .eq('parent_job_id', parent.id)
+      .order('chunk_index', { ascending: true });
+    setChunkJobs(data ?? []);
+  }, [id]);
+
   // Poll while transcribing
   useEffect(() => {
     if (meeting?.status !== 'transcribing') return;
@@ -45,40 +197,471 @@ export default function MeetingPage() {
         .single();
       if (data?.status === 'ready' || data?.status === 'failed') {
         fetchData();
+      } else {
+        fetchChunkProgress();
       }
     }, 5000);
     return () => clearInterval(interval);
-  }, [meeting?.status, id, fetchData]);
+  }, [meeting?.status, id, fetchData, fetchChunkProgress]);
 
-  const handleSeek = (startMs: number) => {
+  useEffect(() => {
+    supabase
+      .from('app_settings')
+      .select('review_confidence_threshold, redaction_detectors')
+      .eq('id', 1)
+      .single()
+      .then(({ data }) => {
+        if (!data) return;
+        setConfidenceThreshold(data.review_confidence_threshold);
+        setRedactionKinds(data.redaction_detectors);
+      });
+  }, []);
+
+  const handleSeek = useCallback((startMs: number) => {
     if (mediaRef.current) {
       mediaRef.current.currentTime = startMs / 1000;
       mediaRef.current.play();
     }
-  };
+  }, []);
 
-  const handleRenameSpeaker = async (oldSpeakerId: string) => {
-    if (!newSpeakerLabel.trim() || !id) return;
+  // --- Review mode: step through low-confidence words ---
+
+  const uncertainWords = useMemo(
+    () => findUncertainWords(segments, confidenceThreshold),
+    [segments, confidenceThreshold],
+  );
+  const uncertainTotal = useMemo(
+    () => segments.reduce(
+      (n, s) => n + (s.meta?.words?.filter((w) => isUncertain(w, confidenceThreshold)).length ?? 0),
+      0,
+    ),
+    [segments, confidenceThreshold],
+  );
+  const reviewPosition = Math.min(reviewCursor, Math.max(uncertainWords.length - 1, 0));
+  const reviewItem = reviewMode ? uncertainWords[reviewPosition] ?? null : null;
+  const reviewSegment = reviewItem ? segments.find((s) => s.id === reviewItem.segmentId) ?? null : null;
+
+  /** Plays a second either side of the word under review, then pauses */
+  const playReviewWindow = useCallback(() => {
+    const media = mediaRef.current;
+    const word = reviewSegment?.meta?.words?.[reviewItem?.wordIndex ?? -1];
+    if (!media || !word) return;
+    clearTimeout(reviewStopRef.current);
+    const startMs = Math.max(0, word.start_ms - 1000);
+    media.currentTime = startMs / 1000;
+    media.play();
+    reviewStopRef.current = setTimeout(() => media.pause(), (word.end_ms + 1000 - startMs) / media.playbackRate);
+  }, [reviewSegment, reviewItem]);
+
+  // Items are memoized with the segments, so this runs once per word visited
+  useEffect(() => {
+    if (reviewItem) playReviewWindow();
+  }, [reviewItem, playReviewWindow]);
+
+  useEffect(() => () => clearTimeout(reviewStopRef.current), []);
+
+  const handleResolveWord = useCallback(async (correction?: string) => {
+    if (!reviewItem || !reviewSegment) return;
+    const update = resolveWord(reviewSegment, reviewItem.wordIndex, correction);
+    const { error } = await supabase.from('transcript_segments').update(update).eq('id', reviewSegment.id);
+    if (error) return;
+    setSegments((prev) => prev.map((s) => (s.id === reviewSegment.id ? { ...s, ...update } : s)));
+  }, [reviewItem, reviewSegment]);
+
+  const handleReviewNext = useCallback(() => {
+    setReviewCursor(Math.min(reviewPosition + 1, Math.max(uncertainWords.length - 1, 0)));
+  }, [reviewPosition, uncertainWords.length]);
+
+  const handleReviewPrevious = useCallback(() => {
+    setReviewCursor(Math.max(reviewPosition - 1, 0));
+  }, [reviewPosition]);
+
+  const handleExitReview = useCallback(() => {
+    clearTimeout(reviewStopRef.current);
+    mediaRef.current?.pause();
+    setReviewMode(false);
+  }, []);
+
+  const relabelSpeaker = async (speakerId: string, label: string) => {
+    if (!meeting?.active_revision_id) return;
     await supabase
       .from('transcript_segments')
-      .update({ speaker_label: newSpeakerLabel.trim() })
-      .eq('meeting_id', id)
-      .eq('speaker_id', oldSpeakerId);
+      .update({ speaker_label: label })
+      .eq('revision_id', meeting.active_revision_id)
+      .eq('speaker_id', speakerId);
     setSegments((prev) =>
       prev.map((s) =>
-        s.speaker_id === oldSpeakerId ? { ...s, speaker_label: newSpeakerLabel.trim() } : s
+        s.speaker_id === speakerId ? { ...s, speaker_label: label } : s
       )
     );
+  };
+
+  const handleRenameSpeaker = async (oldSpeakerId: string) => {
+    if (!newSpeakerLabel.trim()) return;
+    await relabelSpeaker(oldSpeakerId, newSpeakerLabel.trim());
     setEditingSpeaker(null);
     setNewSpeakerLabel('');
   };
 
+  /** Links a speaker to a directory entry, which also names them; '' unlinks */
+  const handleLinkParticipant = async (speakerId: string, participantId: string) => {
+    if (!id || !meeting?.active_revision_id) return;
+    if (!participantId) {
+      await supabase
+        .from('meeting_speakers')
+        .delete()
+        .eq('revision_id', meeting.active_revision_id)
+        .eq('speaker_id', speakerId);
+      setSpeakerLinks((prev) => prev.filter((l) => l.speaker_id !== speakerId));
+      return;
+    }
+    const participant = participants.find((p) => p.id === participantId);
+    if (!participant) return;
+    const { data: link, error } = await supabase
+      .from('meeting_speakers')
+      .upsert(
+        { meeting_id: id, revision_id: meeting.active_revision_id, speaker_id: speakerId, participant_id: participantId },
+        { onConflict: 'revision_id,speaker_id' },
+      )
+      .select()
+      .single();
+    if (error || !link) return;
+    setSpeakerLinks((prev) => [...prev.filter((l) => l.speaker_id !== speakerId), link]);
+    await relabelSpeaker(speakerId, participant.name);
+  };
+
+  const handleSuggestSpeakers = async () => {
+    if (!id) return;
+    setSuggestingSpeakers(true);
+    setSuggestError('');
+    try {
+      const { suggestions } = await suggestSpeakers({ meetingId: id });
+      setSpeakerSuggestions(suggestions);
+    } catch (err) {
+      setSuggestError(err instanceof Error ? err.message : 'Could not suggest speaker names');
+    }
+    setSuggestingSpeakers(false);
+  };
+
+  /** Names the speaker, linking them when the name matches someone in the directory */
+  const handleAcceptSuggestion = async (suggestion: SpeakerSuggestion) => {
+    const known = participants.find((p) => p.name.trim().toLowerCase() === suggestion.name.toLowerCase());
+    if (known) {
+      await handleLinkParticipant(suggestion.speaker_id, known.id);
+    } else {
+      await relabelSpeaker(suggestion.speaker_id, suggestion.name);
+    }
+    setSpeakerSuggestions((prev) => prev?.filter((s) => s.speaker_id !== suggestion.speaker_id) ?? null);
+  };
+
+  /** Moves every segment of one speaker to another, e.g. when diarization split a person in two */
+  const handleMergeSpeakers = async (fromId: string, intoId: string) => {
+    if (!meeting?.active_revision_id) return;
+    const moved = segments.filter((s) => s.speaker_id === fromId);
+    const label = segments.find((s) => s.speaker_id === intoId)?.speaker_label;
+    if (moved.length === 0 || !label) return;
+    const { data: updated, error } = await supabase
+      .from('transcript_segments')
+      .upsert(moved.map((s) => ({ ...s, ...reassignSpeaker(s, intoId, label) })))
+      .select(SEGMENT_COLUMNS);
+    if (error || !updated) return;
+    await supabase
+      .from('meeting_speakers')
+      .delete()
+      .eq('revision_id', meeting.active_revision_id)
+      .eq('speaker_id', fromId);
+    const byId = new Map(updated.map((s) => [s.id, s]));
+    setSegments((prev) => prev.map((s) => byId.get(s.id) ?? s));
+    setSpeakerLinks((prev) => prev.filter((l) => l.speaker_id !== fromId));
+    setUndoStack((prev) => [...prev, { label: 'speaker merge', restore: moved, remove: [] }]);
+  };
+
+  const handleSaveSegmentText = async (segment: TranscriptSegment, text: string) => {
+    const trimmed = text.trim();
+    if (!trimmed || trimmed === segment.text) {
+      setEditingSegment(null);
+      return;
+    }
+    // The history row and edited_at are written by a trigger
+    const { data, error } = await supabase
+      .from('transcript_segments')
+      .update(editSegmentText(segment, trimmed))
+      .eq('id', segment.id)
+      .select(SEGMENT_COLUMNS)
+      .single();
+    if (error || !data) return;
+    setSegments((prev) => prev.map((s) => (s.id === segment.id ? data : s)));
+    setEditingSegment(null);
+  };
+
+  // --- Structural edits: split, merge, reassign; each pushes an undo entry ---
+
+  const handleSplitSegment = async (segment: TranscriptSegment, offset: number) => {
+    const [patch, newRow] = splitSegment(segment, offset);
+    if (!patch.text || !newRow.text) return;
+    const { data: inserted, error } = await supabase
+      .from('transcript_segments')
+      .insert(newRow)
+      .select(SEGMENT_COLUMNS)
+      .single();
+    if (error || !inserted) return;
+    const { data: updated } = await supabase
+      .from('transcript_segments')
+      .update(patch)
+      .eq('id', segment.id)
+      .select(SEGMENT_COLUMNS)
+      .single();
+    if (!updated) {
+      await supabase.from('transcript_segments').delete().eq('id', inserted.id);
+      return;
+    }
+    setSegments((prev) => [...prev.map((s) => (s.id === segment.id ? updated : s)), inserted].sort(byStart));
+    setUndoStack((prev) => [...prev, { label: 'split', restore: [segment], remove: [inserted.id] }]);
+    setSplittingSegment(null);
+  };
+
+  const handleMergeSegment = async (segment: TranscriptSegment) => {
+    const next = segments.slice(segments.indexOf(segment) + 1).find((s) => s.kind === 'speech');
+    if (!next) return;
+    const { data: updated } = await supabase
+      .from('transcript_segments')
+      .update(mergeSegments(segment, next))
+      .eq('id', segment.id)
+      .select(SEGMENT_COLUMNS)
+      .single();
+    if (!updated) return;
+    const { error } = await supabase.from('transcript_segments').delete().eq('id', next.id);
+    if (error) {
+      // Otherwise the text of `next` would be stored twice
+      await supabase
+        .from('transcript_segments')
+        .update({ text: segment.text, start_ms: segment.start_ms, end_ms: segment.end_ms, meta: segment.meta })
+        .eq('id', segment.id);
+      return;
+    }
+    setSegments((prev) => prev.filter((s) => s.id !== next.id).map((s) => (s.id === segment.id ? updated : s)));
+    setUndoStack((prev) => [...prev, { label: 'merge', restore: [segment, next], remove: [] }]);
+  };
+
+  const handleReassignSpeaker = async (segment: TranscriptSegment, speakerId: string) => {
+    const targetId = speakerId === NEW_SPEAKER ? nextSpeakerId(segments) : speakerId;
+    const label = segments.find((s) => s.speaker_id === targetId)?.speaker_label
+      ?? `Speaker ${targetId.replace('speaker_', '')}`;
+    const update = reassignSpeaker(segment, targetId, label);
+    const { error } = await supabase.from('transcript_segments').update(update).eq('id', segment.id);
+    if (error) return;
+    setSegments((prev) => prev.map((s) => (s.id === segment.id ? { ...s, ...update } : s)));
+    setUndoStack((prev) => [...prev, { label: 'speaker change', restore: [segment], remove: [] }]);
+  };
+
+  const handleUndo = useCallback(async () => {
+    const entry = undoStack[undoStack.length - 1];
+    if (!entry) return;
+    if (entry.remove.length > 0) {
+      const { error } = await supabase.from('transcript_segments').delete().in('id', entry.remove);
+      if (error) return;
+    }
+    const { data: restored, error } = await supabase
+      .from('transcript_segments')
+      .upsert(entry.restore)
+      .select(SEGMENT_COLUMNS);
+    if (error || !restored) return;
+    const replaced = new Set([...entry.remove, ...entry.restore.map((s) => s.id)]);
+    setSegments((prev) => [...prev.filter((s) => !replaced.has(s.id)), ...restored].sort(byStart));
+    setUndoStack((prev) => prev.slice(0, -1));
+  }, [undoStack]);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      if (e.key === 'z' && (e.metaKey || e.ctrlKey) && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [handleUndo]);
+
+  const handleCancelSplit = useCallback(() => setSplittingSegment(null), []);
+
+  const updateParams = useCallback((changes: Record<string, string | null>) => {
+    setSearchParams((prev) => {
+      const next = new URLSearchParams(prev);
+      for (const [key, value] of Object.entries(changes)) {
+        if (value) next.set(key, value); else next.delete(key);
+      }
+      return next;
+    }, { replace: true });
+  }, [setSearchParams]);
+
+  const handleSearchChange = useCallback((changes: Record<string, string | null>) => {
+    setMatchCursor(0);
+    updateParams(changes);
+  }, [updateParams]);
+
   const handleRetryTranscription = async () => {
     if (!id) return;
-    await startTranscription({ meetingId: id });
+    setTranscriptionError('');
+    try {
+      await startTranscription({ meetingId: id });
+    } catch (err) {
+      setTranscriptionError(err instanceof Error ? err.message : 'Could not start transcription');
+    } finally {
+      fetchData();
+    }
+  };
+
+  const handleSwitchRevision = async (revisionId: string) => {
+    if (!id || revisionId === meeting?.active_revision_id) return;
+    await supabase.from('meetings').update({ active_revision_id: revisionId }).eq('id', id);
+    updateParams({ q: null });
+    setSpeakerSuggestions(null);
     fetchData();
   };
 
+  // --- Bookmarks and highlights ---
+
+  const addBookmark = async (mark: Pick<MeetingBookmark, 'kind' | 'start_ms' | 'end_ms'>) => {
+    if (!id) return;
+    const { data, error } = await supabase
+      .from('meeting_bookmarks')
+      .insert({ meeting_id: id, ...mark })
+      .select()
+      .single();
+    if (error || !data) return;
+    setBookmarks((prev) => [...prev, data].sort((a, b) => a.start_ms - b.start_ms));
+    setNewBookmarkId(data.id);
+  };
+
+  const handleAddBookmark = () => {
+    const media = mediaRef.current;
+    if (!media) return;
+    addBookmark({ kind: 'bookmark', start_ms: Math.round(media.currentTime * 1000), end_ms: null });
+  };
+
+  /** The first click marks where the span starts, the second where it ends */
+  const handleHighlight = (segment: TranscriptSegment) => {
+    const anchor = segments.find((s) => s.id === highlightAnchor);
+    if (!anchor) {
+      setHighlightAnchor(segment.id);
+      return;
+    }
+    setHighlightAnchor(null);
+    addBookmark({
+      kind: 'highlight',
+      start_ms: Math.min(anchor.start_ms, segment.start_ms),
+      end_ms: Math.max(anchor.end_ms, segment.end_ms),
+    });
+  };
+
+  useEffect(() => {
+    if (!highlightAnchor) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setHighlightAnchor(null);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [highlightAnchor]);
+
+  const handleUpdateBookmarkNote = async (bookmarkId: string, note: string) => {
+    const { error } = await supabase.from('meeting_bookmarks').update({ note }).eq('id', bookmarkId);
+    if (error) return;
+    // Saving remounts the note field; don't pull focus back into it
+    setNewBookmarkId(null);
+    setBookmarks((prev) => prev.map((b) => (b.id === bookmarkId ? { ...b, note } : b)));
+  };
+
+  const handleDeleteBookmark = async (bookmarkId: string) => {
+    const { error } = await supabase.from('meeting_bookmarks').delete().eq('id', bookmarkId);
+    if (error) return;
+    setBookmarks((prev) => prev.filter((b) => b.id !== bookmarkId));
+  };
+
+  // --- Clips ---
+
+  /** Picking segments grows the draft range to cover each one */
+  const handleAddToClip = (segment: TranscriptSegment) => {
+    setClipDraft((prev) => (prev
+      ? { start_ms: Math.min(prev.start_ms, segment.start_ms), end_ms: Math.max(prev.end_ms, segment.end_ms) }
+      : { start_ms: segment.start_ms, end_ms: segment.end_ms }));
+  };
+
+  const handleCreateClip = async (title: string, range: TimeRange) => {
+    if (!meeting) return;
+    const { data, error } = await supabase
+      .from('meeting_clips')
+      .insert({
+        meeting_id: meeting.id,
+        title,
+        ...range,
+        media_path: meeting.media_path,
+        excerpt: excerptSegments(segments, range.start_ms, range.end_ms),
+      })
+      .select()
+      .single();
+    if (error || !data) return;
+    setClips((prev) => [...prev, data].sort((a, b) => a.start_ms - b.start_ms));
+    setClipDraft(null);
+  };
+
+  const handleExportClip = (clip: MeetingClip) => {
+    if (!meeting) return;
+    const file = exportClipBundle(
+      { title: clip.title, start_ms: clip.start_ms, end_ms: clip.end_ms, segments: clip.excerpt },
+      meeting.title || meeting.source_filename,
+    );
+    download(file.content, exportFileName(clip.title, file.extension), file.mime);
+  };
+
+  // --- Personal data ---
+
+  const handleDetectPii = async () => {
+    if (showRedactions) {
+      setShowRedactions(false);
+      return;
+    }
+    if (!meeting) return;
+    setDetectingPii(true);
+    setRedactionError('');
+    try {
+      const { redactions } = await detectPii({ meetingId: meeting.id });
+      setRedactions(redactions);
+      setShowRedactions(true);
+    } catch (err) {
+      setRedactionError(err instanceof Error ? err.message : 'Could not scan for personal data');
+    }
+    setDetectingPii(false);
+  };
+
+  const handleSetRedactionStatus = async (ids: string[], status: RedactionStatus) => {
+    const { error } = await supabase.from('pii_redactions').update({ status }).in('id', ids);
+    if (error) return;
+    setRedactions((prev) => prev.map((r) => (ids.includes(r.id) ? { ...r, status } : r)));
+  };
+
+  // Marks are stored with offsets into the text as it was when detected
+  const segmentRedactions = useMemo(() => {
+    const marks = marksByTarget(redactions.filter((r) => r.target === 'segment' && r.status !== 'dismissed'));
+    const bySegment = new Map<string, RedactionRange[]>();
+    for (const seg of segments) {
+      const ranges = (marks.get(seg.id) ?? [])
+        .map((mark) => {
+          const span = locateMark(seg.text, mark);
+          return span && { start: span.start, end: span.end, confirmed: mark.status === 'confirmed' };
+        })
+        .filter((range) => range !== null);
+      if (ranges.length) bySegment.set(seg.id, ranges);
+    }
+    return bySegment;
+  }, [redactions, segments]);
+
+  const handleDeleteClip = async (clipId: string) => {
+    const { error } = await supabase.from('meeting_clips').delete().eq('id', clipId);
+    if (error) return;
+    setClips((prev) => prev.filter((c) => c.id !== clipId));
+  };
+
   const formatTime = (ms: number) => {
     const totalSec = Math.floor(ms / 1000);
     const m = Math.floor(totalSec / 60);
@@ -86,20 +669,54 @@ export default function MeetingPage() {
     return `${m}:${String(s).padStart(2, '0')}`;
   };
 
-  const exportTxt = () => {
-    const text = segments
-      .map((s) => `[${formatTime(s.start_ms)}] ${s.speaker_label}: ${s.text}`)
+  // Exports follow the audio event toggle
+  const exportedSegments = useMemo(
+    () => (showAudioEvents ? segments : segments.filter((s) => s.kind !== 'audio_event')),
+    [segments, showAudioEvents],
+  );
+
+  const exportTxt = (exported: TranscriptSegment[]) => {
+    const text = exported
+      .map((s) => s.kind === 'audio_event'
+        ? `[${formatTime(s.start_ms)}] ${formatAudioEvent(s.text)}`
+        : `[${formatTime(s.start_ms)}] ${s.speaker_label}: ${isolateText(s.text, segmentDirection(s))}`)
       .join('\n');
     download(text, `${meeting?.title || 'transcript'}.txt`, 'text/plain');
   };
 
-  const exportJson = () => {
-    const json = JSON.stringify(segments, null, 2);
+  const exportJson = (exported: TranscriptSegment[]) => {
+    const json = JSON.stringify(exported, null, 2);
     download(json, `${meeting?.title || 'transcript'}.json`, 'application/json');
   };
 
-  const download = (content: string, filename: string, mime: string) => {
-    const blob = new Blob([content], { type: mime });
+  const handleExport = async (format: ExportChoice, includeSummary: boolean, redact: boolean) => {
+    const marks = marksByTarget(redactions);
+    const exported = redact ? redactSegments(exportedSegments, marks, redactionKinds) : exportedSegments;
+    if (format === 'txt') return exportTxt(exported);
+    if (format === 'json') return exportJson(exported);
+    if (!meeting) return;
+
+    let summaryMd: string | null = null;
+    if (includeSummary && format !== 'srt' && format !== 'vtt') {
+      const { data } = await supabase
+        .from('summaries')
+        .select('id, content_md')
+        .eq('meeting_id', meeting.id)
+        .eq('is_partial', false)
+        .order('version', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      if (data) {
+        summaryMd = redact ? redactText(data.content_md, marks.get(data.id) ?? [], redactionKinds) : data.content_md;
+      }
+    }
+    const title = meeting.title || meeting.source_filename;
+    const file = await exportTranscript(format, { title, date: meeting.created_at, segments: exported, summaryMd });
+    download(file.content, exportFileName(title, file.extension), file.mime);
+  };
+
+  const download = (content: string | Uint8Array, filename: string, mime: string) => {
+    const blob = new Blob([content as BlobPart], { type: mime });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
@@ -108,11 +725,65 @@ export default function MeetingPage() {
     URL.revokeObjectURL(url);
   };
 
-  const filteredSegments = searchText.trim()
-    ? segments.filter((s) => s.text.toLowerCase().includes(searchText.toLowerCase()))
-    : segments;
+  const audioEventCount = segments.filter((s) => s.kind === 'audio_event').length;
 
-  const uniqueSpeakers = [...new Map(segments.map((s) => [s.speaker_id, s.speaker_label])).entries()];
+  // Speaker and time filters hide segments; search only highlights
+  const speakerFilter = useMemo(() => speakerFilterParam?.split(',').filter(Boolean) ?? [], [speakerFilterParam]);
+  const filteredSegments = useMemo(() => {
+    const fromMs = parseTimestamp(fromParam);
+    const toMs = parseTimestamp(toParam);
+    return exportedSegments.filter((s) =>
+      (speakerFilter.length === 0 || (s.kind === 'speech' && speakerFilter.includes(s.speaker_id)))
+      && (fromMs === null || s.end_ms > fromMs)
+      && (toMs === null || s.start_ms < toMs)
+    );
+  }, [exportedSegments, speakerFilter, fromParam, toParam]);
+  const filtersActive = speakerFilter.length > 0 || parseTimestamp(fromParam) !== null || parseTimestamp(toParam) !== null;
+
+  const toggleSpeakerFilter = (speakerId: string) => {
+    const next = speakerFilter.includes(speakerId)
+      ? speakerFilter.filter((s) => s !== speakerId)
+      : [...speakerFilter, speakerId];
+    handleSearchChange({ speakers: next.join(',') || null });
+  };
+
+  const { pattern: searchPattern, error: searchError } = useMemo(
+    () => buildSearchPattern(searchText, { regex: regexSearch, wholeWord: wholeWordSearch }),
+    [searchText, regexSearch, wholeWordSearch],
+  );
+  const searchMatches = useMemo(() => {
+    const bySegment = new Map<string, TextRange[]>();
+    const all: { segmentId: string; index: number }[] = [];
+    if (!searchPattern) return { bySegment, all };
+    for (const seg of filteredSegments) {
+      if (seg.kind !== 'speech') continue;
+      const ranges = findMatches(seg.text, searchPattern);
+      if (ranges.length === 0) continue;
+      bySegment.set(seg.id, ranges);
+      ranges.forEach((_, index) => all.push({ segmentId: seg.id, index }));
+    }
+    return { bySegment, all };
+  }, [filteredSegments, searchPattern]);
+  const matchPosition = Math.min(matchCursor, Math.max(searchMatches.all.length - 1, 0));
+  const currentMatch = searchMatches.all[matchPosition] ?? null;
+
+  const handleNextMatch = () => {
+    if (searchMatches.all.length) setMatchCursor((matchPosition + 1) % searchMatches.all.length);
+  };
+  const handlePreviousMatch = () => {
+    const count = searchMatches.all.length;
+    if (count) setMatchCursor((matchPosition - 1 + count) % count);
+  };
+
+  useEffect(() => {
+    document.querySelector('.search-match-current')?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  }, [currentMatch]);
+
+  const uniqueSpeakers = [
+    ...new Map(segments.filter((s) => s.kind === 'speech').map((s) => [s.speaker_id, s.speaker_label])).entries(),
+  ];
+  const talkTime = speakerTalkTime(segments);
+  const totalTalkTime = [...talkTime.values()].reduce((a, b) => a + b, 0);
 
   const [mediaUrl, setMediaUrl] = useState<string | null>(null);
   useEffect(() => {
@@ -125,6 +796,72 @@ export default function MeetingPage() {
       });
   }, [meeting?.media_path]);
 
+  const [peaks, setPeaks] = useState<WaveformPeaks | null>(null);
+  const [peaksFailed, setPeaksFailed] = useState(false);
+  useEffect(() => {
+    if (!mediaUrl || !meeting?.media_path) return;
+    let cancelled = false;
+    loadPeaks(meeting.media_path, mediaUrl).then(
+      (result) => { if (!cancelled) setPeaks(result); },
+      () => { if (!cancelled) setPeaksFailed(true); },
+    );
+    return () => { cancelled = true; };
+  }, [mediaUrl, meeting?.media_path]);
+
+  // Length of the timeline views: the decoded media when known, else the transcript
+  const timelineMs = Math.max(
+    peaks?.duration_ms ?? (meeting?.duration_seconds ?? 0) * 1000,
+    segments[segments.length - 1]?.end_ms ?? 0,
+  );
+  const searchHitTimes = filteredSegments.filter((s) => searchMatches.bySegment.has(s.id)).map((s) => s.start_ms);
+
+  // Segments under the playhead, as a key so the page re-renders only when
+  // playback moves into another segment (overlapping speakers can share one)
+  const activeSegmentKey = usePlaybackValue(playback, (ms) =>
+    ms === null ? '' : filteredSegments.filter((s) => ms >= s.start_ms && ms < s.end_ms).map((s) => s.id).join(','));
+  const activeSegmentIds = new Set(activeSegmentKey.split(','));
+
+  // Track playback position every frame while playing, for word highlighting
+  useEffect(() => {
+    const media = mediaRef.current;
+    if (!media) return;
+    let frame = 0;
+    const tick = () => {
+      playback.set(Math.round(media.currentTime * 1000));
+      if (!media.paused) frame = requestAnimationFrame(tick);
+    };
+    const onPlay = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(tick);
+    };
+    media.addEventListener('play', onPlay);
+    media.addEventListener('seeked', tick);
+    return () => {
+      cancelAnimationFrame(frame);
+      media.removeEventListener('play', onPlay);
+      media.removeEventListener('seeked', tick);
+    };
+  }, [mediaUrl, playback]);
+
+  // Start the player at the linked moment and bring its segment into view
+  useEffect(() => {
+    const media = mediaRef.current;
+    if (linkedMs === null || !media) return;
+    const seek = () => { media.currentTime = linkedMs / 1000; };
+    if (media.readyState >= 1) {
+      seek();
+      return;
+    }
+    media.addEventListener('loadedmetadata', seek, { once: true });
+    return () => media.removeEventListener('loadedmetadata', seek);
+  }, [mediaUrl, linkedMs]);
+
+  useEffect(() => {
+    if (linkedMs !== null && !loading) {
+      document.querySelector('.segment-linked')?.scrollIntoView({ block: 'center' });
+    }
+  }, [linkedMs, loading]);
+
   if (loading) {
     return <div className="loading-indicator"><Loader2 className="spin" size={24} /> Loading meeting...</div>;
   }
@@ -154,16 +891,28 @@ export default function MeetingPage() {
       {/* Media Player */}
       {mediaUrl && (
         <div className="media-player">
-          {meeting.media_mime.startsWith('video/') ? (
+          {meeting.media_mime?.startsWith('video/') ? (
             <video ref={mediaRef} src={mediaUrl} controls className="media-element" />
           ) : (
             <div className="audio-player-wrapper">
               <audio ref={mediaRef} src={mediaUrl} controls className="audio-element" />
             </div>
           )}
+          <Waveform
+            peaks={peaks}
+            peaksFailed={peaksFailed}
+            durationMs={timelineMs}
+            playback={playback}
+            segments={segments}
+            bookmarks={bookmarks}
+            searchHits={searchHitTimes}
+            onSeek={handleSeek}
+          />
         </div>
       )}
 
+      {transcriptionError && <div className="error-msg">{transcriptionError}</div>}
+
       {/* Status states */}
       {meeting.status === 'uploaded' && (
         <div className="status-card">
@@ -173,102 +922,453 @@ export default function MeetingPage() {
       )}
 
       {meeting.status === 'transcribing' && (
-        <div className="status-card status-transcribing">
-          <Loader2 className="spin" size={24} />
-          <p>Transcription in progress... This may take a few minutes.</p>
-        </div>
+        <>
+          <div className="status-card status-transcribing">
+            <Loader2 className="spin" size={24} />
+            <p>Transcription in progress... This may take a few minutes.</p>
+          </div>
+          {chunkJobs.length > 0 && (
+            <div className="chunk-progress">
+              <h3>
+                Long recording: {chunkJobs.filter((c) => c.status === 'completed').length} of {chunkJobs.length} parts done
+              </h3>
+              <ul>
+                {chunkJobs.map((chunk) => (
+                  <li key={chunk.id}>
+                    <span>
+                      Part {(chunk.chunk_index ?? 0) + 1}
+                      <span className="segment-time">
+                        {' '}{formatTime(chunk.chunk_start_ms ?? 0)} - {formatTime(chunk.chunk_end_ms ?? 0)}
+                      </span>
+                    </span>
+                    <span className={CHUNK_STATUS_BADGES[chunk.status]}>{chunk.status}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </>
       )}
 
       {meeting.status === 'failed' && (
         <div className="status-card status-failed">
-          <p>Transcription failed.</p>
-          <button onClick={handleRetryTranscription} className="btn btn-primary">
-            <RotateCcw size={18} /> Retry
-          </button>
+          <p>{meeting.media_path ? 'Transcription failed.' : 'Importing the transcript failed.'}</p>
+          {meeting.media_path && (
+            <button onClick={handleRetryTranscription} className="btn btn-primary">
+              <RotateCcw size={18} /> Retry
+            </button>
+          )}
         </div>
       )}
 
       {/* Transcript */}
       {meeting.status === 'ready' && segments.length > 0 && (
-        <div className="transcript-section">
-          <div className="transcript-toolbar">
-            <div className="search-input">
-              <Search size={18} />
-              <input
-                type="text"
-                placeholder="Search transcript..."
-                value={searchText}
-                onChange={(e) => setSearchText(e.target.value)}
+        <div className="meeting-workspace">
+          <div className="transcript-section">
+            <div className="transcript-toolbar">
+              <TranscriptSearch
+                query={searchText}
+                regex={regexSearch}
+                wholeWord={wholeWordSearch}
+                from={fromParam}
+                to={toParam}
+                error={searchError}
+                matchCount={searchMatches.all.length}
+                position={matchPosition}
+                onChange={handleSearchChange}
+                onNext={handleNextMatch}
+                onPrevious={handlePreviousMatch}
               />
+              <div className="export-buttons">
+                {revisions.length > 1 && (
+                  <select
+                    className="revision-select"
+                    value={meeting.active_revision_id ?? ''}
+                    onChange={(e) => handleSwitchRevision(e.target.value)}
+                    title="Transcript revision"
+                  >
+                    {revisions.map((r) => (
+                      <option key={r.id} value={r.id}>
+                        Revision {r.revision} · {new Date(r.created_at).toLocaleString()}
+                        {r.transcription_jobs ? ` (${r.transcription_jobs.provider})` : ''}
+                      </option>
+                    ))}
+                  </select>
+                )}
+                {uncertainTotal > 0 && !reviewMode && (
+                  <button
+                    onClick={() => { setReviewCursor(0); setReviewMode(true); }}
+                    className="btn btn-ghost btn-sm"
+                    title="Step through low-confidence words"
+                  >
+                    <ListChecks size={16} /> Review ({uncertainWords.length})
+                  </button>
+                )}
+                {undoStack.length > 0 && (
+                  <button
+                    onClick={handleUndo}
+                    className="btn btn-ghost btn-sm"
+                    title={`Undo ${undoStack[undoStack.length - 1].label} (Ctrl+Z)`}
+                  >
+                    <Undo2 size={16} /> Undo
+                  </button>
+                )}
+                {audioEventCount > 0 && (
+                  <button
+                    onClick={() => setShowAudioEvents((v) => !v)}
+                    className={`btn btn-sm ${showAudioEvents ? 'btn-outline' : 'btn-ghost'}`}
+                    title={showAudioEvents ? 'Hide audio events' : 'Show audio events'}
+                  >
+                    <Music size={16} /> Events ({audioEventCount})
+                  </button>
+                )}
+                {meeting.media_path && (
+                  <button onClick={handleRetryTranscription} className="btn btn-ghost btn-sm" title="Transcribe again as a new revision">
+                    <RotateCcw size={16} /> Re-transcribe
+                  </button>
+                )}
+                <button
+                  onClick={() => setShowAnalytics((v) => !v)}
+                  className={`btn btn-sm ${showAnalytics ? 'btn-outline' : 'btn-ghost'}`}
+                  title="Talk time, turn-taking and pace per speaker"
+                >
+                  <BarChart3 size={16} /> Analytics
+                </button>
+                <button
+                  onClick={handleDetectPii}
+                  disabled={detectingPii}
+                  className={`btn btn-sm ${showRedactions ? 'btn-outline' : 'btn-ghost'}`}
+                  title="Find phone numbers, email addresses and ID numbers to redact"
+                >
+                  {detectingPii ? <Loader2 className="spin" size={16} /> : <ShieldAlert size={16} />} Personal data
+                </button>
+                {mediaUrl && (
+                  <button onClick={handleAddBookmark} className="btn btn-ghost btn-sm" title="Bookmark the current playback time">
+                    <BookmarkPlus size={16} /> Bookmark
+                  </button>
+                )}
+                <ExportMenu onExport={handleExport} />
+              </div>
             </div>
-            <div className="export-buttons">
-              <button onClick={exportTxt} className="btn btn-ghost btn-sm">
-                <Download size={16} /> TXT
-              </button>
-              <button onClick={exportJson} className="btn btn-ghost btn-sm">
-                <Download size={16} /> JSON
-              </button>
+
+            <ClipTimeline
+              durationMs={timelineMs}
+              playback={playback}
+              clips={clips}
+              selection={clipDraft}
+              onSelect={setClipDraft}
+              onSeek={handleSeek}
+            />
+
+            {reviewMode && (
+              <ReviewBar
+                key={reviewItem ? `${reviewItem.segmentId}:${reviewItem.wordIndex}` : 'done'}
+                item={reviewItem}
+                segment={reviewSegment}
+                position={reviewPosition}
+                remaining={uncertainWords.length}
+                total={uncertainTotal}
+                onPrevious={handleReviewPrevious}
+                onNext={handleReviewNext}
+                onReplay={playReviewWindow}
+                onResolve={handleResolveWord}
+                onExit={handleExitReview}
+              />
+            )}
+
+            {/* Speaker labels */}
+            <div className="speaker-labels">
+              <div className="section-header">
+                <h3>Speakers</h3>
+                <button
+                  onClick={handleSuggestSpeakers}
+                  disabled={suggestingSpeakers}
+                  className="btn btn-ghost btn-xs"
+                  title="Propose names from introductions in the transcript"
+                >
+                  {suggestingSpeakers ? <Loader2 className="spin" size={14} /> : <Wand2 size={14} />} Suggest names
+                </button>
+              </div>
+              {suggestError && <p className="error-msg">{suggestError}</p>}
+              {speakerSuggestions?.length === 0 && <p className="hint">No names found in the transcript.</p>}
+              {speakerSuggestions && speakerSuggestions.length > 0 && (
+                <SpeakerSuggestions
+                  suggestions={speakerSuggestions}
+                  labels={new Map(uniqueSpeakers)}
+                  onAccept={handleAcceptSuggestion}
+                  onDismiss={(s) => setSpeakerSuggestions((prev) => prev?.filter((p) => p !== s) ?? null)}
+                />
+              )}
+              {participants.length === 0 && (
+                <p className="hint">
+                  Add people to your <Link to="/participants">participant directory</Link> to link them to speakers.
+                </p>
+              )}
+              <div className="speaker-list">
+                {uniqueSpeakers.map(([speakerId, label]) => (
+                  <div key={speakerId} className="speaker-chip">
+                    {editingSpeaker === speakerId ? (
+                      <div className="speaker-edit">
+                        <input
+                          type="text"
+                          value={newSpeakerLabel}
+                          onChange={(e) => setNewSpeakerLabel(e.target.value)}
+                          onKeyDown={(e) => e.key === 'Enter' && handleRenameSpeaker(speakerId)}
+                          autoFocus
+                        />
+                        <button onClick={() => handleRenameSpeaker(speakerId)} className="btn btn-ghost btn-xs">
+                          <Check size={14} />
+                        </button>
+                        <button onClick={() => setEditingSpeaker(null)} className="btn btn-ghost btn-xs">
+                          <X size={14} />
+                        </button>
+                      </div>
+                    ) : (
+                      <>
+                        <button
+                          onClick={() => toggleSpeakerFilter(speakerId)}
+                          className={`speaker-filter ${speakerFilter.includes(speakerId) ? 'active' : ''}`}
+                          title="Show only this speaker (click others to add them)"
+                        >
+                          {label}
+                        </button>
+                        <span className="segment-time" title={`Talk time ${formatTime(talkTime.get(speakerId) ?? 0)}`}>
+                          {totalTalkTime ? Math.round(((talkTime.get(speakerId) ?? 0) / totalTalkTime) * 100) : 0}%
+                        </span>
+                        <button
+                          onClick={() => {
+                            setEditingSpeaker(speakerId);
+                            setNewSpeakerLabel(label);
+                          }}
+                          className="btn btn-ghost btn-xs"
+                          title="Rename speaker"
+                        >
+                          <Pencil size={14} />
+                        </button>
+                        {participants.length > 0 && (
+                          <select
+                            className="speaker-select"
+                            value={speakerLinks.find((l) => l.speaker_id === speakerId)?.participant_id ?? ''}
+                            onChange={(e) => handleLinkParticipant(speakerId, e.target.value)}
+                            title="Link to a known participant"
+                          >
+                            <option value="">Not linked</option>
+                            {participants.map((p) => (
+                              <option key={p.id} value={p.id}>{p.name}{p.role ? ` (${p.role})` : ''}</option>
+                            ))}
+                          </select>
+                        )}
+                        {uniqueSpeakers.length > 1 && (
+                          <select
+                            className="speaker-select"
+                            value=""
+                            onChange={(e) => e.target.value && handleMergeSpeakers(speakerId, e.target.value)}
+                            title="Merge this speaker into another one"
+                          >
+                            <option value="">Merge into...</option>
+                            {uniqueSpeakers.filter(([otherId]) => otherId !== speakerId).map(([otherId, otherLabel]) => (
+                              <option key={otherId} value={otherId}>{otherLabel}</option>
+                            ))}
+                          </select>
+                        )}
+                      </>
+                    )}
+                  </div>
+                ))}
+              </div>
             </div>
-          </div>
 
-          {/* Speaker labels */}
-          <div className="speaker-labels">
-            <h3>Speakers</h3>
-            <div className="speaker-list">
-              {uniqueSpeakers.map(([speakerId, label]) => (
-                <div key={speakerId} className="speaker-chip">
-                  {editingSpeaker === speakerId ? (
-                    <div className="speaker-edit">
-                      <input
-                        type="text"
-                        value={newSpeakerLabel}
-                        onChange={(e) => setNewSpeakerLabel(e.target.value)}
-                        onKeyDown={(e) => e.key === 'Enter' && handleRenameSpeaker(speakerId)}
-                        autoFocus
-                      />
-                      <button onClick={() => handleRenameSpeaker(speakerId)} className="btn btn-ghost btn-xs">
-                        <Check size={14} />
-                      </button>
-                      <button onClick={() => setEditingSpeaker(null)} className="btn btn-ghost btn-xs">
-                        <X size={14} />
-                      </button>
+            {showAnalytics && <MeetingAnalyticsPanel key={meeting.active_revision_id} meetingId={meeting.id} />}
+
+            {redactionError && <p className="error-msg">{redactionError}</p>}
+            {showRedactions && (
+              <RedactionReview
+                redactions={redactions}
+                segments={segments}
+                onSeek={handleSeek}
+                onSetStatus={handleSetRedactionStatus}
+              />
+            )}
+
+            {filtersActive && (
+              <div className="filter-summary">
+                Showing {filteredSegments.length} of {exportedSegments.length} segments
+                <button
+                  onClick={() => handleSearchChange({ speakers: null, from: null, to: null })}
+                  className="btn btn-ghost btn-xs"
+                >
+                  <X size={14} /> Clear filters
+                </button>
+              </div>
+            )}
+
+            {/* Segments */}
+            <div className="transcript-segments">
+              {filteredSegments.map((seg) => {
+                if (seg.kind === 'audio_event') {
+                  return (
+                    <button key={seg.id} className="audio-event" onClick={() => handleSeek(seg.start_ms)}>
+                      <Music size={12} /> {seg.text}
+                      <span className="segment-time">{formatTime(seg.start_ms)}</span>
+                    </button>
+                  );
+                }
+                const isActive = activeSegmentIds.has(seg.id);
+                const isLinked = linkedMs !== null && linkedMs >= seg.start_ms && (linkedMs < seg.end_ms || linkedMs === seg.start_ms);
+                const isHighlighted = bookmarks.some(
+                  (b) => b.kind === 'highlight' && seg.start_ms >= b.start_ms && seg.start_ms < b.end_ms!,
+                );
+                const classes = [
+                  'segment',
+                  isActive && 'segment-active',
+                  isLinked && 'segment-linked',
+                  isHighlighted && 'segment-highlighted',
+                  clipDraft && seg.start_ms < clipDraft.end_ms && seg.end_ms > clipDraft.start_ms && 'segment-in-clip',
+                  highlightAnchor === seg.id && 'segment-highlight-anchor',
+                ];
+                return (
+                  <div
+                    key={seg.id}
+                    className={classes.filter(Boolean).join(' ')}
+                    onClick={() => handleSeek(seg.start_ms)}
+                  >
+                    <div className="segment-header">
+                      <span className="segment-speaker">{seg.speaker_label}</span>
+                      {seg.edited_at && (
+                        <span className="badge badge-blue" title={`Corrected ${new Date(seg.edited_at).toLocaleString()}`}>
+                          Edited
+                        </span>
+                      )}
+                      <span className="segment-time">
+                        {formatTime(seg.start_ms)} - {formatTime(seg.end_ms)}
+                      </span>
+                      <div className="segment-actions" onClick={(e) => e.stopPropagation()}>
+                        <select
+                          className="speaker-select"
+                          value={seg.speaker_id}
+                          onChange={(e) => handleReassignSpeaker(seg, e.target.value)}
+                          title="Move this segment to another speaker"
+                        >
+                          {uniqueSpeakers.map(([speakerId, label]) => (
+                            <option key={speakerId} value={speakerId}>{label}</option>
+                          ))}
+                          <option value={NEW_SPEAKER}>New speaker</option>
+                        </select>
+                        <button
+                          onClick={() => { setEditingSegment(seg.id); setDraftText(seg.text); }}
+                          className="btn btn-ghost btn-xs"
+                          title="Edit text"
+                        >
+                          <Pencil size={14} />
+                        </button>
+                        <button
+                          onClick={() => setHistorySegment(historySegment === seg.id ? null : seg.id)}
+                          className="btn btn-ghost btn-xs"
+                          title="Edit history"
+                        >
+                          <History size={14} />
+                        </button>
+                        <button
+                          onClick={() => setSplittingSegment(splittingSegment === seg.id ? null : seg.id)}
+                          className="btn btn-ghost btn-xs"
+                          title="Split segment"
+                        >
+                          <Scissors size={14} />
+                        </button>
+                        <button
+                          onClick={() => handleMergeSegment(seg)}
+                          className="btn btn-ghost btn-xs"
+                          title="Merge with the next segment"
+                        >
+                          <Merge size={14} />
+                        </button>
+                        <button
+                          onClick={() => handleHighlight(seg)}
+                          className={`btn btn-xs ${highlightAnchor === seg.id ? 'btn-outline' : 'btn-ghost'}`}
+                          title={highlightAnchor
+                            ? 'End the highlight at this segment (Esc to cancel)'
+                            : 'Highlight from this segment; click another segment to end the span'}
+                        >
+                          <Highlighter size={14} />
+                        </button>
+                        <button
+                          onClick={() => handleAddToClip(seg)}
+                          className="btn btn-ghost btn-xs"
+                          title={clipDraft ? 'Extend the clip to this segment' : 'Start a clip from this segment'}
+                        >
+                          <Film size={14} />
+                        </button>
+                      </div>
                     </div>
-                  ) : (
-                    <>
-                      <span>{label}</span>
-                      <button
-                        onClick={() => {
-                          setEditingSpeaker(speakerId);
-                          setNewSpeakerLabel(label);
-                        }}
-                        className="btn btn-ghost btn-xs"
-                      >
-                        <Pencil size={14} />
-                      </button>
-                    </>
-                  )}
-                </div>
-              ))}
+                    {editingSegment === seg.id ? (
+                      <div className="segment-editor" onClick={(e) => e.stopPropagation()}>
+                        <textarea
+                          value={draftText}
+                          dir="auto"
+                          rows={Math.max(2, Math.ceil(draftText.length / 90))}
+                          autoFocus
+                          onChange={(e) => setDraftText(e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) handleSaveSegmentText(seg, draftText);
+                            if (e.key === 'Escape') setEditingSegment(null);
+                          }}
+                        />
+                        <div className="editor-actions">
+                          <button onClick={() => handleSaveSegmentText(seg, draftText)} className="btn btn-primary btn-xs">
+                            <Check size={14} /> Save
+                          </button>
+                          <button onClick={() => setEditingSegment(null)} className="btn btn-ghost btn-xs">Cancel</button>
+                        </div>
+                      </div>
+                    ) : splittingSegment === seg.id ? (
+                      <SegmentSplitter
+                        segment={seg}
+                        onSplit={(offset) => handleSplitSegment(seg, offset)}
+                        onCancel={handleCancelSplit}
+                      />
+                    ) : (
+                      <SegmentText
+                        segment={seg}
+                        playback={isActive ? playback : null}
+                        confidenceThreshold={confidenceThreshold}
+                        reviewWord={reviewItem?.segmentId === seg.id ? reviewItem.wordIndex : null}
+                        highlights={searchMatches.bySegment.get(seg.id)}
+                        currentHighlight={currentMatch?.segmentId === seg.id ? currentMatch.index : null}
+                        redactions={segmentRedactions.get(seg.id)}
+                        onSeek={handleSeek}
+                      />
+                    )}
+                    {historySegment === seg.id && (
+                      <SegmentHistory
+                        segmentId={seg.id}
+                        segmentText={seg.text}
+                        onRevert={(text) => handleSaveSegmentText(seg, text)}
+                      />
+                    )}
+                  </div>
+                );
+              })}
             </div>
           </div>
-
-          {/* Segments */}
-          <div className="transcript-segments">
-            {filteredSegments.map((seg) => (
-              <div
-                key={seg.id}
-                className="segment"
-                onClick={() => handleSeek(seg.start_ms)}
-              >
-                <div className="segment-header">
-                  <span className="segment-speaker">{seg.speaker_label}</span>
-                  <span className="segment-time">
-                    {formatTime(seg.start_ms)} - {formatTime(seg.end_ms)}
-                  </span>
-                </div>
-                <p className="segment-text">{seg.text}</p>
-              </div>
-            ))}
+          <div className="meeting-sidebar">
+            <ClipsPanel
+              meetingId={meeting.id}
+              clips={clips}
+              draft={clipDraft}
+              onDraftChange={setClipDraft}
+              onCreate={handleCreateClip}
+              onExport={handleExportClip}
+              onDelete={handleDeleteClip}
+              onSeek={handleSeek}
+            />
+            <BookmarksPanel
+              bookmarks={bookmarks}
+              segments={segments}
+              focusId={newBookmarkId}
+              onSeek={handleSeek}
+              onUpdateNote={handleUpdateBookmarkNote}
+              onDelete={handleDeleteBookmark}
+            />
           </div>
         </div>
       )}
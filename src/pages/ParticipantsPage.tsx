@@ -0,0 +1,119 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../context/AuthContext';
+import type { Participant } from '../types/database';
+import { Loader2, Plus, Save, Trash2 } from 'lucide-react';
+
+type Draft = Pick<Participant, 'id' | 'name'> & { email: string; role: string };
+
+export default function ParticipantsPage() {
+  const { user } = useAuth();
+  const [participants, setParticipants] = useState<Participant[]>([]);
+  const [editing, setEditing] = useState<Draft | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [message, setMessage] = useState('');
+
+  const fetchParticipants = useCallback(() => {
+    supabase.from('participants').select('*').order('name').then(({ data }) => {
+      setParticipants(data ?? []);
+      setLoading(false);
+    });
+  }, []);
+
+  useEffect(() => { fetchParticipants(); }, [fetchParticipants]);
+
+  const save = async () => {
+    if (!user || !editing?.name.trim()) return;
+    const row = {
+      name: editing.name.trim(),
+      email: editing.email.trim() || null,
+      role: editing.role.trim() || null,
+    };
+    // Renames are copied to linked speaker labels by a trigger
+    const { error } = editing.id
+      ? await supabase.from('participants').update(row).eq('id', editing.id)
+      : await supabase.from('participants').insert({ ...row, owner_id: user.id });
+    if (error) {
+      setMessage(`Error: ${error.message}`);
+      return;
+    }
+    setMessage('');
+    setEditing(null);
+    fetchParticipants();
+  };
+
+  const remove = async (participantId: string) => {
+    if (!confirm('Delete this participant? Speakers linked to them keep their current name.')) return;
+    await supabase.from('participants').delete().eq('id', participantId);
+    fetchParticipants();
+  };
+
+  if (loading) return <div className="loading-indicator"><Loader2 className="spin" size={24} /> Loading...</div>;
+
+  return (
+    <div className="participants-page">
+      <h1>Participants</h1>
+      <div className="admin-section">
+        <div className="section-header">
+          <h2>People you meet with</h2>
+          <button onClick={() => setEditing({ id: '', name: '', email: '', role: '' })} className="btn btn-primary btn-sm">
+            <Plus size={16} /> New Participant
+          </button>
+        </div>
+        <p className="hint">
+          Link transcript speakers to these people from a meeting's speaker list. Their names are used in
+          transcripts and summaries, and their email addresses are suggested when sending notes.
+        </p>
+
+        {editing && (
+          <div className="template-editor">
+            <label>
+              Name
+              <input type="text" value={editing.name} onChange={(e) => setEditing({ ...editing, name: e.target.value })} />
+            </label>
+            <label>
+              Email
+              <input type="email" value={editing.email} onChange={(e) => setEditing({ ...editing, email: e.target.value })} />
+            </label>
+            <label>
+              Role
+              <input
+                type="text"
+                value={editing.role}
+                placeholder="e.g. Product manager"
+                onChange={(e) => setEditing({ ...editing, role: e.target.value })}
+              />
+            </label>
+            {message && <p className="error-msg">{message}</p>}
+            <div className="editor-actions">
+              <button onClick={save} className="btn btn-primary btn-sm"><Save size={16} /> Save</button>
+              <button onClick={() => { setEditing(null); setMessage(''); }} className="btn btn-ghost btn-sm">Cancel</button>
+            </div>
+          </div>
+        )}
+
+        <div className="templates-list">
+          {participants.map((p) => (
+            <div key={p.id} className="template-card">
+              <div className="template-info">
+                <strong>{p.name}</strong>
+                {p.role && <span className="badge badge-gray">{p.role}</span>}
+                {p.email && <span className="hint">{p.email}</span>}
+              </div>
+              <div className="template-actions">
+                <button
+                  onClick={() => setEditing({ id: p.id, name: p.name, email: p.email ?? '', role: p.role ?? '' })}
+                  className="btn btn-ghost btn-xs"
+                >
+                  Edit
+                </button>
+                <button onClick={() => remove(p.id)} className="btn btn-ghost btn-xs btn-danger"><Trash2 size={14} /></button>
+              </div>
+            </div>
+          ))}
+          {participants.length === 0 && <p className="hint">No participants yet.</p>}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,9 +2,9 @@ import { useEffect, useState, useCallback } from 'react';
 import { useParams, Link } from 'react-router-dom';
 import ReactMarkdown from 'react-markdown';
 import { supabase } from '../lib/supabase';
-import { generateSummary } from '../lib/edge-functions';
+import { streamSummary } from '../lib/edge-functions';
 import type { Meeting, Summary } from '../types/database';
-import { Loader2, RefreshCw, Mail, ArrowLeft, ChevronDown } from 'lucide-react';
+import { Loader2, RefreshCw, Mail, ArrowLeft, ChevronDown, AlertTriangle } from 'lucide-react';
 
 export default function SummaryPage() {
   const { id } = useParams<{ id: string }>();
@@ -13,7 +13,11 @@ export default function SummaryPage() {
   const [currentVersion, setCurrentVersion] = useState<number | null>(null);
   const [loading, setLoading] = useState(true);
   const [generating, setGenerating] = useState(false);
+  // Text received so far while a summary streams in; kept if it couldn't be saved
+  const [streamedText, setStreamedText] = useState<string | null>(null);
   const [instructions, setInstructions] = useState('');
+  const [includeAudioEvents, setIncludeAudioEvents] = useState(false);
+  const [transcriptEditedAt, setTranscriptEditedAt] = useState<string | null>(null);
   const [error, setError] = useState('');
 
   const fetchData = useCallback(async () => {
@@ -39,24 +43,52 @@ export default function SummaryPage() {
     fetchData();
   }, [fetchData]);
 
+  // Latest manual correction, to flag summaries that predate it
+  useEffect(() => {
+    if (!meeting?.active_revision_id) return;
+    supabase
+      .from('transcript_segments')
+      .select('edited_at')
+      .eq('revision_id', meeting.active_revision_id)
+      .not('edited_at', 'is', null)
+      .order('edited_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+      .then(({ data }) => setTranscriptEditedAt(data?.edited_at ?? null));
+  }, [meeting?.active_revision_id]);
+
   const handleGenerate = async () => {
     if (!id) return;
     setGenerating(true);
     setError('');
-    try {
-      const result = await generateSummary({
-        meetingId: id,
-        userInstructions: instructions || undefined,
-        forceNewVersion: true,
-      });
+    setStreamedText('');
+    const addVersion = (result: { summaryId: string; version: number; content_md: string }, isPartial: boolean) => {
       setSummaries((prev) => [
-        { id: result.summaryId, meeting_id: id, version: result.version, template_id: null, model_id: '', content_md: result.content_md, raw_response: null, created_at: new Date().toISOString() },
+        { id: result.summaryId, meeting_id: id, version: result.version, template_id: null, model_id: '', content_md: result.content_md, raw_response: null, is_partial: isPartial, created_at: new Date().toISOString() },
         ...prev,
       ]);
       setCurrentVersion(result.version);
+      setStreamedText(null);
+    };
+    try {
+      const result = await streamSummary(
+        {
+          meetingId: id,
+          userInstructions: instructions || undefined,
+          forceNewVersion: true,
+          includeAudioEvents,
+        },
+        {
+          onText: (text) => setStreamedText((prev) => (prev ?? '') + text),
+          onPartial: (partial) => addVersion(partial, true),
+        },
+      );
+      addVersion(result, false);
       setInstructions('');
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to generate summary');
+      // With nothing received there's nothing to show; otherwise keep the text
+      setStreamedText((prev) => prev || null);
     }
     setGenerating(false);
   };
@@ -96,6 +128,14 @@ export default function SummaryPage() {
           onChange={(e) => setInstructions(e.target.value)}
           rows={2}
         />
+        <label className="checkbox-label">
+          <input
+            type="checkbox"
+            checked={includeAudioEvents}
+            onChange={(e) => setIncludeAudioEvents(e.target.checked)}
+          />
+          Include audio events (laughter, applause...)
+        </label>
         <button onClick={handleGenerate} disabled={generating} className="btn btn-primary">
           {generating ? <Loader2 className="spin" size={18} /> : <RefreshCw size={18} />}
           {summaries.length === 0 ? 'Generate Summary' : 'Regenerate Summary'}
@@ -116,7 +156,7 @@ export default function SummaryPage() {
               >
                 {summaries.map((s) => (
                   <option key={s.version} value={s.version}>
-                    v{s.version} - {new Date(s.created_at).toLocaleString()}
+                    v{s.version} - {new Date(s.created_at).toLocaleString()}{s.is_partial ? ' (partial)' : ''}
                   </option>
                 ))}
               </select>
@@ -126,11 +166,39 @@ export default function SummaryPage() {
         </div>
       )}
 
+      {streamedText === null && activeSummary && transcriptEditedAt && new Date(transcriptEditedAt) > new Date(activeSummary.created_at) && (
+        <p className="hint">
+          The transcript was corrected after this summary was generated. Regenerate to use the corrected text.
+        </p>
+      )}
+
       {/* Summary content */}
-      {activeSummary ? (
-        <div className="summary-content markdown-body">
-          <ReactMarkdown>{activeSummary.content_md}</ReactMarkdown>
-        </div>
+      {streamedText !== null ? (
+        <>
+          {!generating && (
+            <p className="partial-notice">
+              <AlertTriangle size={16} /> The connection was lost before the summary finished. The part below is all that arrived.
+            </p>
+          )}
+          <div className={`summary-content markdown-body ${generating ? 'summary-streaming' : ''}`} dir="auto">
+            {streamedText ? (
+              <ReactMarkdown>{streamedText}</ReactMarkdown>
+            ) : (
+              <div className="loading-indicator"><Loader2 className="spin" size={18} /> Waiting for the model...</div>
+            )}
+          </div>
+        </>
+      ) : activeSummary ? (
+        <>
+          {activeSummary.is_partial && (
+            <p className="partial-notice">
+              <AlertTriangle size={16} /> This summary was cut off before the model finished. Regenerate for a complete one.
+            </p>
+          )}
+          <div className="summary-content markdown-body" dir="auto">
+            <ReactMarkdown>{activeSummary.content_md}</ReactMarkdown>
+          </div>
+        </>
       ) : (
         <div className="empty-state">
           <p>No summary yet. Click "Generate Summary" to create one.</p>
@@ -2,8 +2,14 @@ import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useDropzone } from 'react-dropzone';
 import { supabase } from '../lib/supabase';
-import { createUploadUrl, startTranscription } from '../lib/edge-functions';
-import { Upload, FileAudio, Loader2, CheckCircle } from 'lucide-react';
+import { createUploadUrl, importTranscript, startTranscription } from '../lib/edge-functions';
+import { getMediaDuration } from '../lib/media';
+import { LANGUAGE_OPTIONS } from '../lib/language';
+import type { TranscriptionProviderName } from '../types/database';
+import {
+  IMPORT_EXTENSIONS, parseTranscriptFile, type ParsedTranscript,
+} from '../../supabase/functions/_shared/transcript-import.ts';
+import { Upload, FileAudio, FileText, Loader2, CheckCircle } from 'lucide-react';
 
 const ACCEPTED_TYPES: Record<string, string[]> = {
   'audio/mpeg': ['.mp3'],
@@ -12,44 +18,92 @@ const ACCEPTED_TYPES: Record<string, string[]> = {
   'audio/mp4': ['.m4a'],
   'video/mp4': ['.mp4'],
   'video/quicktime': ['.mov'],
+  // Existing transcripts, imported instead of transcribing
+  'application/x-subrip': ['.srt'],
+  'text/vtt': ['.vtt'],
+  'application/json': ['.json'],
+  'text/plain': ['.txt'],
 };
 
+const MAX_SHOWN_ERRORS = 10;
+
 type UploadStep = 'select' | 'uploading' | 'starting' | 'done' | 'error';
 
+interface TranscriptFile {
+  file: File;
+  content: string;
+  parsed: ParsedTranscript;
+}
+
+const isTranscriptFile = (file: File) => IMPORT_EXTENSIONS.some((ext) => file.name.toLowerCase().endsWith(ext));
+
 export default function UploadPage() {
   const navigate = useNavigate();
   const [file, setFile] = useState<File | null>(null);
+  const [transcript, setTranscript] = useState<TranscriptFile | null>(null);
   const [title, setTitle] = useState('');
   const [language, setLanguage] = useState('');
+  const [provider, setProvider] = useState<TranscriptionProviderName | ''>('');
+  const [customTerms, setCustomTerms] = useState('');
   const [step, setStep] = useState<UploadStep>('select');
   const [progress, setProgress] = useState(0);
   const [error, setError] = useState('');
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     accept: ACCEPTED_TYPES,
-    maxFiles: 1,
+    // A recording, a transcript, or one of each
+    maxFiles: 2,
     onDrop: (accepted) => {
-      if (accepted.length > 0) {
-        setFile(accepted[0]);
-        if (!title) {
-          setTitle(accepted[0].name.replace(/\.[^.]+$/, ''));
-        }
+      const media = accepted.find((f) => !isTranscriptFile(f));
+      const transcriptFile = accepted.find(isTranscriptFile);
+      if (media) setFile(media);
+      if (transcriptFile) {
+        transcriptFile.text().then((content) => {
+          setTranscript({ file: transcriptFile, content, parsed: parseTranscriptFile(transcriptFile.name, content) });
+        });
+      }
+      const named = media ?? transcriptFile;
+      if (named && !title) {
+        setTitle(named.name.replace(/\.[^.]+$/, ''));
       }
     },
   });
 
+  const importErrors = transcript?.parsed.errors ?? [];
+  const importSpeakers = new Set(transcript?.parsed.segments.map((s) => s.speaker_id)).size;
+
   const handleUpload = async () => {
-    if (!file) return;
+    if (!file && !transcript) return;
+    if (importErrors.length > 0) return;
+    const terms = customTerms.split(/[\n,]/).map((t) => t.trim()).filter(Boolean);
 
     try {
-      setStep('uploading');
       setError('');
 
+      // Transcript only: the meeting is created ready, with no recording
+      if (!file && transcript) {
+        setStep('starting');
+        const { meetingId } = await importTranscript({
+          title: title || transcript.file.name,
+          filename: transcript.file.name,
+          content: transcript.content,
+          customTerms: terms,
+        });
+        setStep('done');
+        setTimeout(() => navigate(`/meeting/${meetingId}`), 1500);
+        return;
+      }
+      if (!file) return;
+
+      setStep('uploading');
+
       // 1. Get meeting ID and storage path
       const { meetingId, storagePath } = await createUploadUrl({
         title: title || file.name,
         filename: file.name,
         mime: file.type,
+        durationSeconds: await getMediaDuration(file),
+        customTerms: terms,
       });
 
       // 2. Upload file directly via Supabase Storage client
@@ -63,12 +117,18 @@ export default function UploadPage() {
       }
       setProgress(100);
 
-      // 3. Start transcription
+      // 3. Start transcription, unless a transcript came with the recording
       setStep('starting');
-      await startTranscription({
-        meetingId,
-        options: language ? { languageCode: language } : undefined,
-      });
+      if (transcript) {
+        await importTranscript({ meetingId, filename: transcript.file.name, content: transcript.content });
+      } else {
+        await startTranscription({
+          meetingId,
+          options: language || provider
+            ? { languageCode: language || undefined, provider: provider || undefined }
+            : undefined,
+        });
+      }
 
       setStep('done');
       setTimeout(() => navigate(`/meeting/${meetingId}`), 1500);
@@ -89,21 +149,55 @@ export default function UploadPage() {
             className={`dropzone ${isDragActive ? 'dropzone-active' : ''} ${file ? 'dropzone-has-file' : ''}`}
           >
             <input {...getInputProps()} />
-            {file ? (
-              <div className="dropzone-file">
-                <FileAudio size={32} />
-                <span>{file.name}</span>
-                <span className="file-size">({(file.size / 1024 / 1024).toFixed(1)} MB)</span>
-              </div>
+            {file || transcript ? (
+              <>
+                {file && (
+                  <div className="dropzone-file">
+                    <FileAudio size={32} />
+                    <span>{file.name}</span>
+                    <span className="file-size">({(file.size / 1024 / 1024).toFixed(1)} MB)</span>
+                  </div>
+                )}
+                {transcript && (
+                  <div className="dropzone-file">
+                    <FileText size={32} />
+                    <span>{transcript.file.name}</span>
+                    {importErrors.length === 0 && (
+                      <span className="file-size">
+                        ({transcript.parsed.segments.length} segments, {importSpeakers} speakers)
+                      </span>
+                    )}
+                  </div>
+                )}
+              </>
             ) : (
               <div className="dropzone-prompt">
                 <Upload size={40} />
                 <p>Drag & drop an audio/video file here, or click to browse</p>
                 <p className="hint">Supported: MP3, WAV, M4A, MP4, MOV</p>
+                <p className="hint">
+                  Already transcribed? Add an SRT, VTT, JSON or TXT transcript, alone or with the recording.
+                </p>
               </div>
             )}
           </div>
 
+          {importErrors.length > 0 && (
+            <div className="import-errors">
+              <p className="error-msg">
+                {transcript!.file.name} can't be imported. Fix these problems and drop it again:
+              </p>
+              <ul>
+                {importErrors.slice(0, MAX_SHOWN_ERRORS).map((e) => (
+                  <li key={`${e.line}:${e.message}`}>Line {e.line}: {e.message}</li>
+                ))}
+              </ul>
+              {importErrors.length > MAX_SHOWN_ERRORS && (
+                <p className="hint">and {importErrors.length - MAX_SHOWN_ERRORS} more</p>
+              )}
+            </div>
+          )}
+
           <div className="upload-fields">
             <label>
               Meeting Title (optional)
@@ -114,23 +208,47 @@ export default function UploadPage() {
                 placeholder="e.g. Weekly standup"
               />
             </label>
+            {!transcript && (
+              <>
+                <label>
+                  Language
+                  <select value={language} onChange={(e) => setLanguage(e.target.value)}>
+                    {LANGUAGE_OPTIONS.map((option) => (
+                      <option key={option.code} value={option.code}>{option.label}</option>
+                    ))}
+                  </select>
+                </label>
+                <p className="hint">Auto-detect handles meetings that switch between Hebrew and English.</p>
+                <label>
+                  Transcription Provider
+                  <select
+                    value={provider}
+                    onChange={(e) => setProvider(e.target.value as TranscriptionProviderName | '')}
+                  >
+                    <option value="">Default</option>
+                    <option value="elevenlabs">ElevenLabs</option>
+                    <option value="whisper">Whisper (self-hosted, for sensitive recordings)</option>
+                  </select>
+                </label>
+              </>
+            )}
             <label>
-              Language (optional)
-              <input
-                type="text"
-                value={language}
-                onChange={(e) => setLanguage(e.target.value)}
-                placeholder="e.g. en, he, auto"
+              Extra Terms (optional)
+              <textarea
+                rows={3}
+                value={customTerms}
+                onChange={(e) => setCustomTerms(e.target.value)}
+                placeholder="Names, course codes or jargon used in this meeting, one per line or comma separated"
               />
             </label>
           </div>
 
           <button
             onClick={handleUpload}
-            disabled={!file}
+            disabled={(!file && !transcript) || importErrors.length > 0}
             className="btn btn-primary btn-lg"
           >
-            <Upload size={18} /> Upload & Transcribe
+            <Upload size={18} /> {transcript ? (file ? 'Upload & Import' : 'Import Transcript') : 'Upload & Transcribe'}
           </button>
         </>
       )}
@@ -148,7 +266,7 @@ export default function UploadPage() {
       {step === 'starting' && (
         <div className="upload-progress">
           <Loader2 className="spin" size={32} />
-          <p>Starting transcription...</p>
+          <p>{transcript ? 'Importing transcript...' : 'Starting transcription...'}</p>
         </div>
       )}
 
@@ -8,15 +8,21 @@ export interface Profile {
 
 export type MeetingStatus = 'uploaded' | 'transcribing' | 'ready' | 'failed';
 
+export type TranscriptionProviderName = 'elevenlabs' | 'whisper';
+
 export interface Meeting {
   id: string;
   owner_id: string;
   title: string;
   source_filename: string;
-  media_path: string;
-  media_mime: string;
+  /** Null for meetings imported from a transcript file alone */
+  media_path: string | null;
+  media_mime: string | null;
   duration_seconds: number | null;
   status: MeetingStatus;
+  transcription_provider: TranscriptionProviderName | null;
+  active_revision_id: string | null;
+  custom_terms: string[];
   created_at: string;
   updated_at: string;
 }
@@ -26,25 +32,175 @@ export type TranscriptionJobStatus = 'queued' | 'running' | 'completed' | 'faile
 export interface TranscriptionJob {
   id: string;
   meeting_id: string;
-  provider: string;
+  /** `import` for transcripts uploaded as files */
+  provider: TranscriptionProviderName | 'import';
   provider_job_id: string;
   status: TranscriptionJobStatus;
   error: string | null;
   raw_response: unknown;
+  parent_job_id: string | null;
+  chunk_index: number | null;
+  chunk_start_ms: number | null;
+  chunk_end_ms: number | null;
+  media_path: string | null;
+  keyterms: string[];
   created_at: string;
   updated_at: string;
 }
 
+export interface TranscriptWord {
+  text: string;
+  start_ms: number;
+  end_ms: number;
+  speaker_id: string | null;
+  confidence: number | null;
+  type?: 'audio_event';
+}
+
+export interface SegmentReview {
+  /** Indexes into meta.words of uncertain words the reviewer accepted or corrected */
+  resolved: number[];
+  reviewed_at: string;
+}
+
+export interface TranscriptSegmentMeta {
+  words?: TranscriptWord[];
+  review?: SegmentReview;
+}
+
+export interface TranscriptRevision {
+  id: string;
+  meeting_id: string;
+  job_id: string | null;
+  revision: number;
+  created_at: string;
+}
+
+export type TranscriptSegmentKind = 'speech' | 'audio_event';
+
 export interface TranscriptSegment {
   id: string;
   meeting_id: string;
+  revision_id: string;
+  /** Audio events hold just the tag label, e.g. "laughter" */
+  kind: TranscriptSegmentKind;
   speaker_id: string;
   speaker_label: string;
   start_ms: number;
   end_ms: number;
   text: string;
-  meta: unknown;
+  /** Detected per segment, null when the text has no letters */
+  language_code: string | null;
+  meta: TranscriptSegmentMeta | null;
+  /** Set when a person last corrected the text */
+  edited_at: string | null;
+  edited_by: string | null;
+  created_at: string;
+}
+
+export interface TranscriptSegmentEdit {
+  id: string;
+  segment_id: string;
+  editor_id: string | null;
+  editor_name: string | null;
+  old_text: string;
+  new_text: string;
+  created_at: string;
+}
+
+export interface GlossaryTerm {
+  id: string;
+  term: string;
+  aliases: string[];
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface Participant {
+  id: string;
+  owner_id: string;
+  name: string;
+  email: string | null;
+  role: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface MeetingSpeaker {
+  id: string;
+  meeting_id: string;
+  revision_id: string;
+  speaker_id: string;
+  participant_id: string;
+  created_at: string;
+}
+
+export type BookmarkKind = 'bookmark' | 'highlight';
+
+export interface MeetingBookmark {
+  id: string;
+  meeting_id: string;
+  kind: BookmarkKind;
+  start_ms: number;
+  /** Null for bookmarks, which mark a single point in time */
+  end_ms: number | null;
+  note: string;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** A transcript segment as kept in a clip, trimmed to the clip's range */
+export type ClipSegment = Pick<TranscriptSegment, 'kind' | 'speaker_id' | 'speaker_label' | 'start_ms' | 'end_ms' | 'text'> & {
+  meta: { words?: TranscriptWord[] } | null;
+};
+
+export interface MeetingClip {
+  id: string;
+  meeting_id: string;
+  title: string;
+  /** Range within the meeting's recording */
+  start_ms: number;
+  end_ms: number;
+  /** The meeting's recording when the clip was made */
+  media_path: string | null;
+  excerpt: ClipSegment[];
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type PiiKind = 'phone' | 'email' | 'israeli_id';
+
+export type RedactionStatus = 'suggested' | 'confirmed' | 'dismissed';
+
+/** A span of personal data in a segment's text or a summary's Markdown */
+export interface PiiRedaction {
+  id: string;
+  meeting_id: string;
+  target: 'segment' | 'summary';
+  target_id: string;
+  /** Character offsets into the target's text */
+  start_offset: number;
+  end_offset: number;
+  kind: PiiKind;
+  text: string;
+  status: RedactionStatus;
   created_at: string;
+  updated_at: string;
+}
+
+/** Row returned by the search_meetings RPC */
+export interface SearchHit {
+  meeting_id: string;
+  meeting_title: string;
+  meeting_created_at: string;
+  source: 'transcript' | 'summary';
+  segment_id: string | null;
+  start_ms: number | null;
+  speaker_label: string | null;
+  content: string;
+  rank: number;
 }
 
 export interface Summary {
@@ -55,6 +211,8 @@ export interface Summary {
   model_id: string;
   content_md: string;
   raw_response: unknown;
+  /** Streaming stopped before the model finished */
+  is_partial: boolean;
   created_at: string;
 }
 
@@ -68,8 +226,22 @@ export interface SummaryTemplate {
   created_at: string;
 }
 
+export type TranscriptionMode = 'sync' | 'async';
+
 export interface AppSettings {
   id: number;
+  transcription_mode: TranscriptionMode;
+  default_transcription_provider: TranscriptionProviderName;
+  whisper_base_url: string | null;
+  whisper_model_id: string | null;
+  segment_max_pause_ms: number;
+  segment_max_duration_ms: number;
+  segment_max_chars: number;
+  segment_split_on_sentence: boolean;
+  review_confidence_threshold: number;
+  chunk_threshold_seconds: number;
+  chunk_duration_seconds: number;
+  chunk_overlap_seconds: number;
   elevenlabs_default_model_id: string | null;
   elevenlabs_diarize_default: boolean;
   elevenlabs_tag_audio_events_default: boolean;
@@ -79,6 +251,9 @@ export interface AppSettings {
   gmail_sending_enabled: boolean;
   max_upload_mb: number;
   retention_days: number | null;
+  redaction_detectors: PiiKind[];
+  redact_external_email: boolean;
+  internal_email_domains: string[];
 }
 
 export interface EmailLog {
@@ -89,6 +264,7 @@ export interface EmailLog {
   cc_recipients: string[] | null;
   subject: string;
   include_transcript: boolean;
+  redacted: boolean;
   status: 'sent' | 'failed';
   error: string | null;
   created_at: string;
@@ -0,0 +1,349 @@
+// Participation statistics computed from transcript segments: talk time,
+// turn-taking, overlaps and interruptions, speaking pace and filler words.
+// Free of runtime-specific APIs, so the web app can import the types.
+
+export interface AnalyticsSegment {
+  kind?: 'speech' | 'audio_event';
+  speaker_id: string;
+  speaker_label: string;
+  start_ms: number;
+  end_ms: number;
+  text: string;
+}
+
+export interface SpeakerStats {
+  speaker_id: string;
+  speaker_label: string;
+  talk_ms: number;
+  /** Share of the meeting's total talk time, 0-1 */
+  talk_share: number;
+  turns: number;
+  avg_turn_ms: number;
+  words: number;
+  /** Words per minute of the speaker's own talk time */
+  wpm: number;
+  /** Times the speaker took the floor while someone else was still talking */
+  interruptions: number;
+  /** Times someone else did that to the speaker */
+  interrupted: number;
+  fillers: number;
+  /** Per filler as spoken, e.g. `{ "um": 4, "כאילו": 2 }` */
+  filler_counts: Record<string, number>;
+}
+
+export interface MeetingAnalytics {
+  /** From the first word to the last */
+  duration_ms: number;
+  talk_ms: number;
+  turns: number;
+  /** Turns that started before the previous speaker finished */
+  overlaps: number;
+  overlap_ms: number;
+  interruptions: number;
+  words: number;
+  fillers: number;
+  /** Ordered by talk time, most first */
+  speakers: SpeakerStats[];
+}
+
+/**
+ * An overlap counts as an interruption when the new speaker starts at least
+ * this long before the current one finishes and outlasts them. Shorter
+ * overlaps are ordinary hand-overs; ones the current speaker talks through
+ * are back-channel ("right", "mm-hmm").
+ */
+export const INTERRUPTION_MIN_OVERLAP_MS = 1000;
+
+// Longer runs of a letter are folded to two before matching, so "ummm"
+// counts as "umm" and "אממממ" as "אממ".
+const FILLERS = [
+  // English
+  'um', 'umm', 'uh', 'uhh', 'uhm', 'er', 'erm', 'hmm', 'mm', 'you know', 'i mean',
+  // Hebrew
+  'אה', 'אהה', 'אמ', 'אממ', 'הממ', 'כאילו', 'יעני', 'זאת אומרת',
+];
+const MAX_FILLER_WORDS = Math.max(...FILLERS.map((f) => f.split(' ').length));
+const FILLER_SET = new Set(FILLERS);
+
+/** Lower-cased words without Hebrew niqqud or punctuation */
+export function analyticsTokens(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[\u0591-\u05C7]/g, '')
+    .split(/[^a-z0-9'\u00C0-\u024F\u0400-\u04FF\u05D0-\u05EA\u0600-\u06FF]+/)
+    .map((w) => w.replace(/^'+|'+$/g, '').replace(/(.)\1{2,}/g, '$1$1'))
+    .filter(Boolean);
+}
+
+/** Filler words and phrases in the text, longest match first */
+export function countFillers(tokens: string[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (let i = 0; i < tokens.length; i++) {
+    for (let n = Math.min(MAX_FILLER_WORDS, tokens.length - i); n >= 1; n--) {
+      const phrase = tokens.slice(i, i + n).join(' ');
+      if (!FILLER_SET.has(phrase)) continue;
+      counts[phrase] = (counts[phrase] ?? 0) + 1;
+      i += n - 1;
+      break;
+    }
+  }
+  return counts;
+}
+
+interface Turn {
+  speaker_id: string;
+  start_ms: number;
+  end_ms: number;
+}
+
+export function computeMeetingAnalytics(segments: AnalyticsSegment[]): MeetingAnalytics {
+  const speech = segments
+    .filter((s) => s.kind !== 'audio_event' && s.end_ms > s.start_ms)
+    .sort((a, b) => a.start_ms - b.start_ms);
+
+  const stats = new Map<string, SpeakerStats>();
+  const speaker = (seg: AnalyticsSegment) => {
+    let entry = stats.get(seg.speaker_id);
+    if (!entry) {
+      entry = {
+        speaker_id: seg.speaker_id,
+        speaker_label: seg.speaker_label,
+        talk_ms: 0,
+        talk_share: 0,
+        turns: 0,
+        avg_turn_ms: 0,
+        words: 0,
+        wpm: 0,
+        interruptions: 0,
+        interrupted: 0,
+        fillers: 0,
+        filler_counts: {},
+      };
+      stats.set(seg.speaker_id, entry);
+    }
+    return entry;
+  };
+
+  const turns: Turn[] = [];
+  const turnMs = new Map<string, number>();
+  let overlaps = 0;
+  let overlapMs = 0;
+  // The turn holding the floor; back-channel from others doesn't take it
+  let floor: Turn | null = null;
+
+  for (const seg of speech) {
+    const entry = speaker(seg);
+    entry.talk_ms += seg.end_ms - seg.start_ms;
+    const tokens = analyticsTokens(seg.text);
+    entry.words += tokens.length;
+    for (const [filler, count] of Object.entries(countFillers(tokens))) {
+      entry.filler_counts[filler] = (entry.filler_counts[filler] ?? 0) + count;
+      entry.fillers += count;
+    }
+
+    if (floor?.speaker_id === seg.speaker_id) {
+      floor.end_ms = Math.max(floor.end_ms, seg.end_ms);
+      continue;
+    }
+
+    const turn: Turn = { speaker_id: seg.speaker_id, start_ms: seg.start_ms, end_ms: seg.end_ms };
+    turns.push(turn);
+    if (floor && seg.start_ms < floor.end_ms) {
+      overlaps++;
+      overlapMs += Math.min(seg.end_ms, floor.end_ms) - seg.start_ms;
+      if (seg.end_ms <= floor.end_ms) continue;
+      if (floor.end_ms - seg.start_ms >= INTERRUPTION_MIN_OVERLAP_MS) {
+        entry.interruptions++;
+        stats.get(floor.speaker_id)!.interrupted++;
+      }
+    }
+    floor = turn;
+  }
+
+  for (const turn of turns) {
+    stats.get(turn.speaker_id)!.turns++;
+    turnMs.set(turn.speaker_id, (turnMs.get(turn.speaker_id) ?? 0) + turn.end_ms - turn.start_ms);
+  }
+
+  const all = [...stats.values()];
+  const talkMs = all.reduce((sum, s) => sum + s.talk_ms, 0);
+  for (const s of all) {
+    s.talk_share = talkMs ? s.talk_ms / talkMs : 0;
+    s.avg_turn_ms = s.turns ? Math.round((turnMs.get(s.speaker_id) ?? 0) / s.turns) : 0;
+    s.wpm = s.talk_ms ? Math.round(s.words / (s.talk_ms / 60000)) : 0;
+  }
+
+  return {
+    duration_ms: speech.length ? speech.reduce((end, s) => Math.max(end, s.end_ms), 0) - speech[0].start_ms : 0,
+    talk_ms: talkMs,
+    turns: turns.length,
+    overlaps,
+    overlap_ms: overlapMs,
+    interruptions: all.reduce((sum, s) => sum + s.interruptions, 0),
+    words: all.reduce((sum, s) => sum + s.words, 0),
+    fillers: all.reduce((sum, s) => sum + s.fillers, 0),
+    speakers: all.sort((a, b) => b.talk_ms - a.talk_ms),
+  };
+}
+
+export interface AnalyticsMeetingInput {
+  meeting_id: string;
+  title: string;
+  created_at: string;
+  analytics: MeetingAnalytics;
+  /** Directory entries linked to the meeting's speakers, by speaker_id */
+  participants: Record<string, { id: string; name: string }>;
+}
+
+export interface MeetingOverviewRow {
+  meeting_id: string;
+  title: string;
+  created_at: string;
+  duration_ms: number;
+  speakers: number;
+  /** Talk share of whoever spoke most, 0-1 */
+  top_share: number;
+  overlaps: number;
+  interruptions: number;
+}
+
+export interface PersonStats {
+  /** Participant id, the speaker label, or `unnamed` */
+  key: string;
+  name: string;
+  meetings: number;
+  talk_ms: number;
+  /** Average share of talk time in the meetings the person was in, 0-1 */
+  avg_share: number;
+  turns: number;
+  avg_turn_ms: number;
+  words: number;
+  wpm: number;
+  interruptions: number;
+  interrupted: number;
+  fillers: number;
+  fillers_per_minute: number;
+}
+
+export interface AnalyticsOverview {
+  meetings: MeetingOverviewRow[];
+  people: PersonStats[];
+  totals: { meetings: number; duration_ms: number; talk_ms: number; overlaps: number; interruptions: number };
+}
+
+/** Labels the transcription assigns before anyone names the speaker */
+const UNNAMED_SPEAKER = /^speaker \d+$/i;
+
+/**
+ * Combines meetings per person: linked participants are matched across
+ * meetings by directory entry, others by label. Speakers still called
+ * "Speaker N" are pooled, as the same label is a different person each time.
+ */
+export function aggregateAnalytics(inputs: AnalyticsMeetingInput[]): AnalyticsOverview {
+  const people = new Map<string, {
+    key: string;
+    name: string;
+    meetingIds: Set<string>;
+    talk_ms: number;
+    shareSum: number;
+    turns: number;
+    turnMs: number;
+    words: number;
+    interruptions: number;
+    interrupted: number;
+    fillers: number;
+  }>();
+
+  for (const input of inputs) {
+    for (const s of input.analytics.speakers) {
+      const linked = input.participants[s.speaker_id];
+      const unnamed = !linked && UNNAMED_SPEAKER.test(s.speaker_label.trim());
+      const key = linked?.id ?? (unnamed ? 'unnamed' : s.speaker_label.trim().toLowerCase());
+      let person = people.get(key);
+      if (!person) {
+        person = {
+          key,
+          name: linked?.name ?? (unnamed ? 'Unnamed speakers' : s.speaker_label.trim()),
+          meetingIds: new Set(),
+          talk_ms: 0,
+          shareSum: 0,
+          turns: 0,
+          turnMs: 0,
+          words: 0,
+          interruptions: 0,
+          interrupted: 0,
+          fillers: 0,
+        };
+        people.set(key, person);
+      }
+      person.meetingIds.add(input.meeting_id);
+      person.talk_ms += s.talk_ms;
+      person.shareSum += s.talk_share;
+      person.turns += s.turns;
+      person.turnMs += s.avg_turn_ms * s.turns;
+      person.words += s.words;
+      person.interruptions += s.interruptions;
+      person.interrupted += s.interrupted;
+      person.fillers += s.fillers;
+    }
+  }
+
+  const personStats = [...people.values()].map((p): PersonStats => {
+    const minutes = p.talk_ms / 60000;
+    return {
+      key: p.key,
+      name: p.name,
+      meetings: p.meetingIds.size,
+      talk_ms: p.talk_ms,
+      avg_share: p.shareSum / p.meetingIds.size,
+      turns: p.turns,
+      avg_turn_ms: p.turns ? Math.round(p.turnMs / p.turns) : 0,
+      words: p.words,
+      wpm: minutes ? Math.round(p.words / minutes) : 0,
+      interruptions: p.interruptions,
+      interrupted: p.interrupted,
+      fillers: p.fillers,
+      fillers_per_minute: minutes ? Math.round((p.fillers / minutes) * 10) / 10 : 0,
+    };
+  });
+
+  const meetings = inputs.map((input): MeetingOverviewRow => ({
+    meeting_id: input.meeting_id,
+    title: input.title,
+    created_at: input.created_at,
+    duration_ms: input.analytics.duration_ms,
+    speakers: input.analytics.speakers.length,
+    top_share: input.analytics.speakers[0]?.talk_share ?? 0,
+    overlaps: input.analytics.overlaps,
+    interruptions: input.analytics.interruptions,
+  }));
+
+  return {
+    meetings,
+    people: personStats.sort((a, b) => b.talk_ms - a.talk_ms),
+    totals: {
+      meetings: inputs.length,
+      duration_ms: meetings.reduce((sum, m) => sum + m.duration_ms, 0),
+      talk_ms: inputs.reduce((sum, m) => sum + m.analytics.talk_ms, 0),
+      overlaps: meetings.reduce((sum, m) => sum + m.overlaps, 0),
+      interruptions: meetings.reduce((sum, m) => sum + m.interruptions, 0),
+    },
+  };
+}
+
+const minutes = (ms: number) => `${Math.round(ms / 6000) / 10} min`;
+
+/** Plain-text digest for prompts and reports */
+export function formatAnalytics(analytics: MeetingAnalytics): string {
+  const lines = analytics.speakers.map((s) => {
+    const fillers = s.fillers ? `, ${s.fillers} filler words` : '';
+    return `- ${s.speaker_label}: ${Math.round(s.talk_share * 100)}% of talk time (${minutes(s.talk_ms)}), `
+      + `${s.turns} turns averaging ${Math.round(s.avg_turn_ms / 1000)}s, ${s.wpm} words/min, `
+      + `interrupted others ${s.interruptions} times and was interrupted ${s.interrupted} times${fillers}`;
+  });
+  return [
+    `Duration ${minutes(analytics.duration_ms)}, ${analytics.turns} turns, `
+      + `${analytics.overlaps} overlaps, ${analytics.interruptions} interruptions.`,
+    ...lines,
+  ].join('\n');
+}
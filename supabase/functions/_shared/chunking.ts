@@ -0,0 +1,238 @@
+// Splits long recordings into overlapping time windows that can be sent to a
+// provider separately. Edge Functions have no ffmpeg, so slicing works on
+// byte ranges of the stored file: exact for PCM WAV, proportional to the
+// bitrate for MP3 (frame-accurate enough for CBR files; the window overlap
+// absorbs the drift of VBR ones). MP4-family containers (M4A, MP4, MOV) keep
+// their sample index in one place and can't be cut this way, so recordings in
+// them that need chunking are refused rather than sent whole.
+
+export interface ChunkWindow {
+  index: number;
+  start_ms: number;
+  end_ms: number;
+}
+
+export interface MediaProbe {
+  totalBytes: number;
+  /**
+   * Exact for WAV. For MP3, from the Xing/VBRI frame count when the encoder
+   * wrote one, else the first frame's bitrate; null when no frame was found.
+   */
+  durationMs: number | null;
+  layout:
+    | { kind: 'wav'; fmt: Uint8Array; dataOffset: number; dataSize: number; byteRate: number; blockAlign: number }
+    | { kind: 'mp3'; audioOffset: number };
+}
+
+const WAV_MIME_TYPES = ['audio/wav', 'audio/x-wav', 'audio/wave', 'audio/vnd.wave'];
+const MP3_MIME_TYPES = ['audio/mpeg', 'audio/mp3'];
+
+/** Large enough to reach the data chunk past typical LIST/bext metadata */
+const PROBE_BYTES = 65536;
+
+export function canSliceMedia(mime: string): boolean {
+  return WAV_MIME_TYPES.includes(mime) || MP3_MIME_TYPES.includes(mime);
+}
+
+export function planChunks(durationMs: number, chunkMs: number, overlapMs: number): ChunkWindow[] {
+  const step = Math.max(chunkMs - overlapMs, 1000);
+  const windows: ChunkWindow[] = [];
+  for (let start = 0; start < durationMs; start += step) {
+    const end = Math.min(start + chunkMs, durationMs);
+    windows.push({ index: windows.length, start_ms: start, end_ms: end });
+    if (end >= durationMs) break;
+  }
+  return windows;
+}
+
+export async function probeMedia(url: string, mime: string): Promise<MediaProbe | null> {
+  const { bytes, totalBytes } = await fetchRange(url, 0, PROBE_BYTES - 1);
+
+  if (WAV_MIME_TYPES.includes(mime)) {
+    const wav = parseWavHeader(bytes);
+    if (!wav) return null;
+    return {
+      totalBytes,
+      durationMs: Math.round((wav.dataSize / wav.byteRate) * 1000),
+      layout: { kind: 'wav', ...wav },
+    };
+  }
+
+  if (MP3_MIME_TYPES.includes(mime)) {
+    const audioOffset = id3v2Size(bytes);
+    // Long ID3 tags (cover art) push the first frame past the probed bytes
+    const frameBytes = audioOffset + 4096 <= bytes.length
+      ? bytes.subarray(audioOffset)
+      : (await fetchRange(url, audioOffset, audioOffset + PROBE_BYTES - 1)).bytes;
+    return {
+      totalBytes,
+      durationMs: mp3DurationMs(frameBytes, totalBytes - audioOffset),
+      layout: { kind: 'mp3', audioOffset },
+    };
+  }
+
+  return null;
+}
+
+export interface MediaSlice {
+  /** Streamed from the stored file; a 20-minute WAV window is ~200MB */
+  body: ReadableStream<Uint8Array>;
+  type: 'audio/wav' | 'audio/mpeg';
+}
+
+/** Opens the bytes of one window as a standalone file of the same format */
+export async function sliceMedia(
+  url: string,
+  probe: MediaProbe,
+  durationMs: number,
+  window: ChunkWindow,
+): Promise<MediaSlice> {
+  const { layout } = probe;
+
+  if (layout.kind === 'wav') {
+    const align = (n: number) => n - (n % layout.blockAlign);
+    const from = layout.dataOffset + align(Math.floor(layout.byteRate * window.start_ms / 1000));
+    const to = Math.min(
+      layout.dataOffset + align(Math.floor(layout.byteRate * window.end_ms / 1000)),
+      layout.dataOffset + layout.dataSize,
+    );
+    const response = await openRange(url, from, to - 1);
+    return { body: prepend(buildWavHeader(layout.fmt, to - from), response.body!), type: 'audio/wav' };
+  }
+
+  const audioBytes = probe.totalBytes - layout.audioOffset;
+  const from = layout.audioOffset + Math.floor(audioBytes * window.start_ms / durationMs);
+  const to = layout.audioOffset + Math.floor(audioBytes * window.end_ms / durationMs);
+  const response = await openRange(url, from, to - 1);
+  return { body: response.body!, type: 'audio/mpeg' };
+}
+
+async function openRange(url: string, from: number, to: number): Promise<Response> {
+  const response = await fetch(url, { headers: { Range: `bytes=${from}-${to}` } });
+  if (!response.ok) {
+    throw new Error(`Could not read media bytes ${from}-${to}: ${response.status}`);
+  }
+  // A server that ignores Range would hand over the whole recording
+  if (response.status !== 206) {
+    await response.body?.cancel();
+    throw new Error(`Storage ignored the byte range ${from}-${to}`);
+  }
+  return response;
+}
+
+async function fetchRange(url: string, from: number, to: number) {
+  const response = await openRange(url, from, to);
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  // "bytes 0-65535/1234567"
+  const total = Number(response.headers.get('Content-Range')?.split('/')[1]);
+  return { bytes, totalBytes: Number.isFinite(total) ? total : bytes.length };
+}
+
+function parseWavHeader(bytes: Uint8Array) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const tag = (at: number) => String.fromCharCode(...bytes.subarray(at, at + 4));
+  if (bytes.length < 12 || tag(0) !== 'RIFF' || tag(8) !== 'WAVE') return null;
+
+  let fmt: Uint8Array | null = null;
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const id = tag(offset);
+    const size = view.getUint32(offset + 4, true);
+    if (id === 'fmt ') {
+      fmt = bytes.slice(offset + 8, offset + 8 + size);
+    } else if (id === 'data' && fmt) {
+      const fmtView = new DataView(fmt.buffer);
+      return {
+        fmt,
+        dataOffset: offset + 8,
+        dataSize: size,
+        byteRate: fmtView.getUint32(8, true),
+        blockAlign: fmtView.getUint16(12, true),
+      };
+    }
+    // Chunks are padded to an even size
+    offset += 8 + size + (size % 2);
+  }
+  return null;
+}
+
+function prepend(head: Uint8Array, rest: ReadableStream<Uint8Array>): ReadableStream<Uint8Array> {
+  const reader = rest.getReader();
+  return new ReadableStream({
+    start(controller) {
+      controller.enqueue(head);
+    },
+    async pull(controller) {
+      const { done, value } = await reader.read();
+      if (done) controller.close();
+      else controller.enqueue(value);
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+}
+
+function buildWavHeader(fmt: Uint8Array, dataSize: number): Uint8Array {
+  const header = new Uint8Array(12 + 8 + fmt.length + 8);
+  const view = new DataView(header.buffer);
+  const writeTag = (at: number, text: string) => {
+    for (let i = 0; i < 4; i++) header[at + i] = text.charCodeAt(i);
+  };
+  writeTag(0, 'RIFF');
+  view.setUint32(4, header.length - 8 + dataSize, true);
+  writeTag(8, 'WAVE');
+  writeTag(12, 'fmt ');
+  view.setUint32(16, fmt.length, true);
+  header.set(fmt, 20);
+  writeTag(20 + fmt.length, 'data');
+  view.setUint32(24 + fmt.length, dataSize, true);
+  return header;
+}
+
+const MP3_BITRATES_KBPS = {
+  mpeg1: [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  mpeg2: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+};
+const MP3_SAMPLE_RATES = [44100, 48000, 32000];
+
+/** Duration from the first MPEG Layer III frame header in `bytes`, which start where the audio does */
+function mp3DurationMs(bytes: Uint8Array, audioBytes: number): number | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  for (let at = 0; at + 4 <= bytes.length; at++) {
+    if (bytes[at] !== 0xff || (bytes[at + 1] & 0xe0) !== 0xe0) continue;
+    const version = (bytes[at + 1] >> 3) & 0x3; // 0: MPEG 2.5, 2: MPEG 2, 3: MPEG 1
+    const layer = (bytes[at + 1] >> 1) & 0x3; // 1: Layer III
+    const bitrateIndex = bytes[at + 2] >> 4;
+    const rateIndex = (bytes[at + 2] >> 2) & 0x3;
+    if (version === 1 || layer !== 1 || bitrateIndex === 0 || bitrateIndex === 15 || rateIndex === 3) continue;
+
+    const mpeg1 = version === 3;
+    const sampleRate = MP3_SAMPLE_RATES[rateIndex] / (mpeg1 ? 1 : version === 2 ? 2 : 4);
+    const samplesPerFrame = mpeg1 ? 1152 : 576;
+    const mono = bytes[at + 3] >> 6 === 3;
+
+    // VBR encoders put the frame count in a Xing/Info tag after the side info, or in a VBRI tag
+    const tagAt = (offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+    const xing = at + 4 + (mpeg1 ? (mono ? 17 : 32) : (mono ? 9 : 17));
+    if (xing + 12 <= bytes.length && ['Xing', 'Info'].includes(tagAt(xing)) && view.getUint32(xing + 4) & 0x1) {
+      return Math.round((view.getUint32(xing + 8) * samplesPerFrame / sampleRate) * 1000);
+    }
+    const vbri = at + 4 + 32;
+    if (vbri + 18 <= bytes.length && tagAt(vbri) === 'VBRI') {
+      return Math.round((view.getUint32(vbri + 14) * samplesPerFrame / sampleRate) * 1000);
+    }
+
+    const kbps = (mpeg1 ? MP3_BITRATES_KBPS.mpeg1 : MP3_BITRATES_KBPS.mpeg2)[bitrateIndex];
+    return Math.round((audioBytes * 8) / kbps);
+  }
+  return null;
+}
+
+/** Length of a leading ID3v2 tag, which holds no audio */
+function id3v2Size(bytes: Uint8Array): number {
+  if (bytes.length < 10 || bytes[0] !== 0x49 || bytes[1] !== 0x44 || bytes[2] !== 0x33) return 0;
+  // Sizes are "syncsafe": 7 bits per byte
+  const size = (bytes[6] << 21) | (bytes[7] << 14) | (bytes[8] << 7) | bytes[9];
+  return 10 + size;
+}
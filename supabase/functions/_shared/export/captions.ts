@@ -0,0 +1,164 @@
+import type { ExportSegment } from './document.ts';
+
+// SRT and WebVTT captions. Segments are cut into cues that respect common
+// subtitle limits; cue timing follows word timestamps where available.
+
+export interface CaptionLimits {
+  maxLineChars: number;
+  maxLines: number;
+  maxDurationMs: number;
+  minDurationMs: number;
+}
+
+export const DEFAULT_CAPTION_LIMITS: CaptionLimits = {
+  maxLineChars: 42,
+  maxLines: 2,
+  maxDurationMs: 7000,
+  minDurationMs: 1000,
+};
+
+export interface Cue {
+  start_ms: number;
+  end_ms: number;
+  lines: string[];
+  speaker: string | null;
+}
+
+interface TimedWord {
+  text: string;
+  start_ms: number;
+  end_ms: number;
+}
+
+/** Word timings of the segment, interpolated by character count when it has none */
+function timedWords(segment: ExportSegment): TimedWord[] {
+  const words = (segment.meta?.words ?? [])
+    .filter((w) => (w.type ?? 'word') === 'word' && w.text.trim())
+    .map((w) => ({ text: w.text.trim(), start_ms: w.start_ms, end_ms: w.end_ms }));
+  // Only trust word timings that still spell out the (possibly edited) text
+  if (words.length > 0 && words.map((w) => w.text).join('') === segment.text.replace(/\s+/g, '')) {
+    return words;
+  }
+
+  const tokens = segment.text.split(/\s+/).filter(Boolean);
+  const totalChars = tokens.reduce((n, t) => n + t.length + 1, 0);
+  const duration = Math.max(0, segment.end_ms - segment.start_ms);
+  let chars = 0;
+  return tokens.map((text) => {
+    const start = segment.start_ms + Math.round((chars / totalChars) * duration);
+    chars += text.length + 1;
+    return { text, start_ms: start, end_ms: segment.start_ms + Math.round((chars / totalChars) * duration) };
+  });
+}
+
+/**
+ * Breaks words into at most `maxLines` lines of `maxChars`, balancing two-line
+ * cues so neither line is much longer than the other. Null when they don't fit.
+ * A single over-long word is allowed on its own.
+ */
+export function fitLines(words: string[], maxChars: number, maxLines: number): string[] | null {
+  const oneLine = words.join(' ');
+  if (oneLine.length <= maxChars || words.length === 1) return [oneLine];
+  if (maxLines < 2) return null;
+
+  if (maxLines === 2) {
+    let best: string[] | null = null;
+    for (let i = 1; i < words.length; i++) {
+      const lines = [words.slice(0, i).join(' '), words.slice(i).join(' ')];
+      if (lines.some((l) => l.length > maxChars)) continue;
+      if (!best || Math.max(...lines.map((l) => l.length)) < Math.max(...best.map((l) => l.length))) best = lines;
+    }
+    return best;
+  }
+
+  const lines: string[] = [];
+  for (const word of words) {
+    const last = lines[lines.length - 1];
+    if (last !== undefined && last.length + 1 + word.length <= maxChars) {
+      lines[lines.length - 1] = `${last} ${word}`;
+    } else {
+      lines.push(word);
+    }
+  }
+  return lines.length <= maxLines ? lines : null;
+}
+
+export function buildCues(
+  segments: ExportSegment[],
+  options: { prefixSpeakers: boolean; limits?: CaptionLimits },
+): Cue[] {
+  const limits = options.limits ?? DEFAULT_CAPTION_LIMITS;
+  const cues: Cue[] = [];
+
+  for (const segment of segments) {
+    if (segment.kind === 'audio_event') {
+      cues.push({ start_ms: segment.start_ms, end_ms: segment.end_ms, lines: [`[${segment.text}]`], speaker: null });
+      continue;
+    }
+
+    // The speaker prefix goes on the first cue of each segment and counts towards its length
+    const prefix = options.prefixSpeakers ? `${segment.speaker_label}:` : null;
+    const firstCue = cues.length;
+    let current: TimedWord[] = [];
+    const lineWords = (words: TimedWord[]) => {
+      const texts = words.map((w) => w.text);
+      return prefix && cues.length === firstCue ? [prefix, ...texts] : texts;
+    };
+    const closeCue = () => {
+      if (current.length === 0) return;
+      const texts = lineWords(current);
+      cues.push({
+        start_ms: current[0].start_ms,
+        end_ms: current[current.length - 1].end_ms,
+        lines: fitLines(texts, limits.maxLineChars, limits.maxLines) ?? [texts.join(' ')],
+        speaker: segment.speaker_label,
+      });
+      current = [];
+    };
+
+    for (const word of timedWords(segment)) {
+      const fits = fitLines(lineWords([...current, word]), limits.maxLineChars, limits.maxLines);
+      const tooLong = current.length > 0 && word.end_ms - current[0].start_ms > limits.maxDurationMs;
+      if (current.length > 0 && (!fits || tooLong)) closeCue();
+      current.push(word);
+    }
+    closeCue();
+  }
+
+  // Give short cues time to be read, without running into the next one
+  cues.sort((a, b) => a.start_ms - b.start_ms);
+  for (let i = 0; i < cues.length; i++) {
+    const next = cues[i + 1];
+    let end = Math.max(cues[i].end_ms, cues[i].start_ms + limits.minDurationMs);
+    if (next) end = Math.min(end, next.start_ms);
+    cues[i].end_ms = Math.max(end, cues[i].start_ms + 1);
+  }
+  return cues;
+}
+
+function cueTime(ms: number, separator: ',' | '.'): string {
+  const h = Math.floor(ms / 3600000);
+  const m = Math.floor((ms % 3600000) / 60000);
+  const s = Math.floor((ms % 60000) / 1000);
+  const millis = ms % 1000;
+  return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}${separator}${String(millis).padStart(3, '0')}`;
+}
+
+export function toSrt(segments: ExportSegment[], limits?: CaptionLimits): string {
+  return buildCues(segments, { prefixSpeakers: true, limits })
+    .map((cue, i) => `${i + 1}\n${cueTime(cue.start_ms, ',')} --> ${cueTime(cue.end_ms, ',')}\n${cue.lines.join('\n')}\n`)
+    .join('\n');
+}
+
+function escapeVtt(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/** WebVTT with speakers as voice spans, which players can style or show */
+export function toVtt(segments: ExportSegment[], limits?: CaptionLimits): string {
+  const cues = buildCues(segments, { prefixSpeakers: false, limits }).map((cue) => {
+    const text = cue.lines.map(escapeVtt).join('\n');
+    return `${cueTime(cue.start_ms, '.')} --> ${cueTime(cue.end_ms, '.')}\n${cue.speaker ? `<v ${escapeVtt(cue.speaker)}>` : ''}${text}\n`;
+  });
+  return `WEBVTT\n\n${cues.join('\n')}`;
+}
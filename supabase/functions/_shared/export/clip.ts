@@ -0,0 +1,69 @@
+// Clips: a named time range of a meeting together with the transcript it
+// covers. Excerpt times stay relative to the meeting; files made from a clip
+// are timed from the clip's own start so they line up when played alone.
+
+import { formatTimestamp, type ExportSegment } from './document.ts';
+
+export interface ClipExcerpt {
+  title: string;
+  start_ms: number;
+  end_ms: number;
+  segments: ExportSegment[];
+}
+
+/**
+ * The segments overlapping a time range. Segments cut by either end are
+ * trimmed to the words inside the range when word timings are available.
+ */
+export function excerptSegments(segments: ExportSegment[], startMs: number, endMs: number): ExportSegment[] {
+  return segments
+    .filter((s) => s.end_ms > startMs && s.start_ms < endMs)
+    .map((s): ExportSegment => {
+      const base = {
+        kind: s.kind,
+        speaker_id: s.speaker_id,
+        speaker_label: s.speaker_label,
+        start_ms: s.start_ms,
+        end_ms: s.end_ms,
+        text: s.text,
+        meta: s.meta?.words ? { words: s.meta.words } : null,
+      };
+      if (s.start_ms >= startMs && s.end_ms <= endMs) return base;
+
+      const words = s.meta?.words?.filter((w) => w.start_ms >= startMs && w.start_ms < endMs) ?? [];
+      if (s.kind === 'audio_event' || words.length === 0) {
+        return { ...base, start_ms: Math.max(s.start_ms, startMs), end_ms: Math.min(s.end_ms, endMs) };
+      }
+      return {
+        ...base,
+        start_ms: words[0].start_ms,
+        end_ms: Math.min(words[words.length - 1].end_ms, endMs),
+        text: words.filter((w) => w.type !== 'audio_event').map((w) => w.text).join(' '),
+        meta: { words },
+      };
+    })
+    .filter((s) => s.text.trim());
+}
+
+/** The excerpt shifted so the clip starts at zero */
+export function rebaseExcerpt(clip: ClipExcerpt): ExportSegment[] {
+  const shift = (ms: number) => Math.max(0, Math.min(ms, clip.end_ms) - clip.start_ms);
+  return clip.segments.map((s) => ({
+    ...s,
+    start_ms: shift(s.start_ms),
+    end_ms: shift(s.end_ms),
+    meta: s.meta?.words
+      ? { words: s.meta.words.map((w) => ({ ...w, start_ms: shift(w.start_ms), end_ms: shift(w.end_ms) })) }
+      : null,
+  }));
+}
+
+/** Plain-text excerpt; lines carry both the clip time and the meeting time */
+export function clipText(clip: ClipExcerpt, meetingTitle: string): string {
+  const header = `${clip.title}\n${meetingTitle}, ${formatTimestamp(clip.start_ms)} - ${formatTimestamp(clip.end_ms)}`;
+  const lines = clip.segments.map((s) => {
+    const at = `[${formatTimestamp(Math.max(0, s.start_ms - clip.start_ms))} | ${formatTimestamp(s.start_ms)}]`;
+    return s.kind === 'audio_event' ? `${at} [${s.text}]` : `${at} ${s.speaker_label}: ${s.text}`;
+  });
+  return `${header}\n\n${lines.join('\n')}\n`;
+}
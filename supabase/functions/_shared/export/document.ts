@@ -0,0 +1,129 @@
+// The transcript as the export formats see it. Free of runtime-specific APIs:
+// this module is imported by the web app as well as by edge functions.
+
+export interface ExportWord {
+  text: string;
+  start_ms: number;
+  end_ms: number;
+  type?: string;
+}
+
+export interface ExportSegment {
+  kind?: 'speech' | 'audio_event';
+  speaker_id: string;
+  speaker_label: string;
+  start_ms: number;
+  end_ms: number;
+  text: string;
+  meta?: { words?: ExportWord[] } | null;
+}
+
+export interface ExportDocument {
+  title: string;
+  /** ISO timestamp of the meeting */
+  date: string;
+  segments: ExportSegment[];
+  /** Latest summary in Markdown, placed before the transcript */
+  summaryMd?: string | null;
+}
+
+export interface SpeakerTotal {
+  label: string;
+  talkMs: number;
+}
+
+export function formatTimestamp(ms: number): string {
+  const totalSec = Math.floor(ms / 1000);
+  const h = Math.floor(totalSec / 3600);
+  const m = Math.floor((totalSec % 3600) / 60);
+  const s = totalSec % 60;
+  return h > 0
+    ? `${h}:${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}`
+    : `${m}:${String(s).padStart(2, '0')}`;
+}
+
+export function formatDate(iso: string): string {
+  return new Date(iso).toISOString().slice(0, 10);
+}
+
+/** Speakers in order of first appearance, with their total speaking time */
+export function listSpeakers(segments: ExportSegment[]): SpeakerTotal[] {
+  const speakers = new Map<string, SpeakerTotal>();
+  for (const segment of segments) {
+    if (segment.kind === 'audio_event') continue;
+    const entry = speakers.get(segment.speaker_id) ?? { label: segment.speaker_label, talkMs: 0 };
+    entry.talkMs += Math.max(0, segment.end_ms - segment.start_ms);
+    speakers.set(segment.speaker_id, entry);
+  }
+  return [...speakers.values()];
+}
+
+const RTL_CHAR = /[\u0590-\u05FF\u0600-\u06FF\u0750-\u077F\uFB1D-\uFDFF\uFE70-\uFEFF]/;
+const STRONG_CHAR = /[\p{L}]/u;
+
+export function isRtlChar(char: string): boolean {
+  return RTL_CHAR.test(char);
+}
+
+/** Direction of the first strongly directional character, as the Unicode bidi algorithm does */
+export function textDirection(text: string): 'rtl' | 'ltr' {
+  for (const char of text) {
+    if (RTL_CHAR.test(char)) return 'rtl';
+    if (STRONG_CHAR.test(char)) return 'ltr';
+  }
+  return 'ltr';
+}
+
+export interface MarkdownBlock {
+  type: 'heading' | 'bullet' | 'paragraph';
+  /** Heading level, or nesting depth of a bullet */
+  level: number;
+  text: string;
+}
+
+/**
+ * Reduces summary Markdown to the blocks document formats can lay out:
+ * headings, list items and paragraphs. Inline markup is left in the text
+ * for parseInline.
+ */
+export function parseMarkdownBlocks(markdown: string): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  let paragraph: string[] = [];
+  const flush = () => {
+    if (paragraph.length) blocks.push({ type: 'paragraph', level: 0, text: paragraph.join(' ') });
+    paragraph = [];
+  };
+
+  for (const line of markdown.split(/\r?\n/)) {
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    const bullet = line.match(/^(\s*)(?:[-*+]|\d+[.)])\s+(.*)$/);
+    if (heading) {
+      flush();
+      blocks.push({ type: 'heading', level: heading[1].length, text: heading[2].trim() });
+    } else if (bullet) {
+      flush();
+      blocks.push({ type: 'bullet', level: Math.floor(bullet[1].length / 2), text: bullet[2].trim() });
+    } else if (!line.trim()) {
+      flush();
+    } else {
+      paragraph.push(line.trim());
+    }
+  }
+  flush();
+  return blocks;
+}
+
+export interface InlineSpan {
+  text: string;
+  bold: boolean;
+}
+
+/** Splits `**bold**` spans out of a block's text and drops inline code markers */
+export function parseInline(text: string): InlineSpan[] {
+  return text
+    .split(/(\*\*.+?\*\*|__.+?__)/g)
+    .filter(Boolean)
+    .map((part) => (/^(\*\*|__).+\1$/.test(part)
+      ? { text: part.slice(2, -2), bold: true }
+      : { text: part.replace(/`([^`]+)`/g, '$1'), bold: false }));
+}
@@ -0,0 +1,136 @@
+import {
+  formatDate,
+  formatTimestamp,
+  listSpeakers,
+  parseInline,
+  parseMarkdownBlocks,
+  textDirection,
+  type ExportDocument,
+} from './document.ts';
+import { createZip } from './zip.ts';
+
+// Word document: title, date and speakers, the summary (if any) on the first
+// page, then the timestamped transcript. Right-to-left paragraphs are marked
+// as such so Word lays out Hebrew and Arabic correctly.
+
+interface Run {
+  text: string;
+  bold?: boolean;
+  color?: string;
+}
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+</Types>`;
+
+const ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+</Relationships>`;
+
+const DOCUMENT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`;
+
+const heading = (id: string, name: string, size: number) => `<w:style w:type="paragraph" w:styleId="${id}">
+<w:name w:val="${name}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>
+<w:pPr><w:keepNext/><w:spacing w:before="240" w:after="120"/></w:pPr>
+<w:rPr><w:b/><w:bCs/><w:sz w:val="${size}"/><w:szCs w:val="${size}"/></w:rPr>
+</w:style>`;
+
+const STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+<w:docDefaults>
+<w:rPrDefault><w:rPr><w:rFonts w:ascii="Arial" w:hAnsi="Arial" w:cs="Arial"/><w:sz w:val="22"/><w:szCs w:val="22"/></w:rPr></w:rPrDefault>
+<w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault>
+</w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>
+${heading('Title', 'Title', 40)}
+${heading('Heading1', 'heading 1', 30)}
+${heading('Heading2', 'heading 2', 26)}
+${heading('Heading3', 'heading 3', 24)}
+</w:styles>`;
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function run({ text, bold, color }: Run, rtl: boolean): string {
+  const props = [
+    bold ? '<w:b/><w:bCs/>' : '',
+    color ? `<w:color w:val="${color}"/>` : '',
+    rtl ? '<w:rtl/>' : '',
+  ].join('');
+  return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+}
+
+function paragraph(
+  runs: Run[],
+  options: { style?: string; indent?: number; dir?: 'rtl' | 'ltr' } = {},
+): string {
+  const rtl = (options.dir ?? textDirection(runs.map((r) => r.text).join(''))) === 'rtl';
+  const props = [
+    options.style ? `<w:pStyle w:val="${options.style}"/>` : '',
+    options.indent ? `<w:ind w:start="${options.indent}"/>` : '',
+    rtl ? '<w:bidi/>' : '',
+  ].join('');
+  const body = runs.map((r) => run(r, rtl && textDirection(r.text) === 'rtl')).join('');
+  return `<w:p>${props ? `<w:pPr>${props}</w:pPr>` : ''}${body}</w:p>`;
+}
+
+export function toDocx(doc: ExportDocument): Uint8Array {
+  const body: string[] = [
+    paragraph([{ text: doc.title }], { style: 'Title' }),
+    paragraph([{ text: formatDate(doc.date), color: '666666' }]),
+    paragraph([{ text: 'Speakers' }], { style: 'Heading1' }),
+    ...listSpeakers(doc.segments).map((s) => paragraph(
+      [{ text: `• ${s.label}` }, { text: ` (${formatTimestamp(s.talkMs)})`, color: '666666' }],
+      { indent: 360 },
+    )),
+  ];
+
+  if (doc.summaryMd?.trim()) {
+    body.push(paragraph([{ text: 'Summary' }], { style: 'Heading1' }));
+    for (const block of parseMarkdownBlocks(doc.summaryMd)) {
+      if (block.type === 'heading') {
+        body.push(paragraph(parseInline(block.text), { style: block.level <= 2 ? 'Heading2' : 'Heading3' }));
+      } else if (block.type === 'bullet') {
+        body.push(paragraph([{ text: '• ' }, ...parseInline(block.text)], { indent: 360 * (block.level + 1) }));
+      } else {
+        body.push(paragraph(parseInline(block.text)));
+      }
+    }
+    body.push('<w:p><w:r><w:br w:type="page"/></w:r></w:p>');
+  }
+
+  body.push(paragraph([{ text: 'Transcript' }], { style: 'Heading1' }));
+  for (const segment of doc.segments) {
+    const time = { text: `[${formatTimestamp(segment.start_ms)}] `, color: '888888' };
+    body.push(segment.kind === 'audio_event'
+      ? paragraph([time, { text: `[${segment.text}]`, color: '888888' }])
+      : paragraph(
+        [time, { text: `${segment.speaker_label}: `, bold: true }, { text: segment.text }],
+        // Follow the spoken language rather than the (often English) speaker label
+        { dir: textDirection(segment.text) },
+      ));
+  }
+
+  const documentXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+<w:body>${body.join('')}<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1134" w:right="1134" w:bottom="1134" w:left="1134" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr></w:body>
+</w:document>`;
+
+  const encoder = new TextEncoder();
+  return createZip([
+    { name: '[Content_Types].xml', data: encoder.encode(CONTENT_TYPES) },
+    { name: '_rels/.rels', data: encoder.encode(ROOT_RELS) },
+    { name: 'word/_rels/document.xml.rels', data: encoder.encode(DOCUMENT_RELS) },
+    { name: 'word/document.xml', data: encoder.encode(documentXml) },
+    { name: 'word/styles.xml', data: encoder.encode(STYLES) },
+  ]);
+}
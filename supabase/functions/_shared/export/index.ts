@@ -0,0 +1,68 @@
+import type { ExportDocument } from './document.ts';
+import { toSrt, toVtt } from './captions.ts';
+import { toMarkdown } from './markdown.ts';
+import { toDocx } from './docx.ts';
+import { loadPdfFont, toPdf } from './pdf.ts';
+import { clipText, rebaseExcerpt, type ClipExcerpt } from './clip.ts';
+import { createZip } from './zip.ts';
+
+export type { ExportDocument, ExportSegment, ExportWord } from './document.ts';
+export { clipText, excerptSegments, type ClipExcerpt } from './clip.ts';
+
+export type ExportFormat = 'srt' | 'vtt' | 'md' | 'docx' | 'pdf';
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: 'md', label: 'Markdown' },
+  { format: 'srt', label: 'SRT subtitles' },
+  { format: 'vtt', label: 'WebVTT subtitles' },
+  { format: 'docx', label: 'Word' },
+  { format: 'pdf', label: 'PDF' },
+];
+
+export interface ExportFile {
+  content: string | Uint8Array;
+  mime: string;
+  extension: string;
+}
+
+/** Renders the transcript in one format; captions leave out the title page and summary */
+export async function exportTranscript(format: ExportFormat, doc: ExportDocument): Promise<ExportFile> {
+  switch (format) {
+    case 'srt':
+      return { content: toSrt(doc.segments), mime: 'application/x-subrip', extension: 'srt' };
+    case 'vtt':
+      return { content: toVtt(doc.segments), mime: 'text/vtt', extension: 'vtt' };
+    case 'md':
+      return { content: toMarkdown(doc), mime: 'text/markdown', extension: 'md' };
+    case 'docx':
+      return {
+        content: toDocx(doc),
+        mime: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+        extension: 'docx',
+      };
+    case 'pdf':
+      return { content: await toPdf(doc, await loadPdfFont()), mime: 'application/pdf', extension: 'pdf' };
+  }
+}
+
+/** A zip of subtitles timed from the clip's start and the excerpt as text */
+export function exportClipBundle(clip: ClipExcerpt, meetingTitle: string): ExportFile {
+  const encoder = new TextEncoder();
+  const segments = rebaseExcerpt(clip);
+  const name = (extension: string) => exportFileName(clip.title, extension);
+  return {
+    content: createZip([
+      { name: name('srt'), data: encoder.encode(toSrt(segments)) },
+      { name: name('vtt'), data: encoder.encode(toVtt(segments)) },
+      { name: name('txt'), data: encoder.encode(clipText(clip, meetingTitle)) },
+    ]),
+    mime: 'application/zip',
+    extension: 'zip',
+  };
+}
+
+/** File name from the meeting title, keeping Unicode letters */
+export function exportFileName(title: string, extension: string): string {
+  const base = title.trim().replace(/[\\/:*?"<>|\s]+/g, '_').replace(/^_+|_+$/g, '') || 'transcript';
+  return `${base}.${extension}`;
+}
@@ -0,0 +1,22 @@
+import { formatDate, formatTimestamp, listSpeakers, type ExportDocument } from './document.ts';
+
+export function toMarkdown(doc: ExportDocument): string {
+  const lines = [`# ${doc.title}`, '', `Date: ${formatDate(doc.date)}`, '', '## Speakers', ''];
+  for (const speaker of listSpeakers(doc.segments)) {
+    lines.push(`- ${speaker.label} (${formatTimestamp(speaker.talkMs)})`);
+  }
+
+  if (doc.summaryMd?.trim()) {
+    // Demote the summary's own headings below the document title
+    lines.push('', '## Summary', '', doc.summaryMd.trim().replace(/^(#{1,4}) /gm, '##$1 '));
+  }
+
+  lines.push('', '## Transcript', '');
+  for (const segment of doc.segments) {
+    lines.push(segment.kind === 'audio_event'
+      ? `*[${formatTimestamp(segment.start_ms)}] [${segment.text}]*`
+      : `**[${formatTimestamp(segment.start_ms)}] ${segment.speaker_label}:** ${segment.text}`);
+    lines.push('');
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,391 @@
+import {
+  formatDate,
+  formatTimestamp,
+  isRtlChar,
+  listSpeakers,
+  parseInline,
+  parseMarkdownBlocks,
+  textDirection,
+  type ExportDocument,
+} from './document.ts';
+import { parseTrueType, subsetTrueType, type TrueTypeFont } from './truetype.ts';
+import { concatBytes } from './zip.ts';
+
+// A4 PDF with the same layout as the Word export. The standard PDF fonts have
+// no Hebrew, so a Unicode TrueType font is embedded and text is written as
+// glyph ids. Right-to-left runs are put in visual order with a simplified
+// bidi pass; Arabic letters are not shaped.
+
+// DejaVu Sans ships with the code (fonts/LICENSE): Vite emits it as an asset
+// for the browser, and send_email deploys it as a static file (config.toml)
+const PDF_FONT_URL = new URL('./fonts/DejaVuSans.ttf', import.meta.url);
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 56;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+
+type Rgb = [number, number, number];
+const GRAY: Rgb = [0.45, 0.45, 0.45];
+
+interface Run {
+  text: string;
+  bold?: boolean;
+  color?: Rgb;
+}
+
+interface Block {
+  runs: Run[];
+  size: number;
+  dir?: 'rtl' | 'ltr';
+  indent?: number;
+  before?: number;
+  after?: number;
+}
+
+interface Glyph {
+  char: string;
+  gid: number;
+  width: number;
+  run: Run;
+}
+
+let fontRequest: Promise<Uint8Array> | null = null;
+
+/** Reads the embedded font once per runtime */
+export function loadPdfFont(): Promise<Uint8Array> {
+  if (!fontRequest) {
+    fontRequest = readFontFile(PDF_FONT_URL);
+    fontRequest.catch(() => { fontRequest = null; });
+  }
+  return fontRequest;
+}
+
+async function readFontFile(url: URL): Promise<Uint8Array> {
+  // Edge Functions read static files from disk rather than fetching them
+  const deno = (globalThis as { Deno?: { readFile(path: URL): Promise<Uint8Array> } }).Deno;
+  if (url.protocol === 'file:' && deno) return deno.readFile(url);
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Could not load the PDF font (${res.status})`);
+  return new Uint8Array(await res.arrayBuffer());
+}
+
+export async function toPdf(doc: ExportDocument, fontBytes: Uint8Array): Promise<Uint8Array> {
+  const font = parseTrueType(fontBytes);
+  const used = new Map<number, string>();
+  const pages = layout(documentBlocks(doc), font, used);
+  return writePdf(doc.title, pages, font, used);
+}
+
+function documentBlocks(doc: ExportDocument): (Block | 'page')[] {
+  const heading = (text: string, size = 14): Block => ({ runs: [{ text, bold: true }], size, before: 10, after: 4 });
+  const blocks: (Block | 'page')[] = [
+    { runs: [{ text: doc.title, bold: true }], size: 20, after: 4 },
+    { runs: [{ text: formatDate(doc.date), color: GRAY }], size: 11, after: 8 },
+    heading('Speakers'),
+    ...listSpeakers(doc.segments).map((s): Block => ({
+      runs: [{ text: `• ${s.label}` }, { text: ` (${formatTimestamp(s.talkMs)})`, color: GRAY }],
+      size: 10.5,
+      indent: 14,
+    })),
+  ];
+
+  if (doc.summaryMd?.trim()) {
+    blocks.push(heading('Summary'));
+    for (const block of parseMarkdownBlocks(doc.summaryMd)) {
+      if (block.type === 'heading') {
+        blocks.push({ ...heading('', 12), runs: parseInline(block.text).map((s) => ({ ...s, bold: true })) });
+      } else if (block.type === 'bullet') {
+        blocks.push({ runs: [{ text: '• ' }, ...parseInline(block.text)], size: 10.5, indent: 14 * (block.level + 1), after: 2 });
+      } else {
+        blocks.push({ runs: parseInline(block.text), size: 10.5, after: 6 });
+      }
+    }
+    blocks.push('page');
+  }
+
+  blocks.push(heading('Transcript'));
+  for (const segment of doc.segments) {
+    const time: Run = { text: `[${formatTimestamp(segment.start_ms)}] `, color: GRAY };
+    blocks.push(segment.kind === 'audio_event'
+      ? { runs: [time, { text: `[${segment.text}]`, color: GRAY }], size: 10.5, after: 4 }
+      : {
+        runs: [time, { text: `${segment.speaker_label}: `, bold: true }, { text: segment.text }],
+        size: 10.5,
+        dir: textDirection(segment.text),
+        after: 4,
+      });
+  }
+  return blocks;
+}
+
+/** Content stream operators per page, with `used` collecting glyph ids and their characters */
+function layout(blocks: (Block | 'page')[], font: TrueTypeFont, used: Map<number, string>): string[][] {
+  const pages: string[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+  const newPage = () => {
+    pages.push([]);
+    y = PAGE_HEIGHT - MARGIN;
+  };
+
+  for (const block of blocks) {
+    if (block === 'page') {
+      newPage();
+      continue;
+    }
+    const dir = block.dir ?? textDirection(block.runs.map((r) => r.text).join(''));
+    const indent = block.indent ?? 0;
+    const lineHeight = block.size * 1.4;
+    if (y < PAGE_HEIGHT - MARGIN) y -= block.before ?? 0;
+
+    const glyphs: Glyph[] = [];
+    for (const run of block.runs) {
+      for (const char of run.text.replace(/\s+/g, ' ')) {
+        const gid = font.glyphs.get(char.codePointAt(0)!) ?? 0;
+        glyphs.push({ char, gid, width: (font.advances[gid] * block.size) / font.unitsPerEm, run });
+      }
+    }
+
+    for (const line of wrap(glyphs, CONTENT_WIDTH - indent)) {
+      if (y - lineHeight < MARGIN) newPage();
+      const width = line.reduce((sum, g) => sum + g.width, 0);
+      let x = dir === 'rtl' ? PAGE_WIDTH - MARGIN - indent - width : MARGIN + indent;
+      const baseline = y - block.size;
+      // Each styled run is reordered on its own, like a bidi isolate, so
+      // timestamps and speaker labels stay intact next to Hebrew text
+      const runs = chunks(line).map((chunk) => visualOrder(chunk, dir, font, block.size));
+      if (dir === 'rtl') runs.reverse();
+      for (const chunk of runs) {
+        pages[pages.length - 1].push(drawText(chunk, x, baseline, block.size));
+        for (const g of chunk) used.set(g.gid, g.char);
+        x += chunk.reduce((sum, g) => sum + g.width, 0);
+      }
+      y -= lineHeight;
+    }
+    y -= block.after ?? 0;
+  }
+
+  // Page numbers, once the page count is known
+  pages.forEach((ops, i) => {
+    const label = `${i + 1} / ${pages.length}`;
+    const run: Run = { text: label, color: GRAY };
+    const glyphs = [...label].map((char) => {
+      const gid = font.glyphs.get(char.codePointAt(0)!) ?? 0;
+      used.set(gid, char);
+      return { char, gid, width: (font.advances[gid] * 9) / font.unitsPerEm, run };
+    });
+    const width = glyphs.reduce((sum, g) => sum + g.width, 0);
+    ops.push(drawText(glyphs, (PAGE_WIDTH - width) / 2, MARGIN / 2, 9));
+  });
+  return pages;
+}
+
+/** Greedy line breaking at spaces; words wider than a line are broken anywhere */
+function wrap(glyphs: Glyph[], maxWidth: number): Glyph[][] {
+  const lines: Glyph[][] = [];
+  let start = 0;
+  let width = 0;
+  let lastSpace = -1;
+  for (let i = 0; i < glyphs.length; i++) {
+    if (glyphs[i].char === ' ') lastSpace = i;
+    width += glyphs[i].width;
+    if (width > maxWidth && glyphs[i].char !== ' ' && i > start) {
+      const atSpace = lastSpace > start;
+      lines.push(glyphs.slice(start, atSpace ? lastSpace : i));
+      start = atSpace ? lastSpace + 1 : i;
+      width = glyphs.slice(start, i + 1).reduce((sum, g) => sum + g.width, 0);
+      lastSpace = -1;
+    }
+  }
+  lines.push(glyphs.slice(start));
+  return lines;
+}
+
+const MIRRORED: Record<string, string> = { '(': ')', ')': '(', '[': ']', ']': '[', '{': '}', '}': '{', '<': '>', '>': '<', '«': '»', '»': '«' };
+const STRONG_LTR = /[\p{L}\p{N}]/u;
+
+/**
+ * Reorders glyphs for display: characters get embedding levels (right-to-left
+ * letters odd, everything else even, neutrals taking the level of matching
+ * neighbours) and runs are reversed from the highest level down, as in rule L2
+ * of the Unicode bidi algorithm.
+ */
+function visualOrder(line: Glyph[], dir: 'rtl' | 'ltr', font: TrueTypeFont, size: number): Glyph[] {
+  const strong = line.map((g) => (isRtlChar(g.char) ? 'rtl' : STRONG_LTR.test(g.char) ? 'ltr' : null));
+  if (dir === 'ltr' && !strong.includes('rtl')) return line;
+
+  const before: ('rtl' | 'ltr')[] = [];
+  for (let i = 0; i < line.length; i++) before.push(strong[i] ?? (i > 0 ? before[i - 1] : dir));
+  const after: ('rtl' | 'ltr')[] = new Array(line.length);
+  for (let i = line.length - 1; i >= 0; i--) after[i] = strong[i] ?? (i < line.length - 1 ? after[i + 1] : dir);
+
+  const levelOf = (d: 'rtl' | 'ltr') => (d === 'rtl' ? 1 : dir === 'rtl' ? 2 : 0);
+  const levels = line.map((_, i) => levelOf(strong[i] ?? (before[i] === after[i] ? before[i] : dir)));
+  const order = line.map((_, i) => i);
+
+  for (let level = Math.max(...levels); level >= 1; level--) {
+    let i = 0;
+    while (i < order.length) {
+      if (levels[order[i]] < level) {
+        i++;
+        continue;
+      }
+      let j = i;
+      while (j < order.length && levels[order[j]] >= level) j++;
+      order.splice(i, j - i, ...order.slice(i, j).reverse());
+      i = j;
+    }
+  }
+
+  return order.map((i) => {
+    const mirror = levels[i] % 2 === 1 ? MIRRORED[line[i].char] : undefined;
+    if (!mirror) return line[i];
+    const gid = font.glyphs.get(mirror.codePointAt(0)!) ?? 0;
+    return { ...line[i], char: mirror, gid, width: (font.advances[gid] * size) / font.unitsPerEm };
+  });
+}
+
+/** Consecutive glyphs of the same run */
+function chunks(glyphs: Glyph[]): Glyph[][] {
+  const result: Glyph[][] = [];
+  for (const g of glyphs) {
+    const last = result[result.length - 1];
+    if (last && last[0].run === g.run) last.push(g);
+    else result.push([g]);
+  }
+  return result;
+}
+
+function drawText(glyphs: Glyph[], x: number, y: number, size: number): string {
+  const { bold, color = [0, 0, 0] } = glyphs[0].run;
+  const rgb = color.map(num).join(' ');
+  // One embedded face only, so bold is drawn with a thin outline stroke
+  const weight = bold ? `${num(size * 0.035)} w 2 Tr ${rgb} RG` : '0 Tr';
+  const hex = glyphs.map((g) => g.gid.toString(16).padStart(4, '0')).join('');
+  return `BT /F1 ${num(size)} Tf ${rgb} rg ${weight} 1 0 0 1 ${num(x)} ${num(y)} Tm <${hex}> Tj ET`;
+}
+
+function num(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+/** PDF text string in UTF-16BE, for the document title */
+function textString(text: string): string {
+  let hex = 'FEFF';
+  for (let i = 0; i < text.length; i++) hex += text.charCodeAt(i).toString(16).padStart(4, '0');
+  return `<${hex}>`;
+}
+
+async function deflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function toUnicodeCMap(used: Map<number, string>): string {
+  const entries = [...used].sort(([a], [b]) => a - b).map(([gid, char]) => {
+    let unicode = '';
+    for (let i = 0; i < char.length; i++) unicode += char.charCodeAt(i).toString(16).padStart(4, '0');
+    return `<${gid.toString(16).padStart(4, '0')}> <${unicode}>`;
+  });
+  const sections: string[] = [];
+  for (let i = 0; i < entries.length; i += 100) {
+    const part = entries.slice(i, i + 100);
+    sections.push(`${part.length} beginbfchar\n${part.join('\n')}\nendbfchar`);
+  }
+  return [
+    '/CIDInit /ProcSet findresource begin',
+    '12 dict begin',
+    'begincmap',
+    '/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def',
+    '/CMapName /Adobe-Identity-UCS def',
+    '/CMapType 2 def',
+    '1 begincodespacerange\n<0000> <FFFF>\nendcodespacerange',
+    ...sections,
+    'endcmap',
+    'CMapName currentdict /CMap defineresource pop',
+    'end',
+    'end',
+  ].join('\n');
+}
+
+/** Six capital letters derived from the glyph ids */
+function subsetTag(gids: Iterable<number>): string {
+  let hash = 0;
+  for (const gid of gids) hash = (Math.imul(hash, 31) + gid) >>> 0;
+  let tag = '';
+  for (let i = 0; i < 6; i++) {
+    tag += String.fromCharCode(65 + (hash % 26));
+    hash = Math.floor(hash / 26);
+  }
+  return tag;
+}
+
+async function writePdf(title: string, pages: string[][], font: TrueTypeFont, used: Map<number, string>): Promise<Uint8Array> {
+  const encoder = new TextEncoder();
+  const scale = (units: number) => Math.round((units * 1000) / font.unitsPerEm);
+  const widths = [...used.keys()].sort((a, b) => a - b).map((gid) => `${gid} [${scale(font.advances[gid])}]`);
+  // Only the glyphs on the pages; the whole font would add ~750KB to every PDF
+  const fontFile = subsetTrueType(font.bytes, used.keys());
+  // Subset fonts are named with a tag unique to the glyph set (PDF 32000 9.6.4)
+  const baseFont = `${subsetTag(used.keys())}+${font.name}`;
+
+  // Fixed objects first, then a page and its content stream per page
+  const objects: { dict: string; stream?: Uint8Array }[] = [
+    { dict: '<< /Type /Catalog /Pages 2 0 R >>' },
+    { dict: `<< /Type /Pages /Kids [${pages.map((_, i) => `${9 + i * 2} 0 R`).join(' ')}] /Count ${pages.length} >>` },
+    { dict: `<< /Type /Font /Subtype /Type0 /BaseFont /${baseFont} /Encoding /Identity-H /DescendantFonts [4 0 R] /ToUnicode 7 0 R >>` },
+    {
+      dict: `<< /Type /Font /Subtype /CIDFontType2 /BaseFont /${baseFont} `
+        + '/CIDSystemInfo << /Registry (Adobe) /Ordering (Identity) /Supplement 0 >> '
+        + `/FontDescriptor 5 0 R /DW 1000 /W [${widths.join(' ')}] /CIDToGIDMap /Identity >>`,
+    },
+    {
+      dict: `<< /Type /FontDescriptor /FontName /${baseFont} /Flags 32 /FontBBox [${font.bbox.map(scale).join(' ')}] `
+        + `/ItalicAngle 0 /Ascent ${scale(font.ascent)} /Descent ${scale(font.descent)} /CapHeight ${scale(font.ascent)} `
+        + '/StemV 80 /FontFile2 6 0 R >>',
+    },
+    { dict: `<< /Length1 ${fontFile.length}`, stream: await deflate(fontFile) },
+    { dict: '<<', stream: await deflate(encoder.encode(toUnicodeCMap(used))) },
+    { dict: `<< /Title ${textString(title)} /Producer (Meeting notes export) >>` },
+  ];
+  for (const [i, ops] of pages.entries()) {
+    objects.push({
+      dict: `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] `
+        + `/Resources << /Font << /F1 3 0 R >> >> /Contents ${10 + i * 2} 0 R >>`,
+    });
+    objects.push({ dict: '<<', stream: await deflate(encoder.encode(ops.join('\n'))) });
+  }
+
+  const parts: Uint8Array[] = [encoder.encode('%PDF-1.7\n%âãÏÓ\n')];
+  const offsets: number[] = [];
+  let length = parts[0].length;
+  const push = (bytes: Uint8Array) => {
+    parts.push(bytes);
+    length += bytes.length;
+  };
+
+  objects.forEach(({ dict, stream }, i) => {
+    offsets.push(length);
+    if (stream) {
+      push(encoder.encode(`${i + 1} 0 obj\n${dict} /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`));
+      push(stream);
+      push(encoder.encode('\nendstream\nendobj\n'));
+    } else {
+      push(encoder.encode(`${i + 1} 0 obj\n${dict}\nendobj\n`));
+    }
+  });
+
+  const xref = [
+    'xref',
+    `0 ${objects.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${objects.length + 1} /Root 1 0 R /Info 8 0 R >>`,
+    'startxref',
+    String(length),
+    '%%EOF',
+  ];
+  push(encoder.encode(xref.join('\n') + '\n'));
+  return concatBytes(parts);
+}
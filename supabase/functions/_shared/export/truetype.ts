@@ -0,0 +1,223 @@
+import { concatBytes } from './zip.ts';
+
+// Reads the few TrueType tables the PDF writer needs: glyph lookup, advance
+// widths and the vertical metrics for the font descriptor. Also cuts the font
+// down to the glyphs a document uses before it is embedded.
+
+export interface TrueTypeFont {
+  bytes: Uint8Array;
+  /** PostScript-safe name for the PDF font dictionaries */
+  name: string;
+  unitsPerEm: number;
+  ascent: number;
+  descent: number;
+  bbox: [number, number, number, number];
+  /** Unicode code point to glyph id */
+  glyphs: Map<number, number>;
+  /** Advance width per glyph id, in font units */
+  advances: number[];
+}
+
+interface TableRecord {
+  offset: number;
+  length: number;
+}
+
+/**
+ * Tables a PDF reader needs from an embedded TrueType font (PDF 32000 9.9);
+ * cmap, names and layout tables are left out since the PDF maps glyphs itself.
+ */
+const EMBEDDED_TABLES = ['head', 'hhea', 'maxp', 'hmtx', 'loca', 'glyf', 'cvt ', 'fpgm', 'prep'];
+
+function readTables(bytes: Uint8Array, view: DataView) {
+  const tables = new Map<string, TableRecord>();
+  const numTables = view.getUint16(4);
+  for (let i = 0; i < numTables; i++) {
+    const record = 12 + i * 16;
+    const tag = String.fromCharCode(...bytes.subarray(record, record + 4));
+    tables.set(tag, { offset: view.getUint32(record + 8), length: view.getUint32(record + 12) });
+  }
+  const table = (tag: string) => {
+    const record = tables.get(tag);
+    if (record === undefined) throw new Error(`Font is missing the ${tag} table`);
+    return record;
+  };
+  return { tables, table };
+}
+
+export function parseTrueType(bytes: Uint8Array): TrueTypeFont {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const { table: record } = readTables(bytes, view);
+  const table = (tag: string) => record(tag).offset;
+
+  const head = table('head');
+  const hhea = table('hhea');
+  const numGlyphs = view.getUint16(table('maxp') + 4);
+  const numMetrics = view.getUint16(hhea + 34);
+
+  const advances: number[] = [];
+  const hmtx = table('hmtx');
+  for (let gid = 0; gid < numGlyphs; gid++) {
+    // Glyphs past the last metric reuse its advance
+    advances.push(view.getUint16(hmtx + Math.min(gid, numMetrics - 1) * 4));
+  }
+
+  return {
+    bytes,
+    name: 'ExportSans',
+    unitsPerEm: view.getUint16(head + 18),
+    ascent: view.getInt16(hhea + 4),
+    descent: view.getInt16(hhea + 6),
+    bbox: [view.getInt16(head + 36), view.getInt16(head + 38), view.getInt16(head + 40), view.getInt16(head + 42)],
+    glyphs: readCmap(view, table('cmap')),
+    advances,
+  };
+}
+
+/** Unicode BMP mapping from the first format 4 subtable (Windows or Unicode platform) */
+function readCmap(view: DataView, cmap: number): Map<number, number> {
+  const glyphs = new Map<number, number>();
+  const count = view.getUint16(cmap + 2);
+  for (let i = 0; i < count; i++) {
+    const platform = view.getUint16(cmap + 4 + i * 8);
+    const encoding = view.getUint16(cmap + 6 + i * 8);
+    const subtable = cmap + view.getUint32(cmap + 8 + i * 8);
+    if (!(platform === 3 && encoding === 1) && platform !== 0) continue;
+    if (view.getUint16(subtable) !== 4) continue;
+
+    const segCount = view.getUint16(subtable + 6) / 2;
+    const ends = subtable + 14;
+    const starts = ends + segCount * 2 + 2;
+    const deltas = starts + segCount * 2;
+    const rangeOffsets = deltas + segCount * 2;
+    for (let s = 0; s < segCount; s++) {
+      const end = view.getUint16(ends + s * 2);
+      const start = view.getUint16(starts + s * 2);
+      const delta = view.getInt16(deltas + s * 2);
+      const rangeOffset = view.getUint16(rangeOffsets + s * 2);
+      for (let code = start; code <= end && code !== 0xffff; code++) {
+        let gid: number;
+        if (rangeOffset === 0) {
+          gid = (code + delta) & 0xffff;
+        } else {
+          gid = view.getUint16(rangeOffsets + s * 2 + rangeOffset + (code - start) * 2);
+          if (gid !== 0) gid = (gid + delta) & 0xffff;
+        }
+        if (gid !== 0) glyphs.set(code, gid);
+      }
+    }
+    return glyphs;
+  }
+  throw new Error('Font has no Unicode character map');
+}
+
+/**
+ * A copy of the font in which only the given glyphs (and the parts composite
+ * glyphs are built from) keep their outlines. Glyph ids stay the same, so the
+ * PDF can keep mapping CIDs to glyphs one to one.
+ */
+export function subsetTrueType(bytes: Uint8Array, gids: Iterable<number>): Uint8Array {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const { tables, table } = readTables(bytes, view);
+  const head = table('head').offset;
+  const loca = table('loca').offset;
+  const glyf = table('glyf').offset;
+  const numGlyphs = view.getUint16(table('maxp').offset + 4);
+  const shortLoca = view.getInt16(head + 50) === 0;
+  const glyphStart = (gid: number) => glyf + (shortLoca ? view.getUint16(loca + gid * 2) * 2 : view.getUint32(loca + gid * 4));
+  const glyphEnd = (gid: number) => glyphStart(gid + 1);
+
+  // Glyph 0 is the .notdef box readers fall back to
+  const keep = new Set<number>();
+  const pending = [0, ...gids];
+  while (pending.length > 0) {
+    const gid = pending.pop()!;
+    if (keep.has(gid) || gid >= numGlyphs) continue;
+    keep.add(gid);
+    const start = glyphStart(gid);
+    if (glyphEnd(gid) === start || view.getInt16(start) >= 0) continue;
+    // Composite glyph: flags and glyph id per component, then its arguments and transform
+    let at = start + 10;
+    for (let more = true; more;) {
+      const flags = view.getUint16(at);
+      pending.push(view.getUint16(at + 2));
+      at += 4 + (flags & 0x1 ? 4 : 2) + (flags & 0x8 ? 2 : flags & 0x40 ? 4 : flags & 0x80 ? 8 : 0);
+      more = (flags & 0x20) !== 0;
+    }
+  }
+
+  // Unused glyphs become empty; offsets are rewritten in the long loca format
+  const outlines: Uint8Array[] = [];
+  const newLoca = new Uint8Array((numGlyphs + 1) * 4);
+  const locaView = new DataView(newLoca.buffer);
+  let glyfLength = 0;
+  for (let gid = 0; gid < numGlyphs; gid++) {
+    locaView.setUint32(gid * 4, glyfLength);
+    if (!keep.has(gid)) continue;
+    const outline = bytes.subarray(glyphStart(gid), glyphEnd(gid));
+    outlines.push(outline, new Uint8Array(pad4(outline.length) - outline.length));
+    glyfLength += pad4(outline.length);
+  }
+  locaView.setUint32(numGlyphs * 4, glyfLength);
+
+  const newHead = bytes.slice(head, head + table('head').length);
+  const headView = new DataView(newHead.buffer);
+  headView.setUint32(8, 0);
+  headView.setInt16(50, 1);
+
+  const output = new Map<string, Uint8Array>();
+  for (const tag of EMBEDDED_TABLES) {
+    const record = tables.get(tag);
+    if (!record) continue;
+    if (tag === 'head') output.set(tag, newHead);
+    else if (tag === 'loca') output.set(tag, newLoca);
+    else if (tag === 'glyf') output.set(tag, concatBytes(outlines));
+    else output.set(tag, bytes.subarray(record.offset, record.offset + record.length));
+  }
+  return writeTrueType(output);
+}
+
+function pad4(length: number): number {
+  return (length + 3) & ~3;
+}
+
+function checksum(data: Uint8Array): number {
+  const padded = new Uint8Array(pad4(data.length));
+  padded.set(data);
+  const view = new DataView(padded.buffer);
+  let sum = 0;
+  for (let i = 0; i < padded.length; i += 4) sum = (sum + view.getUint32(i)) >>> 0;
+  return sum;
+}
+
+/** Table directory sorted by tag, tables 4-byte aligned, head checksum adjusted */
+function writeTrueType(tables: Map<string, Uint8Array>): Uint8Array {
+  const tags = [...tables.keys()].sort();
+  const headerLength = 12 + tags.length * 16;
+  const length = tags.reduce((sum, tag) => sum + pad4(tables.get(tag)!.length), headerLength);
+  const font = new Uint8Array(length);
+  const view = new DataView(font.buffer);
+
+  const entrySelector = Math.floor(Math.log2(tags.length));
+  view.setUint32(0, 0x00010000);
+  view.setUint16(4, tags.length);
+  view.setUint16(6, 2 ** entrySelector * 16);
+  view.setUint16(8, entrySelector);
+  view.setUint16(10, tags.length * 16 - 2 ** entrySelector * 16);
+
+  let offset = headerLength;
+  let headOffset = 0;
+  for (const [i, tag] of tags.entries()) {
+    const data = tables.get(tag)!;
+    const record = 12 + i * 16;
+    for (let c = 0; c < 4; c++) font[record + c] = tag.charCodeAt(c);
+    view.setUint32(record + 4, checksum(data));
+    view.setUint32(record + 8, offset);
+    view.setUint32(record + 12, data.length);
+    font.set(data, offset);
+    if (tag === 'head') headOffset = offset;
+    offset += pad4(data.length);
+  }
+  view.setUint32(headOffset + 8, (0xb1b0afba - checksum(font)) >>> 0);
+  return font;
+}
@@ -0,0 +1,156 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import type { NormalizedTranscript, NormalizedWord, TranscriptionProvider } from './providers/index.ts';
+
+export interface GlossaryEntry {
+  term: string;
+  /** Known misrecognitions, rewritten to the term after transcription */
+  aliases: string[];
+}
+
+interface Pattern {
+  tokens: string[];
+  term: string;
+}
+
+/** Meeting-specific terms first, then the organization glossary, without duplicates */
+export async function loadGlossary(supabase: SupabaseClient, meetingId: string): Promise<GlossaryEntry[]> {
+  const [{ data: meeting }, { data: terms }] = await Promise.all([
+    supabase.from('meetings').select('custom_terms').eq('id', meetingId).single(),
+    supabase.from('glossary_terms').select('term, aliases').order('term'),
+  ]);
+
+  const entries = new Map<string, GlossaryEntry>();
+  for (const term of (meeting?.custom_terms ?? []) as string[]) {
+    if (term.trim()) entries.set(term.trim().toLowerCase(), { term: term.trim(), aliases: [] });
+  }
+  for (const entry of (terms ?? []) as GlossaryEntry[]) {
+    const key = entry.term.trim().toLowerCase();
+    const existing = entries.get(key);
+    if (existing) {
+      existing.aliases.push(...entry.aliases);
+    } else {
+      entries.set(key, { term: entry.term.trim(), aliases: [...entry.aliases] });
+    }
+  }
+  return [...entries.values()];
+}
+
+/** The terms that fit the provider's biasing limits, in priority order */
+export function selectKeyterms(
+  glossary: GlossaryEntry[],
+  limits: TranscriptionProvider['keytermLimits'],
+): string[] {
+  if (!limits) return [];
+  return glossary
+    .map((entry) => entry.term)
+    .filter((term) => term.length <= limits.maxLength)
+    .slice(0, limits.maxTerms);
+}
+
+/**
+ * Rewrites aliases to their glossary term everywhere. Terms the provider was
+ * not biased with are also matched case-insensitively. Nothing is rewritten
+ * on similarity alone: a near miss is as likely an ordinary word, and the
+ * change would be invisible. Timings of multi-word matches are merged into
+ * the first word.
+ */
+export function correctTranscript(
+  transcript: NormalizedTranscript,
+  glossary: GlossaryEntry[],
+  biasedTerms: string[],
+): NormalizedTranscript {
+  if (glossary.length === 0) return transcript;
+
+  const biased = new Set(biasedTerms.map((t) => t.toLowerCase()));
+  const patterns: Pattern[] = [];
+  for (const entry of glossary) {
+    for (const alias of entry.aliases) {
+      patterns.push({ tokens: tokenize(alias), term: entry.term });
+    }
+    if (!biased.has(entry.term.toLowerCase())) {
+      patterns.push({ tokens: tokenize(entry.term), term: entry.term });
+    }
+  }
+  // Longest match wins
+  patterns.sort((a, b) => b.tokens.length - a.tokens.length);
+
+  if (transcript.words.length === 0) {
+    // Text-only results: correct whitespace-separated tokens without timings
+    const words = transcript.text.split(/\s+/).filter(Boolean).map((text) => ({
+      text, start_ms: 0, end_ms: 0, speaker_id: null, type: 'word' as const, confidence: null,
+    }));
+    const corrected = correctWords(words, patterns);
+    return { ...transcript, text: corrected.map((w) => w.text).join(' ') };
+  }
+
+  const words = correctWords(transcript.words, patterns);
+  return { ...transcript, words };
+}
+
+function correctWords(words: NormalizedWord[], patterns: Pattern[]): NormalizedWord[] {
+  const result: NormalizedWord[] = [];
+  let i = 0;
+  while (i < words.length) {
+    const word = words[i];
+    if (word.type !== 'word') {
+      result.push(word);
+      i++;
+      continue;
+    }
+
+    const match = matchPattern(words, i, patterns);
+    if (match) {
+      const last = words[match.end - 1];
+      result.push({
+        ...word,
+        text: leadingPunctuation(word.text) + match.term + trailingPunctuation(last.text),
+        end_ms: last.end_ms,
+      });
+      i = match.end;
+      continue;
+    }
+
+    result.push(word);
+    i++;
+  }
+  return result;
+}
+
+/** Matches pattern tokens against consecutive words, skipping spacing between them */
+function matchPattern(words: NormalizedWord[], start: number, patterns: Pattern[]) {
+  for (const pattern of patterns) {
+    if (pattern.tokens.length === 0) continue;
+    let index = start;
+    let matched = 0;
+    while (matched < pattern.tokens.length && index < words.length) {
+      const word = words[index];
+      if (word.type === 'spacing' && matched > 0) {
+        index++;
+        continue;
+      }
+      if (word.type !== 'word' || normalizeToken(word.text) !== pattern.tokens[matched]) break;
+      matched++;
+      index++;
+    }
+    if (matched === pattern.tokens.length) {
+      return { end: index, term: pattern.term };
+    }
+  }
+  return null;
+}
+
+function tokenize(text: string): string[] {
+  return text.split(/\s+/).map(normalizeToken).filter(Boolean);
+}
+
+function normalizeToken(text: string): string {
+  return text.trim().toLowerCase().replace(/^[\p{P}\p{S}]+|[\p{P}\p{S}]+$/gu, '');
+}
+
+function leadingPunctuation(text: string): string {
+  return text.trim().match(/^[\p{P}\p{S}]*/u)![0];
+}
+
+function trailingPunctuation(text: string): string {
+  return text.trim().match(/[\p{P}\p{S}]*$/u)![0];
+}
@@ -0,0 +1,76 @@
+// Local language detection for transcript segments. Providers report one
+// language per transcript; the script a segment is written in tells Hebrew,
+// Arabic and Cyrillic apart from Latin text, which is enough to pick the
+// right language code and text direction for mixed meetings.
+
+type Script = 'hebrew' | 'arabic' | 'cyrillic' | 'latin';
+
+const SCRIPT_PATTERNS: Record<Script, RegExp> = {
+  hebrew: /[\u0590-\u05FF\uFB1D-\uFB4F]/g,
+  arabic: /[\u0600-\u06FF\u0750-\u077F]/g,
+  cyrillic: /[\u0400-\u04FF]/g,
+  latin: /[A-Za-z\u00C0-\u024F]/g,
+};
+
+/** Language assumed for a script when the transcript language doesn't use it */
+const SCRIPT_DEFAULTS: Record<Script, string> = {
+  hebrew: 'he',
+  arabic: 'ar',
+  cyrillic: 'ru',
+  latin: 'en',
+};
+
+const LANGUAGE_SCRIPTS: Record<string, Script> = {
+  he: 'hebrew',
+  yi: 'hebrew',
+  ar: 'arabic',
+  fa: 'arabic',
+  ur: 'arabic',
+  ru: 'cyrillic',
+  uk: 'cyrillic',
+  bg: 'cyrillic',
+};
+
+// ElevenLabs reports ISO 639-3 codes
+const ISO_639_3: Record<string, string> = {
+  heb: 'he',
+  eng: 'en',
+  ara: 'ar',
+  rus: 'ru',
+  fra: 'fr',
+  spa: 'es',
+  deu: 'de',
+  yid: 'yi',
+  fas: 'fa',
+  ukr: 'uk',
+  amh: 'am',
+};
+
+export function normalizeLanguageCode(code: string | null | undefined): string | null {
+  if (!code) return null;
+  const lower = code.toLowerCase().split(/[-_]/)[0];
+  return ISO_639_3[lower] ?? lower;
+}
+
+/**
+ * Picks the segment's language from its dominant script. The transcript-level
+ * language wins when it is written in that script, so French stays French;
+ * otherwise the script's default language is used. Null when the text has no
+ * letters at all.
+ */
+export function detectLanguage(text: string, transcriptLanguage?: string | null): string | null {
+  let dominant: Script | null = null;
+  let best = 0;
+  for (const script of Object.keys(SCRIPT_PATTERNS) as Script[]) {
+    const count = text.match(SCRIPT_PATTERNS[script])?.length ?? 0;
+    if (count > best) {
+      dominant = script;
+      best = count;
+    }
+  }
+  if (!dominant) return normalizeLanguageCode(transcriptLanguage);
+
+  const fallback = normalizeLanguageCode(transcriptLanguage);
+  if (fallback && (LANGUAGE_SCRIPTS[fallback] ?? 'latin') === dominant) return fallback;
+  return SCRIPT_DEFAULTS[dominant];
+}
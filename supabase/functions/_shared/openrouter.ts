@@ -0,0 +1,123 @@
+// OpenRouter chat completions, shared by the summary and speaker suggestion
+// functions. Model defaults come from app_settings.
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatSettings {
+  model: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+export interface ChatCompletion {
+  content: string;
+  /** "stop" when the model finished; "length" or "content_filter" cut the answer off */
+  finishReason: string | null;
+  raw: unknown;
+}
+
+interface SettingsRow {
+  openrouter_default_model?: string | null;
+  openrouter_temperature?: number | null;
+  openrouter_max_tokens?: number | null;
+}
+
+export function chatSettings(settings: SettingsRow | null, modelId?: string): ChatSettings {
+  return {
+    model: modelId || settings?.openrouter_default_model || 'anthropic/claude-sonnet-4-5-20250929',
+    temperature: settings?.openrouter_temperature ?? 0.2,
+    maxTokens: settings?.openrouter_max_tokens ?? 1200,
+  };
+}
+
+async function requestChatCompletion(
+  settings: ChatSettings,
+  messages: ChatMessage[],
+  extra: Record<string, unknown>,
+  signal?: AbortSignal,
+): Promise<Response> {
+  const apiKey = Deno.env.get('OPENROUTER_API_KEY');
+  if (!apiKey) throw new Error('OpenRouter API key not configured');
+
+  const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${apiKey}`,
+      'Content-Type': 'application/json',
+      'HTTP-Referer': Deno.env.get('SUPABASE_URL') || '',
+    },
+    body: JSON.stringify({
+      model: settings.model,
+      temperature: settings.temperature,
+      max_tokens: settings.maxTokens,
+      messages,
+      ...extra,
+    }),
+    signal,
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`OpenRouter error: ${errorText}`);
+  }
+  return response;
+}
+
+export async function createChatCompletion(
+  settings: ChatSettings,
+  messages: ChatMessage[],
+  options: { json?: boolean } = {},
+): Promise<ChatCompletion> {
+  const response = await requestChatCompletion(
+    settings,
+    messages,
+    options.json ? { response_format: { type: 'json_object' } } : {},
+  );
+  const raw = await response.json();
+  return { content: raw.choices?.[0]?.message?.content || '', finishReason: raw.choices?.[0]?.finish_reason ?? null, raw };
+}
+
+/**
+ * Yields the completion's text as the model produces it, from OpenRouter's
+ * server-sent events. Throws if the stream reports an error, ends early or
+ * finishes for any reason but "stop", so callers can tell a cut-off answer
+ * from a short one.
+ */
+export async function* streamChatCompletion(
+  settings: ChatSettings,
+  messages: ChatMessage[],
+  signal?: AbortSignal,
+): AsyncGenerator<string> {
+  const response = await requestChatCompletion(settings, messages, { stream: true }, signal);
+  const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  let finishReason: string | null = null;
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += value;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        // Lines starting with ":" are keep-alive comments
+        if (!line.startsWith('data:')) continue;
+        const data = line.slice(5).trim();
+        if (data === '[DONE]') continue;
+        const chunk = JSON.parse(data);
+        if (chunk.error) throw new Error(`OpenRouter error: ${chunk.error.message ?? JSON.stringify(chunk.error)}`);
+        const choice = chunk.choices?.[0];
+        if (choice?.delta?.content) yield choice.delta.content;
+        if (choice?.finish_reason) finishReason = choice.finish_reason;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+  // Only "stop" is a finished answer; "length" and "content_filter" cut it off
+  if (finishReason === null) throw new Error('The model stream ended before the summary was complete');
+  if (finishReason !== 'stop') throw new Error(`The model stopped before the summary was complete (${finishReason})`);
+}
@@ -0,0 +1,29 @@
+// PostgREST returns at most max_rows (supabase/config.toml) rows per request
+// and silently drops the rest, which long transcripts easily exceed. Reads
+// that must see every row go through fetchAllRows, page by page.
+
+/** Must not exceed max_rows, or pages come back short and reading stops early */
+export const PAGE_SIZE = 1000;
+
+interface PageResult<T> {
+  data: T[] | null;
+  error: { message: string } | null;
+}
+
+/**
+ * Calls `page` with successive inclusive row ranges until a short page comes
+ * back. The query must have a total order (end with a unique column such as
+ * id), or rows can repeat or go missing between pages. Resolves like a single
+ * query: all rows, or null data and the first error.
+ */
+export async function fetchAllRows<T>(
+  page: (from: number, to: number) => PromiseLike<PageResult<T>>,
+): Promise<PageResult<T>> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+    if (error) return { data: null, error };
+    rows.push(...(data ?? []));
+    if (!data || data.length < PAGE_SIZE) return { data: rows, error: null };
+  }
+}
@@ -0,0 +1,195 @@
+import type {
+  CallbackResult,
+  NormalizedTranscript,
+  PollResult,
+  SubmitResult,
+  TranscriptionProvider,
+  TranscriptionRequest,
+  WordType,
+} from './types.ts';
+
+const API_BASE = 'https://api.elevenlabs.io/v1';
+
+interface ElevenLabsWord {
+  text?: string;
+  start?: number;
+  end?: number;
+  type?: WordType;
+  speaker_id?: string;
+  logprob?: number;
+}
+
+interface ElevenLabsTranscript {
+  text?: string;
+  language_code?: string;
+  duration?: number;
+  words?: ElevenLabsWord[];
+}
+
+export function createElevenLabsProvider(config: {
+  apiKey: string;
+  defaultModelId?: string | null;
+  webhookId?: string;
+}): TranscriptionProvider {
+  return {
+    name: 'elevenlabs',
+    supportsCallback: true,
+    keytermLimits: { maxTerms: 100, maxLength: 50 },
+
+    async submit(request: TranscriptionRequest): Promise<SubmitResult> {
+      const formData = new FormData();
+      formData.append('cloud_storage_url', request.mediaUrl);
+      formData.append('model_id', request.modelId || config.defaultModelId || 'scribe_v2');
+      formData.append('diarize', String(request.diarize));
+      formData.append('tag_audio_events', String(request.tagAudioEvents));
+      if (request.languageCode) {
+        formData.append('language_code', request.languageCode);
+      }
+      for (const term of request.keyterms ?? []) {
+        formData.append('keyterms', term);
+      }
+
+      if (request.async) {
+        // ElevenLabs returns immediately and later POSTs the result to the
+        // workspace webhook pointing at elevenlabs_webhook. The job id travels
+        // in the metadata so the webhook can find the job row again.
+        formData.append('webhook', 'true');
+        if (config.webhookId) {
+          formData.append('webhook_id', config.webhookId);
+        }
+        formData.append('webhook_metadata', JSON.stringify({ job_id: request.jobId }));
+      }
+
+      const response = await fetch(`${API_BASE}/speech-to-text`, {
+        method: 'POST',
+        headers: { 'xi-api-key': config.apiKey },
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`ElevenLabs API error ${response.status}: ${errorText}`);
+      }
+
+      const result = await response.json();
+      if (request.async) {
+        return { status: 'queued', providerJobId: result.transcription_id ?? result.request_id ?? null };
+      }
+      return { status: 'completed', raw: result };
+    },
+
+    async poll(providerJobId: string): Promise<PollResult> {
+      const response = await fetch(`${API_BASE}/speech-to-text/transcripts/${providerJobId}`, {
+        headers: { 'xi-api-key': config.apiKey },
+      });
+      if (response.status === 404) {
+        return { status: 'running' };
+      }
+      if (!response.ok) {
+        return { status: 'failed', error: `${response.status}: ${await response.text()}` };
+      }
+      return { status: 'completed', raw: await response.json() };
+    },
+
+    parseCallback: parseElevenLabsCallback,
+    normalize: normalizeElevenLabsTranscript,
+  };
+}
+
+export function parseElevenLabsCallback(payload: unknown): CallbackResult {
+  // Async results arrive as { type, data: { request_id, webhook_metadata, transcription } }
+  const body = (payload ?? {}) as Record<string, unknown>;
+  const data = (body.data ?? body) as Record<string, unknown>;
+  const metadata = typeof data.webhook_metadata === 'string'
+    ? JSON.parse(data.webhook_metadata)
+    : data.webhook_metadata as Record<string, unknown> | undefined;
+  const error = (data.error ?? body.error) as string | undefined;
+
+  return {
+    jobId: (metadata?.job_id as string | undefined) ?? null,
+    providerJobId: (data.transcription_id ?? data.request_id ?? null) as string | null,
+    status: data.status === 'failed' || error ? 'failed' : 'completed',
+    raw: data.transcription ?? data,
+    error: error || (data.status === 'failed' ? 'Unknown error' : undefined),
+  };
+}
+
+export function normalizeElevenLabsTranscript(raw: unknown): NormalizedTranscript {
+  const result = (raw ?? {}) as ElevenLabsTranscript;
+  const words = (result.words ?? []).map((w) => ({
+    text: w.text ?? '',
+    start_ms: Math.round((w.start ?? 0) * 1000),
+    end_ms: Math.round((w.end ?? 0) * 1000),
+    speaker_id: w.speaker_id ?? null,
+    type: w.type ?? 'word',
+    confidence: typeof w.logprob === 'number' ? Math.exp(w.logprob) : null,
+  }));
+
+  // Async payloads carry no duration field; fall back to the last word's end time
+  const durationMs = result.duration
+    ? Math.round(result.duration * 1000)
+    : words[words.length - 1]?.end_ms ?? null;
+
+  return {
+    text: result.text ?? '',
+    words,
+    duration_ms: durationMs,
+    language_code: result.language_code ?? null,
+  };
+}
+
+/** ElevenLabs' own SDK accepts deliveries up to 30 minutes old */
+const SIGNATURE_TOLERANCE_SECONDS = 30 * 60;
+
+export type SignatureCheck = { valid: true } | { valid: false; reason: string };
+
+/**
+ * Verifies the `ElevenLabs-Signature` header (`t=<unix seconds>,v0=<hex>`),
+ * an HMAC-SHA256 of `<t>.<raw body>` keyed with the webhook's shared secret.
+ * Deliveries whose timestamp is outside the tolerance are treated as replays.
+ */
+export async function verifyElevenLabsSignature(
+  header: string | null,
+  body: string,
+  secret: string,
+  nowSeconds = Math.floor(Date.now() / 1000),
+): Promise<SignatureCheck> {
+  if (!header) return { valid: false, reason: 'Missing signature header' };
+
+  const parts = Object.fromEntries(
+    header.split(',').map((part) => {
+      const separator = part.indexOf('=');
+      return [part.slice(0, separator).trim(), part.slice(separator + 1).trim()];
+    }),
+  );
+  const timestamp = Number(parts.t);
+  if (!parts.t || !Number.isInteger(timestamp) || !parts.v0) {
+    return { valid: false, reason: 'Malformed signature header' };
+  }
+  if (Math.abs(nowSeconds - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+    return { valid: false, reason: 'Signature timestamp outside tolerance' };
+  }
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  const mac = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${parts.t}.${body}`));
+  const expected = Array.from(new Uint8Array(mac), (b) => b.toString(16).padStart(2, '0')).join('');
+
+  return timingSafeEqual(expected, parts.v0.toLowerCase())
+    ? { valid: true }
+    : { valid: false, reason: 'Signature mismatch' };
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
@@ -0,0 +1,63 @@
+import { createElevenLabsProvider, normalizeElevenLabsTranscript } from './elevenlabs.ts';
+import { createWhisperProvider, normalizeWhisperTranscript } from './whisper.ts';
+import type { NormalizedTranscript, TranscriptionProvider } from './types.ts';
+
+export type * from './types.ts';
+
+export const PROVIDER_NAMES = ['elevenlabs', 'whisper'] as const;
+export type ProviderName = typeof PROVIDER_NAMES[number];
+
+export function isProviderName(value: unknown): value is ProviderName {
+  return PROVIDER_NAMES.includes(value as ProviderName);
+}
+
+interface ProviderSettings {
+  elevenlabs_default_model_id?: string | null;
+  whisper_base_url?: string | null;
+  whisper_model_id?: string | null;
+}
+
+/**
+ * Builds the named provider from app_settings and Edge Function secrets.
+ * Throws when the provider is unknown or its configuration is missing.
+ */
+export function getProvider(name: string, settings: ProviderSettings | null): TranscriptionProvider {
+  switch (name) {
+    case 'elevenlabs': {
+      const apiKey = Deno.env.get('ELEVENLABS_API_KEY');
+      if (!apiKey) {
+        throw new Error('ElevenLabs API key not configured');
+      }
+      return createElevenLabsProvider({
+        apiKey,
+        defaultModelId: settings?.elevenlabs_default_model_id,
+        webhookId: Deno.env.get('ELEVENLABS_WEBHOOK_ID'),
+      });
+    }
+    case 'whisper': {
+      const baseUrl = settings?.whisper_base_url || Deno.env.get('WHISPER_BASE_URL');
+      if (!baseUrl) {
+        throw new Error('Whisper server URL not configured');
+      }
+      return createWhisperProvider({
+        baseUrl,
+        apiKey: Deno.env.get('WHISPER_API_KEY'),
+        defaultModelId: settings?.whisper_model_id,
+      });
+    }
+    default:
+      throw new Error(`Unknown transcription provider: ${name}`);
+  }
+}
+
+/** Normalizes a stored raw_response; needs no credentials */
+export function normalizeTranscript(name: string, raw: unknown): NormalizedTranscript {
+  switch (name) {
+    case 'elevenlabs':
+      return normalizeElevenLabsTranscript(raw);
+    case 'whisper':
+      return normalizeWhisperTranscript(raw);
+    default:
+      throw new Error(`Unknown transcription provider: ${name}`);
+  }
+}
@@ -0,0 +1,63 @@
+// Common shape every speech-to-text backend is normalized into.
+
+export type WordType = 'word' | 'spacing' | 'audio_event';
+
+export interface NormalizedWord {
+  text: string;
+  start_ms: number;
+  end_ms: number;
+  speaker_id: string | null;
+  type: WordType;
+  /** 0..1, null when the provider reports no confidence */
+  confidence: number | null;
+}
+
+export interface NormalizedTranscript {
+  text: string;
+  words: NormalizedWord[];
+  duration_ms: number | null;
+  language_code: string | null;
+}
+
+export interface TranscriptionRequest {
+  jobId: string;
+  mediaUrl: string;
+  mimeType: string;
+  modelId?: string;
+  languageCode?: string;
+  diarize: boolean;
+  tagAudioEvents: boolean;
+  /** Vocabulary to bias recognition towards, already trimmed to keytermLimits */
+  keyterms?: string[];
+  /** Ask the provider to deliver the result to our webhook instead of waiting */
+  async: boolean;
+}
+
+export type SubmitResult =
+  | { status: 'completed'; raw: unknown }
+  | { status: 'queued'; providerJobId: string | null };
+
+export type PollResult =
+  | { status: 'running' }
+  | { status: 'completed'; raw: unknown }
+  | { status: 'failed'; error: string };
+
+export interface CallbackResult {
+  jobId: string | null;
+  providerJobId: string | null;
+  status: 'completed' | 'failed';
+  raw: unknown;
+  error?: string;
+}
+
+export interface TranscriptionProvider {
+  name: string;
+  /** Whether submit() honours request.async and reports back through a webhook */
+  supportsCallback: boolean;
+  /** How many glossary terms the provider accepts as biasing, null when it has none */
+  keytermLimits: { maxTerms: number; maxLength: number } | null;
+  submit(request: TranscriptionRequest): Promise<SubmitResult>;
+  poll?(providerJobId: string): Promise<PollResult>;
+  parseCallback?(payload: unknown): CallbackResult;
+  normalize(raw: unknown): NormalizedTranscript;
+}
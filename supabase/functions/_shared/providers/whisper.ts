@@ -0,0 +1,129 @@
+import type {
+  NormalizedTranscript,
+  SubmitResult,
+  TranscriptionProvider,
+  TranscriptionRequest,
+} from './types.ts';
+
+// Speaks the OpenAI `audio/transcriptions` API, which self-hosted servers such as
+// faster-whisper-server implement as well. Whisper has no diarization, so every
+// word is attributed to a single speaker.
+
+interface WhisperWord {
+  word?: string;
+  start?: number;
+  end?: number;
+  probability?: number;
+}
+
+interface WhisperSegment {
+  start?: number;
+  end?: number;
+  text?: string;
+}
+
+interface WhisperVerboseResponse {
+  text?: string;
+  language?: string;
+  duration?: number;
+  words?: WhisperWord[];
+  segments?: WhisperSegment[];
+}
+
+// OpenAI reports the language by name, faster-whisper by ISO code
+const LANGUAGE_NAMES: Record<string, string> = {
+  english: 'en',
+  hebrew: 'he',
+  arabic: 'ar',
+  russian: 'ru',
+  french: 'fr',
+  spanish: 'es',
+  german: 'de',
+};
+
+export function createWhisperProvider(config: {
+  baseUrl: string;
+  apiKey?: string;
+  defaultModelId?: string | null;
+}): TranscriptionProvider {
+  return {
+    name: 'whisper',
+    supportsCallback: false,
+    // The prompt is cut to its last 224 tokens, so keep the list short
+    keytermLimits: { maxTerms: 40, maxLength: 50 },
+
+    async submit(request: TranscriptionRequest): Promise<SubmitResult> {
+      // The API takes the file itself rather than a URL
+      const mediaResponse = await fetch(request.mediaUrl);
+      if (!mediaResponse.ok) {
+        throw new Error(`Could not download media: ${mediaResponse.status}`);
+      }
+      const media = await mediaResponse.blob();
+
+      const formData = new FormData();
+      formData.append('file', new File([media], 'recording', { type: request.mimeType }));
+      formData.append('model', request.modelId || config.defaultModelId || 'whisper-1');
+      formData.append('response_format', 'verbose_json');
+      formData.append('timestamp_granularities[]', 'word');
+      formData.append('timestamp_granularities[]', 'segment');
+      if (request.languageCode) {
+        formData.append('language', request.languageCode);
+      }
+      if (request.keyterms?.length) {
+        // Whisper has no keyterm list; a prompt that uses the terms nudges it towards their spelling
+        formData.append('prompt', `Glossary: ${request.keyterms.join(', ')}.`);
+      }
+
+      const headers: Record<string, string> = {};
+      if (config.apiKey) {
+        headers['Authorization'] = `Bearer ${config.apiKey}`;
+      }
+
+      const response = await fetch(`${config.baseUrl.replace(/\/+$/, '')}/v1/audio/transcriptions`, {
+        method: 'POST',
+        headers,
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Whisper API error ${response.status}: ${errorText}`);
+      }
+
+      return { status: 'completed', raw: await response.json() };
+    },
+
+    normalize: normalizeWhisperTranscript,
+  };
+}
+
+export function normalizeWhisperTranscript(raw: unknown): NormalizedTranscript {
+  const result = (raw ?? {}) as WhisperVerboseResponse;
+
+  // Servers without word granularity only return segments; treat each as one token
+  const tokens: WhisperWord[] = result.words?.length
+    ? result.words
+    : (result.segments ?? []).map((s) => ({ word: s.text, start: s.start, end: s.end }));
+
+  const words = tokens
+    .filter((w) => (w.word ?? '').trim())
+    .map((w) => ({
+      text: (w.word ?? '').trim(),
+      start_ms: Math.round((w.start ?? 0) * 1000),
+      end_ms: Math.round((w.end ?? 0) * 1000),
+      speaker_id: null,
+      type: 'word' as const,
+      confidence: typeof w.probability === 'number' ? w.probability : null,
+    }));
+
+  const language = result.language?.toLowerCase() ?? null;
+
+  return {
+    text: result.text?.trim() ?? '',
+    words,
+    duration_ms: result.duration
+      ? Math.round(result.duration * 1000)
+      : words[words.length - 1]?.end_ms ?? null,
+    language_code: language ? LANGUAGE_NAMES[language] ?? language : null,
+  };
+}
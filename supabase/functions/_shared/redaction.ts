@@ -0,0 +1,171 @@
+// Personal data detection and redaction. Detectors find candidate spans in
+// plain text; marks stored in pii_redactions record what a person confirmed
+// or dismissed. Free of runtime-specific APIs: the web app redacts exports
+// with the same code that edge functions use for outgoing email.
+
+export type PiiKind = 'phone' | 'email' | 'israeli_id';
+
+export type RedactionStatus = 'suggested' | 'confirmed' | 'dismissed';
+
+export interface PiiSpan {
+  kind: PiiKind;
+  /** Character offsets into the text */
+  start: number;
+  end: number;
+  text: string;
+}
+
+/** A stored mark; offsets may be stale if the text was edited since */
+export interface RedactionMark extends PiiSpan {
+  status: RedactionStatus;
+}
+
+interface Detector {
+  label: string;
+  /** Shown in place of the redacted text */
+  placeholder: string;
+  pattern: RegExp;
+  /** Extra check on a match, e.g. a check digit */
+  validate?: (match: string) => boolean;
+}
+
+/** Digits of an Israeli ID number, padded to nine, pass the check digit */
+export function isValidIsraeliId(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  if (digits.length < 5 || digits.length > 9 || /^0+$/.test(digits)) return false;
+  const padded = digits.padStart(9, '0');
+  let sum = 0;
+  for (let i = 0; i < 9; i++) {
+    const step = Number(padded[i]) * ((i % 2) + 1);
+    sum += step > 9 ? step - 9 : step;
+  }
+  return sum % 10 === 0;
+}
+
+// Ordered by priority: where spans overlap, the earlier detector wins, so a
+// nine-digit landline number isn't also reported as an ID.
+export const DETECTORS: Record<PiiKind, Detector> = {
+  email: {
+    label: 'Email addresses',
+    placeholder: '[EMAIL]',
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+  },
+  phone: {
+    label: 'Phone numbers',
+    placeholder: '[PHONE]',
+    // Israeli mobile and landline numbers, local or with +972, and other
+    // international numbers; digits may be grouped with spaces or dashes
+    pattern: /(?<![\d+])(?:(?:\+|00)972[-\s]?(?:\(0\))?|0)(?:5\d|7\d|[2-489])(?:[-\s]?\d){7}(?!\d)|(?<![\d+])(?:\+|00)[1-9](?:[-\s]?\d){7,13}(?!\d)/g,
+  },
+  israeli_id: {
+    label: 'Israeli ID numbers (teudat zehut)',
+    placeholder: '[ID]',
+    // Eight or nine digits, optionally with the check digit set off by a dash
+    pattern: /(?<![\d-])\d{7,8}-?\d(?![\d-])/g,
+    validate: isValidIsraeliId,
+  },
+};
+
+export const PII_KINDS = Object.keys(DETECTORS) as PiiKind[];
+
+const overlaps = (a: { start: number; end: number }, b: { start: number; end: number }) =>
+  a.start < b.end && b.start < a.end;
+
+/** Non-overlapping spans found by the enabled detectors, in text order */
+export function detectPii(text: string, kinds: PiiKind[] = PII_KINDS): PiiSpan[] {
+  const spans: PiiSpan[] = [];
+  for (const kind of PII_KINDS) {
+    if (!kinds.includes(kind)) continue;
+    const detector = DETECTORS[kind];
+    for (const match of text.matchAll(detector.pattern)) {
+      if (detector.validate && !detector.validate(match[0])) continue;
+      const span = { kind, start: match.index!, end: match.index! + match[0].length, text: match[0] };
+      if (!spans.some((s) => overlaps(s, span))) spans.push(span);
+    }
+  }
+  return spans.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Where a stored mark is in the current text: at its offsets if the text
+ * there is unchanged, otherwise at the first occurrence of its text.
+ */
+export function locateMark(text: string, mark: RedactionMark): PiiSpan | null {
+  if (text.slice(mark.start, mark.end) === mark.text) return mark;
+  const at = text.indexOf(mark.text);
+  return at === -1 ? null : { ...mark, start: at, end: at + mark.text.length };
+}
+
+/**
+ * The spans to hide in a text: every stored mark that wasn't dismissed, plus
+ * anything the detectors find now that no mark covers, so text edited after
+ * review is still redacted. Dismissed marks are left readable.
+ */
+export function redactionSpans(text: string, marks: RedactionMark[], kinds: PiiKind[] = PII_KINDS): PiiSpan[] {
+  const located = marks.map((m) => {
+    const span = locateMark(text, m);
+    return span ? { ...span, status: m.status } : null;
+  }).filter((m) => m !== null);
+  const dismissed = located.filter((m) => m.status === 'dismissed');
+  const spans: PiiSpan[] = located.filter((m) => m.status !== 'dismissed');
+  for (const span of detectPii(text, kinds)) {
+    if (!dismissed.some((d) => overlaps(d, span)) && !spans.some((s) => overlaps(s, span))) spans.push(span);
+  }
+  return spans.sort((a, b) => a.start - b.start);
+}
+
+export function redactText(text: string, marks: RedactionMark[] = [], kinds: PiiKind[] = PII_KINDS): string {
+  let result = '';
+  let cursor = 0;
+  for (const span of redactionSpans(text, marks, kinds)) {
+    if (span.start < cursor) continue;
+    result += text.slice(cursor, span.start) + DETECTORS[span.kind].placeholder;
+    cursor = span.end;
+  }
+  return result + text.slice(cursor);
+}
+
+/** A pii_redactions row, as far as redaction needs it */
+export interface StoredRedaction {
+  target_id: string;
+  start_offset: number;
+  end_offset: number;
+  kind: PiiKind;
+  text: string;
+  status: RedactionStatus;
+}
+
+/** Stored marks grouped by the segment or summary they belong to */
+export function marksByTarget(rows: StoredRedaction[]): Map<string, RedactionMark[]> {
+  const byTarget = new Map<string, RedactionMark[]>();
+  for (const row of rows) {
+    const mark = { kind: row.kind, start: row.start_offset, end: row.end_offset, text: row.text, status: row.status };
+    byTarget.set(row.target_id, [...(byTarget.get(row.target_id) ?? []), mark]);
+  }
+  return byTarget;
+}
+
+/**
+ * Segments with personal data replaced. Segments that changed lose their
+ * meta, since word timings would still spell out the original text; captions
+ * then fall back to cutting the redacted text by time.
+ */
+export function redactSegments<T extends { id?: string; text: string; meta?: unknown }>(
+  segments: T[],
+  marks: Map<string, RedactionMark[]>,
+  kinds: PiiKind[] = PII_KINDS,
+): T[] {
+  return segments.map((segment) => {
+    const text = redactText(segment.text, (segment.id && marks.get(segment.id)) || [], kinds);
+    return text === segment.text ? segment : { ...segment, text, meta: null };
+  });
+}
+
+/** Recipients outside the organisation, judged by the domain of their address */
+export function externalRecipients(recipients: string[], internalDomains: string[]): string[] {
+  const internal = internalDomains.map((d) => d.trim().toLowerCase().replace(/^@/, '')).filter(Boolean);
+  return recipients.filter((address) => {
+    const domain = address.trim().toLowerCase().split('@').pop() ?? '';
+    return !internal.some((d) => domain === d || domain.endsWith(`.${d}`));
+  });
+}
@@ -0,0 +1,139 @@
+import type { NormalizedWord } from './providers/index.ts';
+
+// Turns a provider's flat word list into transcript segments. A new segment
+// starts on a speaker change, after a long pause, after sentence-ending
+// punctuation, or when the current one would grow past the duration or
+// length limit. A limit of 0 disables that rule. Audio events are lifted out
+// of the speech into segments of their own.
+
+export interface SegmenterOptions {
+  maxPauseMs: number;
+  maxDurationMs: number;
+  maxChars: number;
+  splitOnSentenceEnd: boolean;
+}
+
+export const DEFAULT_SEGMENTER_OPTIONS: SegmenterOptions = {
+  maxPauseMs: 1500,
+  maxDurationMs: 30000,
+  maxChars: 400,
+  splitOnSentenceEnd: true,
+};
+
+export type SegmentKind = 'speech' | 'audio_event';
+
+export interface WordSegment {
+  kind: SegmentKind;
+  speaker_id: string;
+  start_ms: number;
+  end_ms: number;
+  text: string;
+  words: NormalizedWord[];
+}
+
+// Latin, Hebrew sof pasuq and Arabic question mark; closing quotes/brackets may follow
+const SENTENCE_END = /[.!?…׃؟]["'”’)\]]*$/;
+
+export function segmenterOptionsFromSettings(settings: {
+  segment_max_pause_ms?: number | null;
+  segment_max_duration_ms?: number | null;
+  segment_max_chars?: number | null;
+  segment_split_on_sentence?: boolean | null;
+} | null): SegmenterOptions {
+  return {
+    maxPauseMs: settings?.segment_max_pause_ms ?? DEFAULT_SEGMENTER_OPTIONS.maxPauseMs,
+    maxDurationMs: settings?.segment_max_duration_ms ?? DEFAULT_SEGMENTER_OPTIONS.maxDurationMs,
+    maxChars: settings?.segment_max_chars ?? DEFAULT_SEGMENTER_OPTIONS.maxChars,
+    splitOnSentenceEnd: settings?.segment_split_on_sentence ?? DEFAULT_SEGMENTER_OPTIONS.splitOnSentenceEnd,
+  };
+}
+
+export function segmentWords(
+  words: NormalizedWord[],
+  options: SegmenterOptions = DEFAULT_SEGMENTER_OPTIONS,
+): WordSegment[] {
+  // ElevenLabs sends explicit spacing tokens; other providers need a space between words
+  const hasSpacingTokens = words.some((w) => w.type === 'spacing');
+
+  const segments: WordSegment[] = [];
+  const events: WordSegment[] = [];
+  let current: WordSegment | null = null;
+  let pendingSpace = '';
+  // Last word of the current segment
+  let lastSpoken: NormalizedWord | null = null;
+
+  for (const word of words) {
+    if (word.type === 'spacing') {
+      if (current) pendingSpace = word.text || ' ';
+      continue;
+    }
+
+    // Audio events keep the speaker of the surrounding speech and neither
+    // break nor pause it
+    if (word.type === 'audio_event') {
+      const label = audioEventLabel(word.text);
+      if (label) {
+        events.push({
+          kind: 'audio_event',
+          speaker_id: current?.speaker_id ?? word.speaker_id ?? 'speaker_0',
+          start_ms: word.start_ms,
+          end_ms: word.end_ms,
+          text: label,
+          words: [word],
+        });
+      }
+      continue;
+    }
+
+    const speaker = word.speaker_id ?? 'speaker_0';
+
+    if (current) {
+      const separator = hasSpacingTokens ? pendingSpace : ' ';
+      const gap = lastSpoken ? word.start_ms - lastSpoken.end_ms : 0;
+
+      const shouldSplit =
+        speaker !== current.speaker_id
+        || (options.maxPauseMs > 0 && gap > options.maxPauseMs)
+        || (options.splitOnSentenceEnd && lastSpoken !== null
+          && SENTENCE_END.test(lastSpoken.text.trim()))
+        || (options.maxDurationMs > 0 && word.end_ms - current.start_ms > options.maxDurationMs)
+        || (options.maxChars > 0 && current.text.length + separator.length + word.text.length > options.maxChars);
+
+      if (!shouldSplit) {
+        current.text += separator + word.text;
+        current.end_ms = Math.max(current.end_ms, word.end_ms);
+        current.words.push(word);
+        pendingSpace = '';
+        lastSpoken = word;
+        continue;
+      }
+
+      pushSegment(segments, current);
+    }
+
+    current = {
+      kind: 'speech',
+      speaker_id: speaker,
+      start_ms: word.start_ms,
+      end_ms: word.end_ms,
+      text: word.text,
+      words: [word],
+    };
+    pendingSpace = '';
+    lastSpoken = word;
+  }
+
+  if (current) pushSegment(segments, current);
+  // Stable sort keeps an event after the speech segment that starts at the same time
+  return [...segments, ...events].sort((a, b) => a.start_ms - b.start_ms);
+}
+
+/** "(laughter)" -> "laughter" */
+export function audioEventLabel(text: string): string {
+  return text.trim().replace(/^[([]+|[)\]]+$/g, '').trim();
+}
+
+function pushSegment(segments: WordSegment[], segment: WordSegment) {
+  const text = segment.text.trim();
+  if (text) segments.push({ ...segment, text });
+}
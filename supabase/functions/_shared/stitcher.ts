@@ -0,0 +1,107 @@
+import type { NormalizedTranscript, NormalizedWord } from './providers/index.ts';
+
+// Joins the transcripts of overlapping time windows into one. Each chunk's
+// timestamps are shifted by its window start, the overlap between neighbours
+// is cut at its midpoint so no word appears twice, and speaker ids (which
+// every chunk numbers independently) are mapped onto one global set by
+// matching the words both chunks heard inside the overlap.
+
+export interface ChunkTranscript {
+  start_ms: number;
+  end_ms: number;
+  transcript: NormalizedTranscript;
+}
+
+/** Words from both sides of an overlap count as the same utterance within this distance */
+const MATCH_TOLERANCE_MS = 500;
+
+export function stitchChunks(chunks: ChunkTranscript[]): NormalizedTranscript {
+  const ordered = [...chunks].sort((a, b) => a.start_ms - b.start_ms);
+  const words: NormalizedWord[] = [];
+  let nextSpeakerNumber = 0;
+  let previous: { chunk: ChunkTranscript; words: NormalizedWord[]; speakers: Map<string, string> } | null = null;
+
+  for (const chunk of ordered) {
+    const shifted = chunk.transcript.words.map((w) => ({
+      ...w,
+      start_ms: w.start_ms + chunk.start_ms,
+      end_ms: w.end_ms + chunk.start_ms,
+    }));
+
+    const speakers = previous
+      ? matchSpeakers(previous.words, previous.speakers, shifted, chunk.start_ms, previous.chunk.end_ms)
+      : new Map<string, string>();
+    for (const word of shifted) {
+      if (word.speaker_id !== null && !speakers.has(word.speaker_id)) {
+        speakers.set(word.speaker_id, `speaker_${nextSpeakerNumber++}`);
+      }
+    }
+
+    // Cut the overlap with the previous chunk at its midpoint
+    const cut = previous ? Math.round((chunk.start_ms + previous.chunk.end_ms) / 2) : -Infinity;
+    while (words.length > 0 && words[words.length - 1].start_ms >= cut) {
+      words.pop();
+    }
+    for (const word of shifted) {
+      if (word.start_ms < cut) continue;
+      // Spacing at the seam would glue the two halves with a stray separator
+      if (word.type === 'spacing' && words[words.length - 1]?.type === 'spacing') continue;
+      words.push({
+        ...word,
+        speaker_id: word.speaker_id === null ? null : speakers.get(word.speaker_id)!,
+      });
+    }
+
+    previous = { chunk, words: shifted, speakers };
+  }
+
+  return {
+    text: words.filter((w) => w.type !== 'spacing').map((w) => w.text).join(' '),
+    words,
+    duration_ms: words.length ? words[words.length - 1].end_ms : null,
+    language_code: ordered.find((c) => c.transcript.language_code)?.transcript.language_code ?? null,
+  };
+}
+
+/**
+ * Maps the local speaker ids of `current` onto the global ids already given to
+ * `previous`, by voting over words heard by both chunks in the overlap.
+ */
+function matchSpeakers(
+  previousWords: NormalizedWord[],
+  previousSpeakers: Map<string, string>,
+  currentWords: NormalizedWord[],
+  overlapStart: number,
+  overlapEnd: number,
+): Map<string, string> {
+  const inOverlap = (w: NormalizedWord) =>
+    w.type === 'word' && w.speaker_id !== null && w.start_ms >= overlapStart && w.start_ms < overlapEnd;
+
+  const before = previousWords.filter(inOverlap);
+  const votes = new Map<string, number>();
+
+  for (const word of currentWords.filter(inOverlap)) {
+    const text = normalizeWord(word.text);
+    const match = before.find((b) =>
+      Math.abs(b.start_ms - word.start_ms) <= MATCH_TOLERANCE_MS && normalizeWord(b.text) === text,
+    );
+    if (!match) continue;
+    const key = `${word.speaker_id}\u0000${previousSpeakers.get(match.speaker_id!)}`;
+    votes.set(key, (votes.get(key) ?? 0) + 1);
+  }
+
+  // Greedy one-to-one assignment, strongest agreement first
+  const mapping = new Map<string, string>();
+  const taken = new Set<string>();
+  for (const [key] of [...votes.entries()].sort((a, b) => b[1] - a[1])) {
+    const [local, global] = key.split('\u0000');
+    if (mapping.has(local) || taken.has(global)) continue;
+    mapping.set(local, global);
+    taken.add(global);
+  }
+  return mapping;
+}
+
+function normalizeWord(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+}
@@ -0,0 +1,343 @@
+// Parses transcripts made elsewhere (SRT, WebVTT, JSON or plain text) into
+// segments. Shared by the upload page, which validates before uploading, and
+// the import_transcript function, which parses again before writing.
+
+export type ImportFormat = 'srt' | 'vtt' | 'json' | 'txt';
+
+export interface ImportedSegment {
+  kind: 'speech' | 'audio_event';
+  speaker_id: string;
+  speaker_label: string;
+  start_ms: number;
+  end_ms: number;
+  text: string;
+}
+
+export interface ImportError {
+  /** 1-based line in the file */
+  line: number;
+  message: string;
+}
+
+export interface ParsedTranscript {
+  format: ImportFormat;
+  segments: ImportedSegment[];
+  errors: ImportError[];
+}
+
+export const IMPORT_EXTENSIONS = ['.srt', '.vtt', '.json', '.txt'];
+
+/** Reading pace used for plain text lines without timestamps */
+const CHARS_PER_SECOND = 15;
+
+/** Errors past this many are dropped; the file needs fixing either way */
+const MAX_ERRORS = 50;
+
+interface RawCue {
+  line: number;
+  start_ms: number | null;
+  end_ms: number | null;
+  speaker: string | null;
+  text: string;
+  kind?: 'speech' | 'audio_event';
+}
+
+export function detectImportFormat(filename: string, content: string): ImportFormat {
+  const ext = filename.toLowerCase().slice(filename.lastIndexOf('.') + 1);
+  if (ext === 'srt' || ext === 'vtt' || ext === 'json' || ext === 'txt') return ext;
+  const start = content.trimStart();
+  if (start.startsWith('WEBVTT')) return 'vtt';
+  if (start.startsWith('[') || start.startsWith('{')) return 'json';
+  if (/^\d+\s*\r?\n\s*\d{1,2}:\d{2}:\d{2},\d{3}\s*-->/.test(start)) return 'srt';
+  return 'txt';
+}
+
+export function parseTranscriptFile(filename: string, content: string): ParsedTranscript {
+  const format = detectImportFormat(filename, content);
+  // Byte order mark and the bidi isolates our own TXT export wraps text in
+  const text = content.replace(/^\uFEFF/, '').replace(/[\u2066-\u2069]/g, '');
+  const errors: ImportError[] = [];
+
+  const cues = format === 'srt' ? parseSubtitles(text, errors, false)
+    : format === 'vtt' ? parseSubtitles(text, errors, true)
+      : format === 'json' ? parseJson(text, errors)
+        : parsePlainText(text, errors);
+
+  if (errors.length === 0 && cues.length === 0) {
+    errors.push({ line: 1, message: 'No transcript text found' });
+  }
+
+  return {
+    format,
+    segments: errors.length ? [] : assignSpeakers(cues),
+    errors: errors.slice(0, MAX_ERRORS),
+  };
+}
+
+/** `Name: text` at the start of a caption, as Zoom and Teams write them */
+function splitSpeaker(text: string): { speaker: string | null; text: string } {
+  const match = text.match(/^([^:.?!,\d][^:.?!,]{0,39}):\s+([\s\S]+)$/);
+  if (match && match[1].trim().split(/\s+/).length <= 4) {
+    return { speaker: match[1].trim(), text: match[2].trim() };
+  }
+  return { speaker: null, text };
+}
+
+/** `[laughter]` style captions are audio events */
+function cueKind(text: string): 'speech' | 'audio_event' {
+  return /^\[[^\]]+\]$/.test(text) ? 'audio_event' : 'speech';
+}
+
+const TIMESTAMP = /^(?:(\d+):)?(\d{1,2}):(\d{2})(?:[.,](\d{1,3}))?$/;
+
+function parseTime(value: string): number | null {
+  const match = value.trim().match(TIMESTAMP);
+  if (!match) return null;
+  const [, h, m, s, frac] = match;
+  if (Number(s) >= 60 || (h !== undefined && Number(m) >= 60)) return null;
+  return ((Number(h ?? 0) * 60 + Number(m)) * 60 + Number(s)) * 1000 + Number((frac ?? '0').padEnd(3, '0'));
+}
+
+/** SRT and WebVTT share the block layout: optional id, timing line, text lines */
+function parseSubtitles(content: string, errors: ImportError[], vtt: boolean): RawCue[] {
+  const lines = content.split(/\r?\n/);
+  const cues: RawCue[] = [];
+  let i = 0;
+
+  if (vtt) {
+    if (!lines[0]?.startsWith('WEBVTT')) {
+      errors.push({ line: 1, message: 'WebVTT files must start with "WEBVTT"' });
+      return cues;
+    }
+    while (i < lines.length && lines[i].trim()) i++;
+  }
+
+  while (i < lines.length) {
+    if (!lines[i].trim()) {
+      i++;
+      continue;
+    }
+    const blockStart = i;
+    const block: string[] = [];
+    while (i < lines.length && lines[i].trim()) block.push(lines[i++]);
+
+    if (vtt && /^(NOTE|STYLE|REGION)\b/.test(block[0])) continue;
+
+    const timingIndex = block.findIndex((l) => l.includes('-->'));
+    if (timingIndex === -1) {
+      errors.push({ line: blockStart + 1, message: 'Expected a timing line like "00:00:01,000 --> 00:00:04,000"' });
+      continue;
+    }
+    if (timingIndex > 1) {
+      errors.push({ line: blockStart + 1, message: 'Unexpected text before the timing line' });
+      continue;
+    }
+    if (!vtt && timingIndex === 1 && !/^\d+$/.test(block[0].trim())) {
+      errors.push({ line: blockStart + 1, message: `Expected a cue number, found "${block[0].trim()}"` });
+    }
+
+    const timingLine = blockStart + timingIndex + 1;
+    const [startText, rest = ''] = block[timingIndex].split('-->');
+    const start = parseTime(startText);
+    // WebVTT cue settings follow the end time
+    const end = parseTime(rest.trim().split(/\s+/)[0] ?? '');
+    if (start === null || end === null) {
+      errors.push({ line: timingLine, message: `Invalid timing "${block[timingIndex].trim()}"` });
+      continue;
+    }
+    if (end < start) {
+      errors.push({ line: timingLine, message: 'Cue ends before it starts' });
+      continue;
+    }
+
+    let raw = block.slice(timingIndex + 1).join('\n');
+    const voice = vtt ? raw.match(/^<v(?:\.[\w.-]+)?\s+([^>]+)>/) : null;
+    raw = raw.replace(/<[^>]*>/g, '').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+    const text = raw.replace(/\s+/g, ' ').trim();
+    if (!text) {
+      errors.push({ line: timingLine, message: 'Cue has no text' });
+      continue;
+    }
+
+    const split = voice ? { speaker: voice[1].trim(), text } : splitSpeaker(text);
+    cues.push({ line: timingLine, start_ms: start, end_ms: end, ...split, kind: cueKind(split.text) });
+  }
+  return cues;
+}
+
+/**
+ * Accepts an array of segments or `{ segments: [...] }`, with times either in
+ * milliseconds (`start_ms`, as our JSON export writes) or seconds (`start`).
+ */
+function parseJson(content: string, errors: ImportError[]): RawCue[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    // Engines report either a line or a character position
+    const reported = Number(message.match(/line (\d+)/)?.[1]);
+    const position = Number(message.match(/position (\d+)/)?.[1]);
+    const line = reported || (Number.isFinite(position) ? content.slice(0, position).split('\n').length : 1);
+    errors.push({ line, message: `Invalid JSON: ${message}` });
+    return [];
+  }
+
+  const items = Array.isArray(data) ? data : (data as { segments?: unknown })?.segments;
+  if (!Array.isArray(items)) {
+    errors.push({ line: 1, message: 'Expected an array of segments or an object with a "segments" array' });
+    return [];
+  }
+
+  const lines = jsonElementLines(content, Array.isArray(data) ? null : 'segments');
+  const cues: RawCue[] = [];
+  items.forEach((item, index) => {
+    const line = lines[index] ?? 1;
+    if (!item || typeof item !== 'object') {
+      errors.push({ line, message: `Segment ${index + 1} is not an object` });
+      return;
+    }
+    const s = item as Record<string, unknown>;
+    const start = typeof s.start_ms === 'number' ? s.start_ms : typeof s.start === 'number' ? s.start * 1000 : null;
+    const end = typeof s.end_ms === 'number' ? s.end_ms : typeof s.end === 'number' ? s.end * 1000 : null;
+    const speaker = [s.speaker_label, s.speaker, s.speaker_name].find((v) => typeof v === 'string' && v.trim());
+
+    if (typeof s.text !== 'string' || !s.text.trim()) {
+      errors.push({ line, message: `Segment ${index + 1} has no "text"` });
+    } else if (start === null || end === null) {
+      errors.push({ line, message: `Segment ${index + 1} needs "start_ms" and "end_ms" (or "start" and "end" in seconds)` });
+    } else if (start < 0 || end < start) {
+      errors.push({ line, message: `Segment ${index + 1} ends before it starts` });
+    } else {
+      cues.push({
+        line,
+        start_ms: Math.round(start),
+        end_ms: Math.round(end),
+        speaker: (speaker as string | undefined)?.trim() ?? null,
+        text: s.text.trim(),
+        kind: s.kind === 'audio_event' ? 'audio_event' : 'speech',
+      });
+    }
+  });
+  return cues;
+}
+
+/** Line on which each element of the segments array starts, for error messages */
+function jsonElementLines(content: string, key: string | null): number[] {
+  const lines: number[] = [];
+  const stack: { type: string; key: string | null }[] = [];
+  let line = 1;
+  let lastString: string | null = null;
+  for (let i = 0; i < content.length; i++) {
+    const c = content[i];
+    if (c === '\n') {
+      line++;
+    } else if (c === '"') {
+      let j = i + 1;
+      while (j < content.length && content[j] !== '"') j += content[j] === '\\' ? 2 : 1;
+      lastString = content.slice(i + 1, j);
+      i = j;
+    } else if (c === '{' || c === '[') {
+      const parent = stack[stack.length - 1];
+      const isElement = key === null
+        ? stack.length === 1 && parent.type === '['
+        : stack.length === 2 && parent.type === '[' && parent.key === key;
+      if (isElement) lines.push(line);
+      stack.push({ type: c, key: c === '[' ? lastString : null });
+    } else if (c === '}' || c === ']') {
+      stack.pop();
+    }
+  }
+  return lines;
+}
+
+const TXT_LINE = /^\[?((?:\d+:)?\d{1,2}:\d{2}(?:[.,]\d{1,3})?)\]?\s+(.*)$/;
+
+/**
+ * One utterance per line, optionally prefixed with a timestamp (`[1:23]`) and
+ * a speaker (`Dana:`), as our own TXT export writes. In a timed file, lines
+ * without a timestamp continue the previous one; untimed files are laid out
+ * at an average reading pace.
+ */
+function parsePlainText(content: string, errors: ImportError[]): RawCue[] {
+  const lines = content.split(/\r?\n/);
+  const timed = lines.some((l) => TXT_LINE.test(l.trim()));
+  const cues: RawCue[] = [];
+
+  lines.forEach((rawLine, index) => {
+    const lineText = rawLine.trim();
+    if (!lineText) return;
+    const match = lineText.match(TXT_LINE);
+
+    if (timed && !match) {
+      const previous = cues[cues.length - 1];
+      if (previous) {
+        previous.text += ` ${lineText}`;
+      } else {
+        errors.push({ line: index + 1, message: 'Expected a timestamp like [0:00] at the start of the line' });
+      }
+      return;
+    }
+
+    const start = match ? parseTime(match[1]) : null;
+    if (match && start === null) {
+      errors.push({ line: index + 1, message: `Invalid timestamp "${match[1]}"` });
+      return;
+    }
+    const body = match ? match[2].trim() : lineText;
+    const split = cueKind(body) === 'audio_event' ? { speaker: null, text: body } : splitSpeaker(body);
+    cues.push({ line: index + 1, start_ms: start, end_ms: null, ...split, kind: cueKind(split.text) });
+  });
+
+  // Each timed line runs until the next one starts
+  let clock = 0;
+  cues.forEach((cue, i) => {
+    const estimate = Math.max(1000, Math.round((cue.text.length / CHARS_PER_SECOND) * 1000));
+    cue.start_ms ??= clock;
+    const next = cues[i + 1]?.start_ms;
+    cue.end_ms = next !== null && next !== undefined && next >= cue.start_ms ? next : cue.start_ms + estimate;
+    clock = cue.end_ms;
+  });
+  for (let i = 1; i < cues.length; i++) {
+    if (cues[i].start_ms! < cues[i - 1].start_ms!) {
+      errors.push({ line: cues[i].line, message: 'Timestamp is earlier than the line before it' });
+    }
+  }
+  return cues;
+}
+
+/**
+ * Speaker ids in order of first appearance; captions without a name share one
+ * unnamed speaker, and audio events belong to whoever spoke last.
+ */
+function assignSpeakers(cues: RawCue[]): ImportedSegment[] {
+  const ids = new Map<string, string>();
+  let lastId = 'speaker_0';
+  let lastLabel = 'Speaker 0';
+  return [...cues]
+    .sort((a, b) => a.start_ms! - b.start_ms!)
+    .map((cue) => {
+      if (cue.kind === 'audio_event') {
+        return {
+          kind: 'audio_event' as const,
+          speaker_id: lastId,
+          speaker_label: lastLabel,
+          start_ms: cue.start_ms!,
+          end_ms: cue.end_ms!,
+          text: cue.text.replace(/^\[|\]$/g, ''),
+        };
+      }
+      const key = cue.speaker ?? '';
+      if (!ids.has(key)) ids.set(key, `speaker_${ids.size}`);
+      lastId = ids.get(key)!;
+      lastLabel = cue.speaker ?? `Speaker ${lastId.replace('speaker_', '')}`;
+      return {
+        kind: 'speech' as const,
+        speaker_id: lastId,
+        speaker_label: lastLabel,
+        start_ms: cue.start_ms!,
+        end_ms: cue.end_ms!,
+        text: cue.text,
+      };
+    });
+}
@@ -0,0 +1,55 @@
+// Plain-text rendering of transcript segments, shared by the summary prompt
+// and outgoing emails so both read the same.
+
+export interface TranscriptLineSegment {
+  kind?: 'speech' | 'audio_event';
+  start_ms: number;
+  speaker_label: string;
+  text: string;
+}
+
+export interface HighlightSpan {
+  start_ms: number;
+  end_ms: number;
+  note: string;
+}
+
+export function formatTime(ms: number): string {
+  const totalSec = Math.floor(ms / 1000);
+  const m = Math.floor(totalSec / 60);
+  const s = totalSec % 60;
+  return `${m}:${String(s).padStart(2, '0')}`;
+}
+
+/** `[m:ss] Speaker: text`, or `[m:ss] [laughter]` for audio events */
+export function formatTranscriptLine(segment: TranscriptLineSegment): string {
+  return segment.kind === 'audio_event'
+    ? `[${formatTime(segment.start_ms)}] [${segment.text}]`
+    : `[${formatTime(segment.start_ms)}] ${segment.speaker_label}: ${segment.text}`;
+}
+
+export function formatTranscript(
+  segments: TranscriptLineSegment[],
+  options: { includeAudioEvents: boolean },
+): string {
+  return segments
+    .filter((s) => options.includeAudioEvents || s.kind !== 'audio_event')
+    .map(formatTranscriptLine)
+    .join('\n');
+}
+
+/**
+ * One entry per highlight: its time range and note, followed by the speech
+ * it covers, so the model sees what was marked and why.
+ */
+export function formatHighlights(highlights: HighlightSpan[], segments: TranscriptLineSegment[]): string {
+  return highlights
+    .map((h) => {
+      const lines = segments
+        .filter((s) => s.kind !== 'audio_event' && s.start_ms >= h.start_ms && s.start_ms < h.end_ms)
+        .map((s) => `  ${s.speaker_label}: ${s.text}`);
+      const note = h.note ? ` ${h.note}` : '';
+      return [`- [${formatTime(h.start_ms)}-${formatTime(h.end_ms)}]${note}`, ...lines].join('\n');
+    })
+    .join('\n');
+}
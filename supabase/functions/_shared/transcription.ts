@@ -0,0 +1,287 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { correctTranscript, loadGlossary } from './glossary.ts';
+import { detectLanguage } from './language.ts';
+import { normalizeTranscript, type NormalizedTranscript, type NormalizedWord } from './providers/index.ts';
+import { segmentWords, segmenterOptionsFromSettings, type SegmenterOptions } from './segmenter.ts';
+import { stitchChunks } from './stitcher.ts';
+import type { ImportedSegment } from './transcript-import.ts';
+
+const INSERT_BATCH_SIZE = 500;
+
+interface JobRef {
+  id: string;
+  meeting_id: string;
+  provider: string;
+  /** Glossary terms the provider was biased with */
+  keyterms?: string[] | null;
+}
+
+interface ChunkJobRef extends JobRef {
+  parent_job_id: string;
+}
+
+/**
+ * Stores the provider's raw result on the job, writes the normalized
+ * transcript segments and marks the meeting as ready. Returns false without
+ * writing anything when the job was already completed by an earlier delivery.
+ */
+export async function completeTranscriptionJob(
+  supabase: SupabaseClient,
+  job: JobRef,
+  raw: unknown,
+  providerJobId?: string | null,
+): Promise<boolean> {
+  if (!await markJobCompleted(supabase, job.id, raw, providerJobId)) return false;
+  const transcript = normalizeTranscript(job.provider, raw);
+  try {
+    await writeTranscript(supabase, job, transcript);
+  } catch (err) {
+    await failTranscriptionJob(supabase, job, err.message);
+    throw err;
+  }
+  return true;
+}
+
+export async function failTranscriptionJob(
+  supabase: SupabaseClient,
+  job: Omit<JobRef, 'provider'>,
+  error: string,
+  raw?: unknown,
+): Promise<void> {
+  await supabase.from('transcription_jobs').update({
+    status: 'failed',
+    error,
+    ...(raw !== undefined ? { raw_response: raw } : {}),
+  }).eq('id', job.id);
+
+  // A failed re-transcription leaves the existing transcript in place
+  const { data: meeting } = await supabase
+    .from('meetings')
+    .select('active_revision_id')
+    .eq('id', job.meeting_id)
+    .single();
+  await supabase.from('meetings').update({
+    status: meeting?.active_revision_id ? 'ready' : 'failed',
+  }).eq('id', job.meeting_id);
+}
+
+/**
+ * Records the result of one chunk of a long recording. The delivery that
+ * completes the last outstanding chunk stitches the parent transcript.
+ */
+export async function completeChunkJob(
+  supabase: SupabaseClient,
+  chunk: ChunkJobRef,
+  raw: unknown,
+  providerJobId?: string | null,
+): Promise<boolean> {
+  if (!await markJobCompleted(supabase, chunk.id, raw, providerJobId)) return false;
+  await finalizeChunkedJob(supabase, chunk.parent_job_id);
+  return true;
+}
+
+/** A single failed chunk fails the whole transcription */
+export async function failChunkJob(
+  supabase: SupabaseClient,
+  chunk: ChunkJobRef,
+  error: string,
+  raw?: unknown,
+): Promise<void> {
+  await supabase.from('transcription_jobs').update({
+    status: 'failed',
+    error,
+    ...(raw !== undefined ? { raw_response: raw } : {}),
+  }).eq('id', chunk.id);
+  await failTranscriptionJob(
+    supabase,
+    { id: chunk.parent_job_id, meeting_id: chunk.meeting_id },
+    `Chunk ${chunk.id} failed: ${error}`,
+  );
+}
+
+async function finalizeChunkedJob(supabase: SupabaseClient, parentJobId: string): Promise<void> {
+  const { data: chunks } = await supabase
+    .from('transcription_jobs')
+    .select('*')
+    .eq('parent_job_id', parentJobId)
+    .order('chunk_index', { ascending: true });
+
+  if (!chunks?.length || chunks.some((c) => c.status !== 'completed')) return;
+
+  // Claim the parent so concurrent webhook deliveries stitch only once
+  const { data: claimed } = await supabase
+    .from('transcription_jobs')
+    .update({ status: 'completed' })
+    .eq('id', parentJobId)
+    .in('status', ['queued', 'running'])
+    .select('id, meeting_id, provider, keyterms');
+
+  const parent = claimed?.[0];
+  if (!parent) return;
+
+  try {
+    const transcript = stitchChunks(chunks.map((c) => ({
+      start_ms: c.chunk_start_ms,
+      end_ms: c.chunk_end_ms,
+      transcript: normalizeTranscript(c.provider, c.raw_response),
+    })));
+    await writeTranscript(supabase, parent, transcript);
+  } catch (err) {
+    await failTranscriptionJob(supabase, parent, `Stitching failed: ${err.message}`);
+    return;
+  }
+
+  // The chunk files were only needed by the provider
+  const chunkPaths = chunks.map((c) => c.media_path).filter(Boolean);
+  if (chunkPaths.length > 0) {
+    await supabase.storage.from('media').remove(chunkPaths);
+  }
+}
+
+/** Conditional update, so only one of several concurrent deliveries wins */
+async function markJobCompleted(
+  supabase: SupabaseClient,
+  jobId: string,
+  raw: unknown,
+  providerJobId?: string | null,
+): Promise<boolean> {
+  const { data } = await supabase.from('transcription_jobs').update({
+    status: 'completed',
+    raw_response: raw,
+    ...(providerJobId ? { provider_job_id: providerJobId } : {}),
+  }).eq('id', jobId).neq('status', 'completed').select('id');
+  return Boolean(data?.length);
+}
+
+async function writeTranscript(supabase: SupabaseClient, job: JobRef, transcript: NormalizedTranscript) {
+  const { data: settings } = await supabase
+    .from('app_settings')
+    .select('segment_max_pause_ms, segment_max_duration_ms, segment_max_chars, segment_split_on_sentence')
+    .eq('id', 1)
+    .single();
+
+  // Fix up glossary terms the provider could not be biased with
+  const glossary = await loadGlossary(supabase, job.meeting_id);
+  const corrected = correctTranscript(transcript, glossary, job.keyterms ?? []);
+
+  const revisionId = await createRevision(supabase, job);
+
+  const segments = buildSegments(job.meeting_id, revisionId, corrected, segmenterOptionsFromSettings(settings));
+  // Word-level meta makes rows large; keep each request a manageable size
+  for (let i = 0; i < segments.length; i += INSERT_BATCH_SIZE) {
+    const { error } = await supabase.from('transcript_segments').insert(segments.slice(i, i + INSERT_BATCH_SIZE));
+    if (error) throw new Error(`Failed to write transcript: ${error.message}`);
+  }
+
+  // Only switch once the revision is complete, so readers never see half of it
+  await supabase.from('meetings').update({
+    status: 'ready',
+    active_revision_id: revisionId,
+    duration_seconds: transcript.duration_ms ? Math.round(transcript.duration_ms / 1000) : null,
+  }).eq('id', job.meeting_id);
+}
+
+/**
+ * Writes segments parsed from an imported transcript file as a new revision
+ * and makes it the meeting's active one. Segments keep the file's own
+ * boundaries and speakers; the segmenter is not run again.
+ */
+export async function writeImportedTranscript(
+  supabase: SupabaseClient,
+  job: Omit<JobRef, 'provider'>,
+  imported: ImportedSegment[],
+): Promise<string> {
+  const revisionId = await createRevision(supabase, job);
+  const segments = imported.map((segment) => ({
+    meeting_id: job.meeting_id,
+    revision_id: revisionId,
+    ...segment,
+    language_code: segment.kind === 'speech' ? detectLanguage(segment.text) : null,
+  }));
+  for (let i = 0; i < segments.length; i += INSERT_BATCH_SIZE) {
+    const { error } = await supabase.from('transcript_segments').insert(segments.slice(i, i + INSERT_BATCH_SIZE));
+    if (error) throw new Error(`Failed to write transcript: ${error.message}`);
+  }
+
+  await supabase.from('meetings').update({
+    status: 'ready',
+    active_revision_id: revisionId,
+  }).eq('id', job.meeting_id);
+  return revisionId;
+}
+
+/**
+ * Creates the next numbered revision of the meeting's transcript for this
+ * job. Retries on a unique violation when two jobs finish at the same time.
+ */
+async function createRevision(supabase: SupabaseClient, job: Omit<JobRef, 'provider'>): Promise<string> {
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const { data: latest } = await supabase
+      .from('transcript_revisions')
+      .select('revision')
+      .eq('meeting_id', job.meeting_id)
+      .order('revision', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const { data: revision, error } = await supabase
+      .from('transcript_revisions')
+      .insert({ meeting_id: job.meeting_id, job_id: job.id, revision: (latest?.revision ?? 0) + 1 })
+      .select('id')
+      .single();
+
+    if (revision) return revision.id;
+    if (error?.code !== '23505') {
+      throw new Error(`Failed to create transcript revision: ${error?.message}`);
+    }
+  }
+  throw new Error('Failed to create transcript revision: too many concurrent writers');
+}
+
+function buildSegments(
+  meetingId: string,
+  revisionId: string,
+  transcript: NormalizedTranscript,
+  options: SegmenterOptions,
+) {
+  if (transcript.words.length === 0) {
+    return transcript.text
+      ? [{
+        meeting_id: meetingId,
+        revision_id: revisionId,
+        speaker_id: 'speaker_0',
+        speaker_label: 'Speaker 0',
+        start_ms: 0,
+        end_ms: transcript.duration_ms ?? 0,
+        text: transcript.text,
+        language_code: detectLanguage(transcript.text, transcript.language_code),
+      }]
+      : [];
+  }
+
+  return segmentWords(transcript.words, options).map((segment) => ({
+    meeting_id: meetingId,
+    revision_id: revisionId,
+    kind: segment.kind,
+    speaker_id: segment.speaker_id,
+    speaker_label: `Speaker ${segment.speaker_id.replace('speaker_', '')}`,
+    start_ms: segment.start_ms,
+    end_ms: segment.end_ms,
+    text: segment.text,
+    // Event labels come from the provider's tag vocabulary, not the spoken language
+    language_code: segment.kind === 'speech' ? detectLanguage(segment.text, transcript.language_code) : null,
+    meta: { words: segment.words.map(toSegmentWord) },
+  }));
+}
+
+/** Shape of each entry in transcript_segments.meta.words */
+function toSegmentWord(word: NormalizedWord) {
+  return {
+    text: word.text,
+    start_ms: word.start_ms,
+    end_ms: word.end_ms,
+    speaker_id: word.speaker_id,
+    confidence: word.confidence === null ? null : Math.round(word.confidence * 1000) / 1000,
+    ...(word.type === 'audio_event' ? { type: word.type } : {}),
+  };
+}
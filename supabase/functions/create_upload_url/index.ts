@@ -46,7 +46,7 @@ serve(async (req) => {
       });
     }
 
-    const { title, filename, mime } = await req.json();
+    const { title, filename, mime, durationSeconds, customTerms } = await req.json();
     if (!filename || !mime) {
       return new Response(JSON.stringify({ error: 'filename and mime are required' }), {
         status: 400,
@@ -75,6 +75,11 @@ serve(async (req) => {
       source_filename: filename,
       media_path: storagePath,
       media_mime: mime,
+      // Measured by the browser; lets start_transcription decide on chunking up front
+      duration_seconds: Number.isFinite(durationSeconds) ? Math.round(durationSeconds) : null,
+      custom_terms: Array.isArray(customTerms)
+        ? customTerms.filter((t) => typeof t === 'string' && t.trim()).map((t: string) => t.trim())
+        : [],
       status: 'uploaded',
     });
 
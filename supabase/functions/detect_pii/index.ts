@@ -0,0 +1,142 @@
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  detectPii, locateMark, marksByTarget, PII_KINDS, type PiiKind, type StoredRedaction,
+} from '../_shared/redaction.ts';
+import { fetchAllRows } from '../_shared/pagination.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+type StoredMark = StoredRedaction & { id: string };
+
+// Runs the configured detectors over the active transcript and the meeting's
+// summaries. Marks someone already confirmed or dismissed are kept; open
+// suggestions are replaced by what the detectors find in the current text.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+    );
+
+    const authHeader = req.headers.get('Authorization')!;
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', ''),
+    );
+    if (authError || !user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { meetingId } = await req.json();
+
+    const { data: meeting } = await supabase
+      .from('meetings')
+      .select('id, active_revision_id')
+      .eq('id', meetingId)
+      .eq('owner_id', user.id)
+      .eq('status', 'ready')
+      .single();
+
+    if (!meeting) {
+      return new Response(JSON.stringify({ error: 'Meeting not found or not ready' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const [{ data: segments }, { data: summaries }, { data: settings }, { data: existing }] = await Promise.all([
+      fetchAllRows((from, to) => supabase
+        .from('transcript_segments')
+        .select('id, text')
+        .eq('revision_id', meeting.active_revision_id)
+        .eq('kind', 'speech')
+        .order('id')
+        .range(from, to)),
+      supabase.from('summaries').select('id, content_md').eq('meeting_id', meetingId),
+      supabase.from('app_settings').select('redaction_detectors').eq('id', 1).single(),
+      supabase
+        .from('pii_redactions')
+        .select('id, target_id, start_offset, end_offset, kind, text, status')
+        .eq('meeting_id', meetingId),
+    ]);
+
+    const kinds: PiiKind[] = (settings?.redaction_detectors ?? PII_KINDS)
+      .filter((k: string): k is PiiKind => (PII_KINDS as string[]).includes(k));
+
+    const targets = [
+      ...(segments ?? []).map((s) => ({ target: 'segment', id: s.id as string, text: s.text as string })),
+      ...(summaries ?? []).map((s) => ({ target: 'summary', id: s.id as string, text: s.content_md as string })),
+    ];
+
+    const reviewed = marksByTarget((existing ?? []).filter((m: StoredMark) => m.status !== 'suggested'));
+    const staleSuggestions = new Set(
+      (existing ?? []).filter((m: StoredMark) => m.status === 'suggested').map((m: StoredMark) => m.id),
+    );
+    const inserts: Record<string, unknown>[] = [];
+
+    for (const { target, id, text } of targets) {
+      const reviewedHere = (reviewed.get(id) ?? [])
+        .map((m) => locateMark(text, m))
+        .filter((m) => m !== null);
+      // A reviewed mark whose text moved in an edit still holds its stored
+      // offsets, and a second mark can't take them
+      const heldOffsets = new Set((reviewed.get(id) ?? []).map((m) => `${m.start}:${m.end}`));
+      for (const span of detectPii(text, kinds)) {
+        if (reviewedHere.some((m) => m.start < span.end && span.start < m.end)) continue;
+        if (heldOffsets.has(`${span.start}:${span.end}`)) continue;
+        const current = (existing ?? []).find((m: StoredMark) =>
+          m.status === 'suggested' && m.target_id === id && m.start_offset === span.start && m.end_offset === span.end,
+        );
+        if (current) {
+          staleSuggestions.delete(current.id);
+          continue;
+        }
+        inserts.push({
+          meeting_id: meetingId,
+          target,
+          target_id: id,
+          start_offset: span.start,
+          end_offset: span.end,
+          kind: span.kind,
+          text: span.text,
+        });
+      }
+    }
+
+    if (staleSuggestions.size) {
+      const { error } = await supabase.from('pii_redactions').delete().in('id', [...staleSuggestions]);
+      if (error) throw new Error(error.message);
+    }
+    if (inserts.length) {
+      const { error } = await supabase.from('pii_redactions').insert(inserts);
+      if (error) throw new Error(error.message);
+    }
+
+    const { data: redactions, error } = await supabase
+      .from('pii_redactions')
+      .select('*')
+      .eq('meeting_id', meetingId)
+      .order('created_at', { ascending: true });
+    if (error) throw new Error(error.message);
+
+    return new Response(
+      JSON.stringify({ redactions }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+    );
+  } catch (err) {
+    return new Response(JSON.stringify({ error: err.message }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
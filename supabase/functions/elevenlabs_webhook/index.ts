@@ -1,123 +1,154 @@
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { parseElevenLabsCallback, verifyElevenLabsSignature } from '../_shared/providers/elevenlabs.ts';
+import type { CallbackResult } from '../_shared/providers/types.ts';
+import {
+  completeChunkJob,
+  completeTranscriptionJob,
+  failChunkJob,
+  failTranscriptionJob,
+} from '../_shared/transcription.ts';
+
+interface Delivery {
+  job_id?: string | null;
+  provider_job_id?: string | null;
+  signature_valid: boolean;
+  outcome: 'processed' | 'duplicate' | 'rejected' | 'not_found' | 'error';
+  http_status: number;
+  error?: string;
+  payload?: unknown;
+}
+
+/** Outcomes worth debugging from the payload; the others log only its size */
+const PAYLOAD_OUTCOMES: Delivery['outcome'][] = ['rejected', 'error'];
 
 serve(async (req) => {
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+  );
+
+  // Record every attempt, then answer the provider. Results carry the whole
+  // transcript, personal data included, so a payload is only kept when the
+  // delivery failed.
+  let payloadBytes: number | null = null;
+  const respond = async (body: string, { payload, ...delivery }: Delivery) => {
+    await logDelivery(supabase, {
+      ...delivery,
+      payload: PAYLOAD_OUTCOMES.includes(delivery.outcome) ? payload : null,
+      payload_bytes: payloadBytes,
+    });
+    return new Response(body, { status: delivery.http_status });
+  };
+
+  const secret = Deno.env.get('ELEVENLABS_WEBHOOK_SECRET');
+  if (!secret) {
+    console.error('ELEVENLABS_WEBHOOK_SECRET is not set; rejecting webhook delivery');
+    return respond('Webhook secret not configured', {
+      signature_valid: false,
+      outcome: 'rejected',
+      http_status: 500,
+      error: 'Webhook secret not configured',
+    });
+  }
+
+  const rawBody = await req.text();
+  payloadBytes = new TextEncoder().encode(rawBody).length;
+  const signature = await verifyElevenLabsSignature(req.headers.get('elevenlabs-signature'), rawBody, secret);
+  if (!signature.valid) {
+    return respond('Forbidden', {
+      signature_valid: false,
+      outcome: 'rejected',
+      http_status: 401,
+      error: signature.reason,
+    });
+  }
+
+  let payload: unknown;
   try {
-    const supabase = createClient(
-      Deno.env.get('SUPABASE_URL')!,
-      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
-    );
-
-    const url = new URL(req.url);
-    const secret = url.searchParams.get('secret');
-    const jobId = url.searchParams.get('job_id');
-
-    // Verify webhook secret
-    const expectedSecret = Deno.env.get('WEBHOOK_SECRET');
-    if (expectedSecret && secret !== expectedSecret) {
-      return new Response('Forbidden', { status: 403 });
-    }
+    payload = JSON.parse(rawBody);
+  } catch {
+    return respond('Invalid JSON', {
+      signature_valid: true,
+      outcome: 'rejected',
+      http_status: 400,
+      error: 'Invalid JSON body',
+    });
+  }
 
-    if (!jobId) {
-      return new Response('Missing job_id', { status: 400 });
-    }
+  // webhook_metadata is itself a JSON string, which can be malformed too
+  let callback: CallbackResult;
+  try {
+    callback = parseElevenLabsCallback(payload);
+  } catch (err) {
+    return respond('Invalid callback', {
+      signature_valid: true,
+      outcome: 'rejected',
+      http_status: 400,
+      error: `Invalid callback: ${err.message}`,
+      payload,
+    });
+  }
 
-    const payload = await req.json();
+  const url = new URL(req.url);
+  const jobId = url.searchParams.get('job_id') ?? callback.jobId;
+  // Only a job that exists can be referenced from the log
+  const delivery = {
+    job_id: null as string | null,
+    provider_job_id: callback.providerJobId,
+    signature_valid: true,
+    payload,
+  };
+
+  try {
+    if (!jobId && !callback.providerJobId) {
+      return respond('Missing job_id', { ...delivery, outcome: 'rejected', http_status: 400, error: 'Missing job_id' });
+    }
 
     // Get the job
-    const { data: job } = await supabase
-      .from('transcription_jobs')
-      .select('*, meetings(*)')
-      .eq('id', jobId)
-      .single();
+    let jobQuery = supabase.from('transcription_jobs').select('*');
+    jobQuery = jobId ? jobQuery.eq('id', jobId) : jobQuery.eq('provider_job_id', callback.providerJobId);
+    const { data: job } = await jobQuery.maybeSingle();
 
     if (!job) {
-      return new Response('Job not found', { status: 404 });
+      return respond('Job not found', { ...delivery, outcome: 'not_found', http_status: 404 });
     }
+    delivery.job_id = job.id;
 
-    const meetingId = job.meeting_id;
-
-    if (payload.status === 'failed' || payload.error) {
-      await supabase.from('transcription_jobs').update({
-        status: 'failed',
-        error: payload.error || 'Unknown error',
-        raw_response: payload,
-      }).eq('id', jobId);
-
-      await supabase.from('meetings').update({ status: 'failed' }).eq('id', meetingId);
-      return new Response('OK', { status: 200 });
+    // Providers retry deliveries; a finished job must not be written twice
+    if (job.status === 'completed') {
+      return respond('OK', { ...delivery, outcome: 'duplicate', http_status: 200 });
     }
 
-    // Save raw response
-    await supabase.from('transcription_jobs').update({
-      status: 'completed',
-      raw_response: payload,
-    }).eq('id', jobId);
-
-    // Parse and normalize segments
-    const words = payload.words || [];
-    if (words.length > 0) {
-      const segments: Array<{
-        meeting_id: string;
-        speaker_id: string;
-        speaker_label: string;
-        start_ms: number;
-        end_ms: number;
-        text: string;
-      }> = [];
-
-      let currentSpeaker = words[0].speaker_id ?? 'speaker_0';
-      let segmentStart = Math.round((words[0].start ?? 0) * 1000);
-      let segmentWords: string[] = [];
-      let segmentEnd = segmentStart;
-
-      for (const word of words) {
-        const speaker = word.speaker_id ?? 'speaker_0';
-        const wordEnd = Math.round((word.end ?? 0) * 1000);
-        const wordStart = Math.round((word.start ?? 0) * 1000);
-
-        if (speaker !== currentSpeaker) {
-          segments.push({
-            meeting_id: meetingId,
-            speaker_id: currentSpeaker,
-            speaker_label: `Speaker ${currentSpeaker.replace('speaker_', '')}`,
-            start_ms: segmentStart,
-            end_ms: segmentEnd,
-            text: segmentWords.join(' '),
-          });
-          currentSpeaker = speaker;
-          segmentStart = wordStart;
-          segmentWords = [];
-        }
-        segmentWords.push(word.text ?? '');
-        segmentEnd = wordEnd;
-      }
+    const providerJobId = job.provider_job_id ?? callback.providerJobId;
 
-      if (segmentWords.length > 0) {
-        segments.push({
-          meeting_id: meetingId,
-          speaker_id: currentSpeaker,
-          speaker_label: `Speaker ${currentSpeaker.replace('speaker_', '')}`,
-          start_ms: segmentStart,
-          end_ms: segmentEnd,
-          text: segmentWords.join(' '),
-        });
+    // Chunks of a long recording only finalize the meeting once all of them are in
+    if (job.parent_job_id) {
+      if (callback.status === 'failed') {
+        await failChunkJob(supabase, job, callback.error || 'Unknown error', callback.raw);
+      } else if (!await completeChunkJob(supabase, job, callback.raw, providerJobId)) {
+        return respond('OK', { ...delivery, outcome: 'duplicate', http_status: 200 });
       }
+      return respond('OK', { ...delivery, outcome: 'processed', http_status: 200 });
+    }
 
-      if (segments.length > 0) {
-        await supabase.from('transcript_segments').insert(segments);
-      }
+    if (callback.status === 'failed') {
+      await failTranscriptionJob(supabase, job, callback.error || 'Unknown error', callback.raw);
+      return respond('OK', { ...delivery, outcome: 'processed', http_status: 200 });
     }
 
-    // Update meeting
-    await supabase.from('meetings').update({
-      status: 'ready',
-      duration_seconds: payload.duration ? Math.round(payload.duration) : null,
-    }).eq('id', meetingId);
+    const written = await completeTranscriptionJob(supabase, job, callback.raw, providerJobId);
 
-    return new Response('OK', { status: 200 });
+    return respond('OK', { ...delivery, outcome: written ? 'processed' : 'duplicate', http_status: 200 });
   } catch (err) {
     console.error('Webhook error:', err);
-    return new Response('Internal error', { status: 500 });
+    return respond('Internal error', { ...delivery, outcome: 'error', http_status: 500, error: err.message });
   }
 });
+
+async function logDelivery(supabase: SupabaseClient, delivery: Delivery & { payload_bytes: number | null }) {
+  const { error } = await supabase.from('webhook_deliveries').insert({ provider: 'elevenlabs', ...delivery });
+  if (error) {
+    console.error('Failed to log webhook delivery:', error.message);
+  }
+}
@@ -1,5 +1,9 @@
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { formatHighlights, formatTranscript } from '../_shared/transcript-text.ts';
+import { chatSettings, createChatCompletion, streamChatCompletion, type ChatMessage } from '../_shared/openrouter.ts';
+import { computeMeetingAnalytics, formatAnalytics } from '../_shared/analytics.ts';
+import { fetchAllRows } from '../_shared/pagination.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -28,7 +32,9 @@ serve(async (req) => {
       });
     }
 
-    const { meetingId, templateId, modelId, userInstructions, forceNewVersion } = await req.json();
+    const {
+      meetingId, templateId, modelId, userInstructions, forceNewVersion, includeAudioEvents, stream,
+    } = await req.json();
 
     // Verify meeting belongs to user and is ready
     const { data: meeting } = await supabase
@@ -79,11 +85,14 @@ serve(async (req) => {
     }
 
     // Get transcript segments
-    const { data: segments } = await supabase
+    const { data: segments } = await fetchAllRows((from, to) => supabase
       .from('transcript_segments')
       .select('*')
       .eq('meeting_id', meetingId)
-      .order('start_ms', { ascending: true });
+      .eq('revision_id', meeting.active_revision_id)
+      .order('start_ms', { ascending: true })
+      .order('id')
+      .range(from, to));
 
     if (!segments || segments.length === 0) {
       return new Response(JSON.stringify({ error: 'No transcript segments found' }), {
@@ -92,90 +101,131 @@ serve(async (req) => {
       });
     }
 
-    // Build transcript text
-    const formatTime = (ms: number) => {
-      const totalSec = Math.floor(ms / 1000);
-      const m = Math.floor(totalSec / 60);
-      const s = totalSec % 60;
-      return `${m}:${String(s).padStart(2, '0')}`;
-    };
-
-    const transcriptText = segments
-      .map((s: any) => `[${formatTime(s.start_ms)}] ${s.speaker_label}: ${s.text}`)
+    // Build transcript text; laughter and applause are noise to most templates
+    const transcriptText = formatTranscript(segments, { includeAudioEvents: includeAudioEvents === true });
+
+    // Speakers linked to the participant directory; their names are already the speaker labels
+    const { data: links } = await supabase
+      .from('meeting_speakers')
+      .select('participants(name, email, role)')
+      .eq('revision_id', meeting.active_revision_id);
+    const participantsText = (links ?? [])
+      .map((l) => l.participants as { name: string; email: string | null; role: string | null } | null)
+      .filter((p) => p !== null)
+      .map((p) => `- ${p.name}${p.role ? `, ${p.role}` : ''}${p.email ? ` <${p.email}>` : ''}`)
       .join('\n');
 
+    // Spans the user highlighted while listening, with their notes
+    const { data: highlights } = await supabase
+      .from('meeting_bookmarks')
+      .select('start_ms, end_ms, note')
+      .eq('meeting_id', meetingId)
+      .eq('kind', 'highlight')
+      .order('start_ms', { ascending: true });
+    const highlightsText = formatHighlights(highlights ?? [], segments);
+
     // Prepare prompts
     const systemPrompt = template.system_prompt;
-    const userPrompt = template.user_prompt
-      .replace('{{TRANSCRIPT}}', transcriptText)
-      .replace('{{INSTRUCTIONS}}', userInstructions || 'None');
-
-    // Call OpenRouter
-    const openrouterKey = Deno.env.get('OPENROUTER_API_KEY');
-    if (!openrouterKey) {
-      return new Response(JSON.stringify({ error: 'OpenRouter API key not configured' }), {
-        status: 500,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
+    // All placeholders are filled in one pass over the template, so inserted
+    // text is never rewritten: a transcript that quotes "{{HIGHLIGHTS}}" or a
+    // note containing "$&" goes in as written
+    const placeholders: Record<string, () => string> = {
+      TRANSCRIPT: () => transcriptText,
+      INSTRUCTIONS: () => userInstructions || 'None',
+      PARTICIPANTS: () => participantsText || 'Unknown',
+      HIGHLIGHTS: () => highlightsText || 'None',
+      // Participation statistics only when the template asks for them
+      ANALYTICS: () => formatAnalytics(computeMeetingAnalytics(segments)),
+    };
+    let userPrompt = template.user_prompt.replace(
+      /\{\{([A-Z]+)\}\}/g,
+      (placeholder: string, name: string) => placeholders[name]?.() ?? placeholder,
+    );
+    if (!template.user_prompt.includes('{{PARTICIPANTS}}') && participantsText) {
+      userPrompt += `\n\nKnown participants:\n${participantsText}`;
+    }
+    if (!template.user_prompt.includes('{{HIGHLIGHTS}}') && highlightsText) {
+      userPrompt += `\n\nMoments the user highlighted (give these extra weight):\n${highlightsText}`;
     }
 
-    const model = modelId || settings?.openrouter_default_model || 'anthropic/claude-sonnet-4-5-20250929';
-    const temperature = settings?.openrouter_temperature ?? 0.2;
-    const maxTokens = settings?.openrouter_max_tokens ?? 1200;
-
-    const openrouterResponse = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openrouterKey}`,
-        'Content-Type': 'application/json',
-        'HTTP-Referer': Deno.env.get('SUPABASE_URL') || '',
-      },
-      body: JSON.stringify({
-        model,
-        temperature,
-        max_tokens: maxTokens,
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userPrompt },
-        ],
-      }),
-    });
+    const chat = chatSettings(settings, modelId);
+    const messages: ChatMessage[] = [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: userPrompt },
+    ];
+
+    // The version is numbered when the text is saved, so a summary that took
+    // a minute to stream doesn't reuse a number taken in the meantime
+    const saveSummary = async (contentMd: string, llmResult: unknown, isPartial: boolean) => {
+      const { data: existingSummaries } = await supabase
+        .from('summaries')
+        .select('version')
+        .eq('meeting_id', meetingId)
+        .order('version', { ascending: false })
+        .limit(1);
+
+      const nextVersion = (existingSummaries?.[0]?.version ?? 0) + 1;
+
+      const summaryId = crypto.randomUUID();
+      await supabase.from('summaries').insert({
+        id: summaryId,
+        meeting_id: meetingId,
+        version: nextVersion,
+        template_id: template.id,
+        model_id: chat.model,
+        content_md: contentMd,
+        raw_response: llmResult,
+        is_partial: isPartial,
+      });
+      return { summaryId, version: nextVersion };
+    };
 
-    if (!openrouterResponse.ok) {
-      const errorText = await openrouterResponse.text();
-      return new Response(JSON.stringify({ error: `OpenRouter error: ${errorText}` }), {
-        status: 500,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    // Server-sent events: "delta" with each piece of text, then "done" with
+    // the saved version, or "error" with the partial version if any text arrived
+    if (stream) {
+      const encoder = new TextEncoder();
+      const upstream = new AbortController();
+      let closed = false;
+      const body = new ReadableStream<Uint8Array>({
+        async start(controller) {
+          const send = (event: string, data: unknown) => {
+            if (!closed) controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+          };
+          let contentMd = '';
+          try {
+            for await (const text of streamChatCompletion(chat, messages, upstream.signal)) {
+              contentMd += text;
+              send('delta', { text });
+            }
+            const saved = await saveSummary(contentMd, { streamed: true }, false);
+            send('done', { ...saved, content_md: contentMd });
+          } catch (err) {
+            const error = closed ? 'The connection to the browser was closed' : err.message;
+            const partial = contentMd.trim()
+              ? await saveSummary(contentMd, { streamed: true, interrupted: error }, true)
+              : null;
+            send('error', { error, partial: partial && { ...partial, content_md: contentMd } });
+          }
+          if (!closed) controller.close();
+        },
+        // The browser went away; stop paying for tokens nobody will read
+        cancel() {
+          closed = true;
+          upstream.abort();
+        },
+      });
+      return new Response(body, {
+        headers: { ...corsHeaders, 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' },
       });
     }
 
-    const llmResult = await openrouterResponse.json();
-    const contentMd = llmResult.choices?.[0]?.message?.content || '';
-
-    // Determine version number
-    const { data: existingSummaries } = await supabase
-      .from('summaries')
-      .select('version')
-      .eq('meeting_id', meetingId)
-      .order('version', { ascending: false })
-      .limit(1);
-
-    const nextVersion = (existingSummaries?.[0]?.version ?? 0) + 1;
-
-    // Insert summary
-    const summaryId = crypto.randomUUID();
-    await supabase.from('summaries').insert({
-      id: summaryId,
-      meeting_id: meetingId,
-      version: nextVersion,
-      template_id: template.id,
-      model_id: model,
-      content_md: contentMd,
-      raw_response: llmResult,
-    });
+    const { content: contentMd, finishReason, raw: llmResult } = await createChatCompletion(chat, messages);
+    // As when streaming, an answer cut off by the token limit or a filter is partial
+    const isPartial = finishReason !== 'stop';
+    const { summaryId, version: nextVersion } = await saveSummary(contentMd, llmResult, isPartial);
 
     return new Response(
-      JSON.stringify({ summaryId, version: nextVersion, content_md: contentMd }),
+      JSON.stringify({ summaryId, version: nextVersion, content_md: contentMd, is_partial: isPartial }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
     );
   } catch (err) {
@@ -0,0 +1,117 @@
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { parseTranscriptFile } from '../_shared/transcript-import.ts';
+import { failTranscriptionJob, writeImportedTranscript } from '../_shared/transcription.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Creates a ready meeting from a transcript file, or attaches the transcript
+// to a meeting whose recording was just uploaded, without transcribing it.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+    );
+
+    const authHeader = req.headers.get('Authorization')!;
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', ''),
+    );
+    if (authError || !user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { meetingId, title, filename, content, customTerms } = await req.json();
+    if (!filename || typeof content !== 'string') {
+      return new Response(JSON.stringify({ error: 'filename and content are required' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { format, segments, errors } = parseTranscriptFile(filename, content);
+    if (errors.length > 0) {
+      return new Response(JSON.stringify({
+        error: `Line ${errors[0].line}: ${errors[0].message}`,
+        errors,
+      }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    let targetId = meetingId as string | undefined;
+    if (targetId) {
+      const { data: meeting } = await supabase
+        .from('meetings')
+        .select('id')
+        .eq('id', targetId)
+        .eq('owner_id', user.id)
+        .single();
+      if (!meeting) {
+        return new Response(JSON.stringify({ error: 'Meeting not found' }), {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+    } else {
+      // No recording: the transcript is all there is
+      targetId = crypto.randomUUID();
+      const { error: insertError } = await supabase.from('meetings').insert({
+        id: targetId,
+        owner_id: user.id,
+        title: title || filename,
+        source_filename: filename,
+        media_path: null,
+        media_mime: null,
+        duration_seconds: Math.round(Math.max(...segments.map((s) => s.end_ms)) / 1000),
+        custom_terms: Array.isArray(customTerms)
+          ? customTerms.filter((t) => typeof t === 'string' && t.trim()).map((t: string) => t.trim())
+          : [],
+        status: 'transcribing',
+      });
+      if (insertError) {
+        return new Response(JSON.stringify({ error: insertError.message }), {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+    }
+
+    const job = { id: crypto.randomUUID(), meeting_id: targetId };
+    await supabase.from('transcription_jobs').insert({
+      ...job,
+      provider: 'import',
+      status: 'completed',
+      raw_response: { filename, format, segment_count: segments.length },
+    });
+
+    try {
+      await writeImportedTranscript(supabase, job, segments);
+    } catch (err) {
+      await failTranscriptionJob(supabase, job, err.message);
+      throw err;
+    }
+
+    return new Response(
+      JSON.stringify({ meetingId: targetId, jobId: job.id, format, segmentCount: segments.length }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+    );
+  } catch (err) {
+    return new Response(JSON.stringify({ error: err.message }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
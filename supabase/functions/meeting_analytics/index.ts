@@ -0,0 +1,116 @@
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  aggregateAnalytics, computeMeetingAnalytics, type AnalyticsMeetingInput,
+} from '../_shared/analytics.ts';
+import { fetchAllRows } from '../_shared/pagination.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface MeetingRow {
+  id: string;
+  title: string;
+  source_filename: string;
+  created_at: string;
+  active_revision_id: string;
+}
+
+async function analyzeMeeting(supabase: SupabaseClient, meeting: MeetingRow): Promise<AnalyticsMeetingInput> {
+  const [{ data: segments }, { data: links }] = await Promise.all([
+    fetchAllRows((from, to) => supabase
+      .from('transcript_segments')
+      .select('kind, speaker_id, speaker_label, start_ms, end_ms, text')
+      .eq('revision_id', meeting.active_revision_id)
+      .order('start_ms', { ascending: true })
+      .order('id')
+      .range(from, to)),
+    supabase
+      .from('meeting_speakers')
+      .select('speaker_id, participants(id, name)')
+      .eq('revision_id', meeting.active_revision_id),
+  ]);
+  const participants: AnalyticsMeetingInput['participants'] = {};
+  for (const link of links ?? []) {
+    const participant = link.participants as { id: string; name: string } | null;
+    if (participant) participants[link.speaker_id] = participant;
+  }
+  return {
+    meeting_id: meeting.id,
+    title: meeting.title || meeting.source_filename,
+    created_at: meeting.created_at,
+    analytics: computeMeetingAnalytics(segments ?? []),
+    participants,
+  };
+}
+
+// With a meetingId, the statistics of that meeting; without one, an overview
+// across all of the user's transcribed meetings.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+    );
+
+    const authHeader = req.headers.get('Authorization')!;
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', ''),
+    );
+    if (authError || !user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { meetingId } = await req.json();
+
+    let query = supabase
+      .from('meetings')
+      .select('id, title, source_filename, created_at, active_revision_id')
+      .eq('owner_id', user.id)
+      .eq('status', 'ready')
+      .not('active_revision_id', 'is', null)
+      .order('created_at', { ascending: false });
+    if (meetingId) query = query.eq('id', meetingId);
+    const { data: meetings, error } = await query;
+    if (error) throw new Error(error.message);
+
+    if (meetingId) {
+      if (!meetings?.length) {
+        return new Response(JSON.stringify({ error: 'Meeting not found or not ready' }), {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+      const { analytics } = await analyzeMeeting(supabase, meetings[0]);
+      return new Response(
+        JSON.stringify({ analytics }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    // One meeting at a time keeps memory flat for users with many long meetings
+    const inputs: AnalyticsMeetingInput[] = [];
+    for (const meeting of meetings ?? []) {
+      inputs.push(await analyzeMeeting(supabase, meeting));
+    }
+
+    return new Response(
+      JSON.stringify({ overview: aggregateAnalytics(inputs) }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+    );
+  } catch (err) {
+    return new Response(JSON.stringify({ error: err.message }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -1,6 +1,15 @@
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
 import { encode as base64Encode } from 'https://deno.land/std@0.177.0/encoding/base64url.ts';
+import { encode as base64EncodeStd } from 'https://deno.land/std@0.177.0/encoding/base64.ts';
+import { formatTranscript } from '../_shared/transcript-text.ts';
+import {
+  clipText, exportClipBundle, exportFileName, exportTranscript, type ExportFormat, type ExportSegment,
+} from '../_shared/export/index.ts';
+import {
+  externalRecipients, marksByTarget, PII_KINDS, redactSegments, redactText, type PiiKind, type RedactionMark,
+} from '../_shared/redaction.ts';
+import { fetchAllRows } from '../_shared/pagination.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -28,7 +37,11 @@ serve(async (req) => {
       });
     }
 
-    const { meetingId, toRecipients, ccRecipients, subject, messagePreface, includeTranscript } = await req.json();
+    const {
+      meetingId, toRecipients, ccRecipients, subject, messagePreface, includeTranscript, attachments, clipIds, redact,
+    } = await req.json();
+    const attachmentFormats: ExportFormat[] = attachments ?? [];
+    const selectedClipIds: string[] = clipIds ?? [];
 
     // Verify meeting belongs to user
     const { data: meeting } = await supabase
@@ -45,50 +58,113 @@ serve(async (req) => {
       });
     }
 
-    // Get latest summary
+    // Get latest complete summary; a stream that broke off leaves a partial one
     const { data: summary } = await supabase
       .from('summaries')
       .select('*')
       .eq('meeting_id', meetingId)
+      .eq('is_partial', false)
       .order('version', { ascending: false })
       .limit(1)
       .single();
 
     if (!summary) {
-      return new Response(JSON.stringify({ error: 'No summary found for this meeting. Generate a summary first.' }), {
+      return new Response(JSON.stringify({ error: 'No complete summary found for this meeting. Generate a summary first.' }), {
         status: 400,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
     }
 
+    // Admins can require redaction whenever anyone outside the organisation
+    // receives the email; without configured domains, every recipient is external
+    const { data: settings } = await supabase
+      .from('app_settings')
+      .select('redaction_detectors, redact_external_email, internal_email_domains')
+      .eq('id', 1)
+      .single();
+    const external = externalRecipients([...toRecipients, ...(ccRecipients ?? [])], settings?.internal_email_domains ?? []);
+    const redacted = Boolean(redact) || (Boolean(settings?.redact_external_email) && external.length > 0);
+    const kinds: PiiKind[] = (settings?.redaction_detectors ?? PII_KINDS)
+      .filter((k: string): k is PiiKind => (PII_KINDS as string[]).includes(k));
+
+    let marks = new Map<string, RedactionMark[]>();
+    if (redacted) {
+      const { data } = await supabase
+        .from('pii_redactions')
+        .select('target_id, start_offset, end_offset, kind, text, status')
+        .eq('meeting_id', meetingId);
+      marks = marksByTarget(data ?? []);
+    }
+    const summaryMd: string = redacted
+      ? redactText(summary.content_md, marks.get(summary.id) ?? [], kinds)
+      : summary.content_md;
+    // Typed for this email, so there are no reviewed marks; detection alone applies
+    const sentSubject: string = redacted ? redactText(subject, [], kinds) : subject;
+    const preface: string = redacted && messagePreface ? redactText(messagePreface, [], kinds) : messagePreface;
+
     // Build email body
     let body = '';
-    if (messagePreface) {
-      body += messagePreface + '\n\n---\n\n';
+    if (preface) {
+      body += preface + '\n\n---\n\n';
     }
-    body += summary.content_md;
+    body += summaryMd;
 
-    if (includeTranscript) {
-      const { data: segments } = await supabase
+    let segments: ExportSegment[] = [];
+    if (includeTranscript || attachmentFormats.length > 0) {
+      const { data } = await fetchAllRows((from, to) => supabase
         .from('transcript_segments')
         .select('*')
         .eq('meeting_id', meetingId)
-        .order('start_ms', { ascending: true });
+        .eq('revision_id', meeting.active_revision_id)
+        .order('start_ms', { ascending: true })
+        .order('id')
+        .range(from, to));
+      segments = redacted ? redactSegments(data ?? [], marks, kinds) : data ?? [];
+    }
+
+    if (includeTranscript && segments.length > 0) {
+      const transcriptText = formatTranscript(segments, { includeAudioEvents: true });
 
-      if (segments && segments.length > 0) {
-        const formatTime = (ms: number) => {
-          const totalSec = Math.floor(ms / 1000);
-          const m = Math.floor(totalSec / 60);
-          const s = totalSec % 60;
-          return `${m}:${String(s).padStart(2, '0')}`;
-        };
+      body += '\n\n---\n\nFull Transcript:\n\n' + transcriptText;
+    }
 
-        const transcriptText = segments
-          .map((s: any) => `[${formatTime(s.start_ms)}] ${s.speaker_label}: ${s.text}`)
-          .join('\n');
+    const title = meeting.title || meeting.source_filename;
 
-        body += '\n\n---\n\nFull Transcript:\n\n' + transcriptText;
-      }
+    // Clips go in the body as excerpts and are attached as subtitle bundles
+    let clips: { title: string; start_ms: number; end_ms: number; excerpt: ExportSegment[] }[] = [];
+    if (selectedClipIds.length > 0) {
+      const { data } = await supabase
+        .from('meeting_clips')
+        .select('title, start_ms, end_ms, excerpt')
+        .eq('meeting_id', meetingId)
+        .in('id', selectedClipIds)
+        .order('start_ms', { ascending: true });
+      clips = data ?? [];
+    }
+    // Excerpts are snapshots without segment ids, so only the detectors apply to them
+    const clipExcerpts = clips.map((c) => ({
+      title: c.title,
+      start_ms: c.start_ms,
+      end_ms: c.end_ms,
+      segments: redacted ? redactSegments(c.excerpt, new Map(), kinds) : c.excerpt,
+    }));
+    if (clipExcerpts.length > 0) {
+      body += '\n\n---\n\nClips:\n\n' + clipExcerpts.map((c) => clipText(c, title)).join('\n');
+    }
+
+    // Transcript files, each with the summary on its first page where the format allows
+    const files = await Promise.all(attachmentFormats.map(async (format) => {
+      const file = await exportTranscript(format, {
+        title,
+        date: meeting.created_at,
+        segments,
+        summaryMd,
+      });
+      return { ...file, name: exportFileName(title, file.extension) };
+    }));
+    for (const clip of clipExcerpts) {
+      const file = exportClipBundle(clip, title);
+      files.push({ ...file, name: exportFileName(clip.title, file.extension) });
     }
 
     // Get Google provider token from header
@@ -110,10 +186,33 @@ serve(async (req) => {
     if (ccHeader) {
       rawEmail += `Cc: ${ccHeader}\r\n`;
     }
-    rawEmail += `Subject: ${subject}\r\n`;
-    rawEmail += `Content-Type: text/plain; charset=UTF-8\r\n`;
-    rawEmail += `\r\n`;
-    rawEmail += body;
+    rawEmail += `Subject: ${sentSubject}\r\n`;
+    if (files.length === 0) {
+      rawEmail += `Content-Type: text/plain; charset=UTF-8\r\n`;
+      rawEmail += `\r\n`;
+      rawEmail += body;
+    } else {
+      const boundary = `part_${crypto.randomUUID()}`;
+      rawEmail += `MIME-Version: 1.0\r\n`;
+      rawEmail += `Content-Type: multipart/mixed; boundary="${boundary}"\r\n`;
+      rawEmail += `\r\n`;
+      rawEmail += `--${boundary}\r\n`;
+      rawEmail += `Content-Type: text/plain; charset=UTF-8\r\n`;
+      rawEmail += `\r\n`;
+      rawEmail += body + '\r\n';
+      for (const file of files) {
+        const bytes = typeof file.content === 'string' ? new TextEncoder().encode(file.content) : file.content;
+        // RFC 2231 file name, so Hebrew meeting titles survive
+        const filename = encodeURIComponent(file.name).replace(/['()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+        rawEmail += `--${boundary}\r\n`;
+        rawEmail += `Content-Type: ${file.mime}\r\n`;
+        rawEmail += `Content-Disposition: attachment; filename*=UTF-8''${filename}\r\n`;
+        rawEmail += `Content-Transfer-Encoding: base64\r\n`;
+        rawEmail += `\r\n`;
+        rawEmail += base64EncodeStd(bytes).replace(/.{76}/g, '$&\r\n') + '\r\n';
+      }
+      rawEmail += `--${boundary}--\r\n`;
+    }
 
     const encodedMessage = base64Encode(new TextEncoder().encode(rawEmail));
 
@@ -137,8 +236,9 @@ serve(async (req) => {
         sent_by: user.id,
         to_recipients: toRecipients,
         cc_recipients: ccRecipients || null,
-        subject,
+        subject: sentSubject,
         include_transcript: includeTranscript ?? false,
+        redacted,
         status: 'failed',
         error: errorText,
       });
@@ -155,13 +255,14 @@ serve(async (req) => {
       sent_by: user.id,
       to_recipients: toRecipients,
       cc_recipients: ccRecipients || null,
-      subject,
+      subject: sentSubject,
       include_transcript: includeTranscript ?? false,
+      redacted,
       status: 'sent',
     });
 
     return new Response(
-      JSON.stringify({ status: 'sent', emailLogId }),
+      JSON.stringify({ status: 'sent', emailLogId, redacted }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
     );
   } catch (err) {
@@ -1,5 +1,26 @@
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  getProvider,
+  isProviderName,
+  type TranscriptionProvider,
+  type TranscriptionRequest,
+} from '../_shared/providers/index.ts';
+import { loadGlossary, selectKeyterms } from '../_shared/glossary.ts';
+import {
+  completeChunkJob,
+  completeTranscriptionJob,
+  failChunkJob,
+  failTranscriptionJob,
+} from '../_shared/transcription.ts';
+import {
+  canSliceMedia,
+  planChunks,
+  probeMedia,
+  sliceMedia,
+  type ChunkWindow,
+  type MediaProbe,
+} from '../_shared/chunking.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -50,6 +71,13 @@ serve(async (req) => {
       });
     }
 
+    if (!meeting.media_path) {
+      return new Response(JSON.stringify({ error: 'This meeting has no recording to transcribe' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
     // Get settings
     const { data: settings } = await supabase
       .from('app_settings')
@@ -57,163 +85,162 @@ serve(async (req) => {
       .eq('id', 1)
       .single();
 
-    const elevenlabsKey = Deno.env.get('ELEVENLABS_API_KEY');
-    if (!elevenlabsKey) {
-      return new Response(JSON.stringify({ error: 'ElevenLabs API key not configured' }), {
+    // A per-meeting override sticks to the meeting so retries use the same backend
+    const providerName = options?.provider
+      || meeting.transcription_provider
+      || settings?.default_transcription_provider
+      || 'elevenlabs';
+
+    if (!isProviderName(providerName)) {
+      return new Response(JSON.stringify({ error: `Unknown transcription provider: ${providerName}` }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // ISO 639-1/639-3 code; omitted means the provider detects the language
+    if (options?.languageCode && !/^[a-z]{2,3}$/.test(options.languageCode)) {
+      return new Response(JSON.stringify({ error: `Invalid language code: ${options.languageCode}` }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    let provider: TranscriptionProvider;
+    try {
+      provider = getProvider(providerName, settings);
+    } catch (err) {
+      return new Response(JSON.stringify({ error: err.message }), {
         status: 500,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
     }
 
+    // Refuse up front what would otherwise be sent whole and time out
+    const unchunkable = chunkingBlocker(meeting.media_mime, meeting.duration_seconds, settings, provider);
+    if (unchunkable) {
+      return new Response(JSON.stringify({ error: unchunkable }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Providers without callbacks always run synchronously
+    const mode = settings?.transcription_mode === 'async' && provider.supportsCallback ? 'async' : 'sync';
+
     // Update meeting status
     await supabase
       .from('meetings')
-      .update({ status: 'transcribing' })
+      .update({
+        status: 'transcribing',
+        ...(options?.provider ? { transcription_provider: providerName } : {}),
+      })
       .eq('id', meetingId);
 
+    // Bias the provider with as much of the glossary as it accepts; the rest is corrected afterwards
+    const keyterms = selectKeyterms(await loadGlossary(supabase, meetingId), provider.keytermLimits);
+
     // Create job record
     const jobId = crypto.randomUUID();
+    const job = { id: jobId, meeting_id: meetingId, provider: provider.name, keyterms };
     await supabase.from('transcription_jobs').insert({
-      id: jobId,
-      meeting_id: meetingId,
-      provider: 'elevenlabs',
-      status: 'running',
+      ...job,
+      status: mode === 'async' ? 'queued' : 'running',
     });
 
-    // Get signed URL for the media file (long expiry for ElevenLabs to download)
+    // Get signed URL for the media file (long expiry for the provider to download)
     const { data: signedUrlData } = await supabase.storage
       .from('media')
       .createSignedUrl(meeting.media_path, 7200);
 
     if (!signedUrlData?.signedUrl) {
-      await supabase.from('transcription_jobs').update({ status: 'failed', error: 'Could not create signed URL' }).eq('id', jobId);
-      await supabase.from('meetings').update({ status: 'failed' }).eq('id', meetingId);
+      await failTranscriptionJob(supabase, job, 'Could not create signed URL');
       throw new Error('Could not create signed URL for media file');
     }
 
-    // Call ElevenLabs STT API using source_url with FormData
-    const diarize = options?.diarize ?? settings?.elevenlabs_diarize_default ?? true;
-    const tagAudioEvents = options?.tagAudioEvents ?? settings?.elevenlabs_tag_audio_events_default ?? false;
-    const modelId = options?.modelId || settings?.elevenlabs_default_model_id || 'scribe_v2';
-
-    const formData = new FormData();
-    formData.append('cloud_storage_url', signedUrlData.signedUrl);
-    formData.append('model_id', modelId);
-    formData.append('diarize', String(diarize));
-    formData.append('tag_audio_events', String(tagAudioEvents));
-    if (options?.languageCode) {
-      formData.append('language_code', options.languageCode);
-    }
-
-    console.log('Calling ElevenLabs STT with source_url, model:', modelId);
-
-    const elevenLabsResponse = await fetch(
-      'https://api.elevenlabs.io/v1/speech-to-text',
-      {
-        method: 'POST',
-        headers: {
-          'xi-api-key': elevenlabsKey,
-        },
-        body: formData,
-      },
-    );
-
-    if (!elevenLabsResponse.ok) {
-      const errorText = await elevenLabsResponse.text();
-      console.error('ElevenLabs error:', elevenLabsResponse.status, errorText);
-      await supabase.from('transcription_jobs').update({
-        status: 'failed',
-        error: `${elevenLabsResponse.status}: ${errorText}`,
-      }).eq('id', jobId);
-      await supabase.from('meetings').update({ status: 'failed' }).eq('id', meetingId);
-
-      return new Response(JSON.stringify({ error: `ElevenLabs API error: ${errorText}` }), {
-        status: 500,
+    const requestOptions = {
+      modelId: options?.modelId,
+      languageCode: options?.languageCode,
+      diarize: options?.diarize ?? settings?.elevenlabs_diarize_default ?? true,
+      tagAudioEvents: options?.tagAudioEvents ?? settings?.elevenlabs_tag_audio_events_default ?? false,
+      keyterms,
+      async: mode === 'async',
+    };
+
+    // Long recordings are split into overlapping windows transcribed as child jobs
+    let chunkPlan: ChunkPlan | null;
+    try {
+      chunkPlan = await planMeetingChunks(meeting, signedUrlData.signedUrl, settings, provider);
+    } catch (err) {
+      // Sending the whole file instead would time out
+      console.error('Could not plan chunks:', err.message);
+      await failTranscriptionJob(supabase, job, err.message);
+      return new Response(JSON.stringify({ error: err.message }), {
+        status: 400,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
     }
 
-    const result = await elevenLabsResponse.json();
-    console.log('ElevenLabs response received, processing segments...');
-
-    // Save raw response
-    await supabase.from('transcription_jobs').update({
-      status: 'completed',
-      raw_response: result,
-      provider_job_id: jobId,
-    }).eq('id', jobId);
-
-    // Normalize and save transcript segments
-    const words = result.words || [];
-    if (words.length > 0 && diarize) {
-      const segments: Array<{
-        meeting_id: string;
-        speaker_id: string;
-        speaker_label: string;
-        start_ms: number;
-        end_ms: number;
-        text: string;
-      }> = [];
-
-      let currentSpeaker = words[0].speaker_id ?? 'speaker_0';
-      let segmentStart = Math.round((words[0].start ?? 0) * 1000);
-      let segmentWords: string[] = [];
-      let segmentEnd = segmentStart;
-
-      for (const word of words) {
-        const speaker = word.speaker_id ?? 'speaker_0';
-        const wordStart = Math.round((word.start ?? 0) * 1000);
-        const wordEnd = Math.round((word.end ?? 0) * 1000);
-
-        if (speaker !== currentSpeaker) {
-          segments.push({
-            meeting_id: meetingId,
-            speaker_id: currentSpeaker,
-            speaker_label: `Speaker ${currentSpeaker.replace('speaker_', '')}`,
-            start_ms: segmentStart,
-            end_ms: segmentEnd,
-            text: segmentWords.join(' '),
+    if (chunkPlan) {
+      console.log(`Submitting ${chunkPlan.windows.length} chunks to ${provider.name} (async)`);
+      try {
+        const status = await transcribeInChunks(
+          supabase, provider, job, meeting, signedUrlData.signedUrl, chunkPlan, requestOptions,
+        );
+        if (status === 'failed') {
+          return new Response(JSON.stringify({ error: 'One or more chunks failed to transcribe' }), {
+            status: 500,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
           });
-          currentSpeaker = speaker;
-          segmentStart = wordStart;
-          segmentWords = [];
         }
-
-        segmentWords.push(word.text ?? '');
-        segmentEnd = wordEnd;
-      }
-
-      if (segmentWords.length > 0) {
-        segments.push({
-          meeting_id: meetingId,
-          speaker_id: currentSpeaker,
-          speaker_label: `Speaker ${currentSpeaker.replace('speaker_', '')}`,
-          start_ms: segmentStart,
-          end_ms: segmentEnd,
-          text: segmentWords.join(' '),
+        return new Response(
+          JSON.stringify({ jobId, provider_job_id: null, status, chunks: chunkPlan.windows.length }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+        );
+      } catch (err) {
+        console.error('Chunked transcription error:', err.message);
+        await failTranscriptionJob(supabase, job, err.message);
+        return new Response(JSON.stringify({ error: err.message }), {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         });
       }
+    }
 
-      if (segments.length > 0) {
-        await supabase.from('transcript_segments').insert(segments);
-      }
-    } else if (result.text) {
-      await supabase.from('transcript_segments').insert({
-        meeting_id: meetingId,
-        speaker_id: 'speaker_0',
-        speaker_label: 'Speaker 0',
-        start_ms: 0,
-        end_ms: Math.round((result.duration ?? 0) * 1000),
-        text: result.text,
+    console.log(`Submitting to ${provider.name} (${mode})`);
+
+    let submitted;
+    try {
+      submitted = await provider.submit({
+        jobId,
+        mediaUrl: signedUrlData.signedUrl,
+        mimeType: meeting.media_mime,
+        ...requestOptions,
+      });
+    } catch (err) {
+      console.error(`${provider.name} error:`, err.message);
+      await failTranscriptionJob(supabase, job, err.message);
+      return new Response(JSON.stringify({ error: err.message }), {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
     }
 
-    // Update meeting status
-    await supabase.from('meetings').update({
-      status: 'ready',
-      duration_seconds: result.duration ? Math.round(result.duration) : null,
-    }).eq('id', meetingId);
+    if (submitted.status === 'queued') {
+      await supabase.from('transcription_jobs').update({
+        provider_job_id: submitted.providerJobId,
+      }).eq('id', jobId);
+
+      console.log(`${provider.name} accepted async job:`, submitted.providerJobId);
+
+      return new Response(
+        JSON.stringify({ jobId, provider_job_id: submitted.providerJobId, status: 'queued' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
 
+    console.log(`${provider.name} response received, processing segments...`);
+    await completeTranscriptionJob(supabase, job, submitted.raw, jobId);
     console.log('Transcription complete, meeting status set to ready');
 
     return new Response(
@@ -228,3 +255,158 @@ serve(async (req) => {
     });
   }
 });
+
+interface ChunkSettings {
+  chunk_threshold_seconds?: number;
+  chunk_duration_seconds?: number;
+  chunk_overlap_seconds?: number;
+}
+
+/**
+ * Why a recording long enough to need chunking can't be chunked, or null.
+ * Chunks are only cut from WAV and MP3, and only submitted to providers that
+ * report back by webhook: waiting on all of them would time out the request.
+ */
+function chunkingBlocker(
+  mime: string,
+  durationSeconds: number | null,
+  settings: ChunkSettings | null,
+  provider: TranscriptionProvider,
+): string | null {
+  const thresholdSeconds = settings?.chunk_threshold_seconds ?? 3600;
+  if (thresholdSeconds <= 0 || durationSeconds === null || durationSeconds <= thresholdSeconds) return null;
+  const limit = chunkLimit(thresholdSeconds);
+  if (!canSliceMedia(mime)) {
+    return `${limit}, which only works for WAV and MP3 files. Convert this recording (${mime}) to one of them and upload it again.`;
+  }
+  if (!provider.supportsCallback) {
+    return `${limit}, which needs a provider that reports back by webhook. ${provider.name} doesn't; choose another provider.`;
+  }
+  return null;
+}
+
+function chunkLimit(thresholdSeconds: number): string {
+  return `Recordings longer than ${Math.round(thresholdSeconds / 60)} minutes are transcribed in parts`;
+}
+
+interface ChunkPlan {
+  probe: MediaProbe;
+  durationMs: number;
+  windows: ChunkWindow[];
+}
+
+/**
+ * Returns the windows to transcribe separately, or null to send the file
+ * whole. Throws with the reason when the recording is, or may be, too long
+ * to send whole and can't be split.
+ */
+async function planMeetingChunks(
+  meeting: { media_mime: string; duration_seconds: number | null },
+  mediaUrl: string,
+  settings: ChunkSettings | null,
+  provider: TranscriptionProvider,
+): Promise<ChunkPlan | null> {
+  const thresholdSeconds = settings?.chunk_threshold_seconds ?? 3600;
+  if (thresholdSeconds <= 0) return null;
+  const storedMs = meeting.duration_seconds === null ? null : meeting.duration_seconds * 1000;
+  if (storedMs !== null && storedMs <= thresholdSeconds * 1000) return null;
+
+  // The stored duration is missing when the browser couldn't read the file's
+  // metadata; the WAV header is exact, the MP3 frame header an estimate
+  const probe = canSliceMedia(meeting.media_mime) ? await probeMedia(mediaUrl, meeting.media_mime) : null;
+  const durationMs = probe?.layout.kind === 'wav' ? probe.durationMs : storedMs ?? probe?.durationMs ?? null;
+  if (durationMs === null) {
+    throw new Error(
+      `${chunkLimit(thresholdSeconds)}, and the length of this recording couldn't be read. `
+        + 'Convert it to WAV or MP3 and upload it again.',
+    );
+  }
+  if (durationMs <= thresholdSeconds * 1000) return null;
+
+  const blocker = chunkingBlocker(meeting.media_mime, durationMs / 1000, settings, provider);
+  if (blocker) throw new Error(blocker);
+  if (!probe) throw new Error(`${chunkLimit(thresholdSeconds)}, and this recording couldn't be read to split it.`);
+
+  const windows = planChunks(
+    durationMs,
+    (settings?.chunk_duration_seconds ?? 1200) * 1000,
+    (settings?.chunk_overlap_seconds ?? 15) * 1000,
+  );
+  return windows.length > 1 ? { probe, durationMs, windows } : null;
+}
+
+/**
+ * Uploads each window as its own file, creates a child job per window and
+ * submits them all at once, always asynchronously whatever the configured
+ * mode: the webhook finalizes the meeting once the last chunk arrives.
+ */
+async function transcribeInChunks(
+  supabase: SupabaseClient,
+  provider: TranscriptionProvider,
+  parent: { id: string; meeting_id: string; provider: string },
+  meeting: { media_path: string; media_mime: string },
+  mediaUrl: string,
+  plan: ChunkPlan,
+  requestOptions: Omit<TranscriptionRequest, 'jobId' | 'mediaUrl' | 'mimeType'>,
+): Promise<'queued' | 'failed'> {
+  // <owner>/<meeting>/original/recording.ext -> <owner>/<meeting>/chunks/<job>/
+  const chunkDir = `${meeting.media_path.split('/').slice(0, 2).join('/')}/chunks/${parent.id}`;
+  const chunks = [];
+
+  // Each window streams from the stored file into its chunk file, one at a time
+  for (const window of plan.windows) {
+    const slice = await sliceMedia(mediaUrl, plan.probe, plan.durationMs, window);
+    const path = `${chunkDir}/${window.index}.${slice.type === 'audio/wav' ? 'wav' : 'mp3'}`;
+
+    const { error: uploadError } = await supabase.storage
+      .from('media')
+      .upload(path, slice.body, { contentType: slice.type, upsert: true });
+    if (uploadError) throw new Error(`Could not upload chunk ${window.index}: ${uploadError.message}`);
+
+    const { data: signed } = await supabase.storage.from('media').createSignedUrl(path, 7200);
+    if (!signed?.signedUrl) throw new Error(`Could not create signed URL for chunk ${window.index}`);
+
+    const chunk = {
+      id: crypto.randomUUID(),
+      meeting_id: parent.meeting_id,
+      provider: parent.provider,
+      parent_job_id: parent.id,
+    };
+    await supabase.from('transcription_jobs').insert({
+      ...chunk,
+      status: 'queued',
+      chunk_index: window.index,
+      chunk_start_ms: window.start_ms,
+      chunk_end_ms: window.end_ms,
+      media_path: path,
+    });
+    chunks.push({ ...chunk, mediaUrl: signed.signedUrl, mimeType: slice.type });
+  }
+
+  await supabase.from('transcription_jobs').update({ status: 'running' }).eq('id', parent.id);
+
+  const results = await Promise.allSettled(chunks.map((chunk) => provider.submit({
+    jobId: chunk.id,
+    mediaUrl: chunk.mediaUrl,
+    mimeType: chunk.mimeType,
+    ...requestOptions,
+    async: true,
+  })));
+
+  let failed = false;
+  for (const [i, result] of results.entries()) {
+    const chunk = chunks[i];
+    if (result.status === 'rejected') {
+      failed = true;
+      await failChunkJob(supabase, chunk, result.reason?.message ?? String(result.reason));
+    } else if (result.value.status === 'queued') {
+      await supabase.from('transcription_jobs').update({
+        provider_job_id: result.value.providerJobId,
+      }).eq('id', chunk.id);
+    } else {
+      await completeChunkJob(supabase, chunk, result.value.raw, chunk.id);
+    }
+  }
+
+  return failed ? 'failed' : 'queued';
+}
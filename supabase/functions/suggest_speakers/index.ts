@@ -0,0 +1,169 @@
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { formatTranscriptLine } from '../_shared/transcript-text.ts';
+import { chatSettings, createChatCompletion } from '../_shared/openrouter.ts';
+import { fetchAllRows } from '../_shared/pagination.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Introductions happen early; later speakers get their first few lines instead
+const OPENING_SEGMENTS = 40;
+const LINES_PER_LATE_SPEAKER = 3;
+const MAX_CONTEXT_CHARS = 12000;
+
+const SYSTEM_PROMPT = `You identify speakers in a diarized meeting transcript.
+Each line is "[m:ss] speaker_id: text". Propose a real name for a speaker only when the transcript supports it,
+for example a self-introduction ("Hi, I'm Dana from the library") or someone addressing them by name.
+Reply with JSON only: {"suggestions": [{"speaker_id": "...", "name": "...", "quote": "...", "confidence": "high" | "medium" | "low"}]}
+"quote" must be copied verbatim from the transcript. Omit speakers you cannot name.`;
+
+interface SpeakerSuggestion {
+  speaker_id: string;
+  name: string;
+  quote: string;
+  confidence: 'high' | 'medium' | 'low';
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+    );
+
+    const authHeader = req.headers.get('Authorization')!;
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', ''),
+    );
+    if (authError || !user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { meetingId, modelId } = await req.json();
+
+    const { data: meeting } = await supabase
+      .from('meetings')
+      .select('*')
+      .eq('id', meetingId)
+      .eq('owner_id', user.id)
+      .eq('status', 'ready')
+      .single();
+
+    if (!meeting) {
+      return new Response(JSON.stringify({ error: 'Meeting not found or not ready' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const [{ data: segments }, { data: settings }, { data: participants }] = await Promise.all([
+      fetchAllRows((from, to) => supabase
+        .from('transcript_segments')
+        .select('kind, speaker_id, speaker_label, start_ms, text')
+        .eq('revision_id', meeting.active_revision_id)
+        .eq('kind', 'speech')
+        .order('start_ms', { ascending: true })
+        .order('id')
+        .range(from, to)),
+      supabase.from('app_settings').select('*').eq('id', 1).single(),
+      supabase.from('participants').select('name, role').eq('owner_id', user.id).order('name'),
+    ]);
+
+    if (!segments || segments.length === 0) {
+      return new Response(JSON.stringify({ error: 'No transcript segments found' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // The opening, plus the first lines of anyone who speaks only later
+    const context = segments.slice(0, OPENING_SEGMENTS);
+    const seen = new Set(context.map((s) => s.speaker_id));
+    const lateLines = new Map<string, number>();
+    for (const segment of segments.slice(OPENING_SEGMENTS)) {
+      if (seen.has(segment.speaker_id)) continue;
+      const count = lateLines.get(segment.speaker_id) ?? 0;
+      if (count >= LINES_PER_LATE_SPEAKER) continue;
+      lateLines.set(segment.speaker_id, count + 1);
+      context.push(segment);
+    }
+
+    let transcriptText = '';
+    for (const segment of context) {
+      const line = formatTranscriptLine({ ...segment, speaker_label: segment.speaker_id });
+      if (transcriptText.length + line.length > MAX_CONTEXT_CHARS) break;
+      transcriptText += `${line}\n`;
+    }
+
+    const speakerIds = [...new Set(segments.map((s) => s.speaker_id))];
+    const knownPeople = (participants ?? [])
+      .map((p) => `- ${p.name}${p.role ? `, ${p.role}` : ''}`)
+      .join('\n');
+    const userPrompt = [
+      `Meeting title: ${meeting.title || meeting.source_filename}`,
+      `Speakers: ${speakerIds.join(', ')}`,
+      knownPeople ? `People the user often meets with (names may also be someone else):\n${knownPeople}` : '',
+      `Transcript excerpt:\n${transcriptText}`,
+    ].filter(Boolean).join('\n\n');
+
+    const { content } = await createChatCompletion(
+      chatSettings(settings, modelId),
+      [
+        { role: 'system', content: SYSTEM_PROMPT },
+        { role: 'user', content: userPrompt },
+      ],
+      { json: true },
+    );
+
+    // Keep only well-formed proposals whose quote really is in the transcript
+    const haystack = normalize(segments.map((s) => s.text).join(' '));
+    const suggestions: SpeakerSuggestion[] = [];
+    for (const item of parseSuggestions(content)) {
+      if (!speakerIds.includes(item.speaker_id) || !item.name?.trim()) continue;
+      if (suggestions.some((s) => s.speaker_id === item.speaker_id)) continue;
+      if (!item.quote || !haystack.includes(normalize(item.quote))) continue;
+      suggestions.push({
+        speaker_id: item.speaker_id,
+        name: item.name.trim(),
+        quote: item.quote.trim(),
+        confidence: ['high', 'medium', 'low'].includes(item.confidence) ? item.confidence : 'low',
+      });
+    }
+
+    return new Response(
+      JSON.stringify({ suggestions }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+    );
+  } catch (err) {
+    return new Response(JSON.stringify({ error: err.message }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+/** Reads the suggestion list, tolerating prose or code fences around the JSON */
+function parseSuggestions(content: string): SpeakerSuggestion[] {
+  const match = content.match(/\{[\s\S]*\}/);
+  if (!match) return [];
+  try {
+    const parsed = JSON.parse(match[0]);
+    return Array.isArray(parsed.suggestions) ? parsed.suggestions : [];
+  } catch {
+    return [];
+  }
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[\p{P}\s]+/gu, ' ').trim();
+}
@@ -42,7 +42,7 @@ serve(async (req) => {
       });
     }
 
-    const { elevenlabs_api_key, openrouter_api_key } = await req.json();
+    const { elevenlabs_api_key, openrouter_api_key, whisper_api_key, whisper_base_url } = await req.json();
 
     // In a production setup, these would be stored as Supabase Edge Function secrets
     // via the Supabase CLI: supabase secrets set ELEVENLABS_API_KEY=...
@@ -69,10 +69,18 @@ serve(async (req) => {
       results.openrouter = testResponse.ok ? 'valid' : 'invalid';
     }
 
+    if (whisper_api_key && whisper_base_url) {
+      // Test the key against the Whisper-compatible server
+      const testResponse = await fetch(`${whisper_base_url.replace(/\/+$/, '')}/v1/models`, {
+        headers: { 'Authorization': `Bearer ${whisper_api_key}` },
+      });
+      results.whisper = testResponse.ok ? 'valid' : 'invalid';
+    }
+
     return new Response(
       JSON.stringify({
         message: 'API keys validated. Set them as Edge Function secrets via Supabase CLI or Dashboard.',
-        hint: 'Run: supabase secrets set ELEVENLABS_API_KEY=<key> OPENROUTER_API_KEY=<key>',
+        hint: 'Run: supabase secrets set ELEVENLABS_API_KEY=<key> OPENROUTER_API_KEY=<key> WHISPER_API_KEY=<key>',
         results,
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
@@ -0,0 +1,9 @@
+-- ============================================
+-- Async (webhook-driven) transcription mode
+-- ============================================
+
+-- 'sync' waits for the provider inside start_transcription,
+-- 'async' submits the job and lets elevenlabs_webhook finalize it.
+alter table public.app_settings
+  add column transcription_mode text not null default 'sync'
+    check (transcription_mode in ('sync', 'async'));
@@ -0,0 +1,19 @@
+-- ============================================
+-- Pluggable transcription providers
+-- ============================================
+
+alter table public.app_settings
+  add column default_transcription_provider text not null default 'elevenlabs'
+    check (default_transcription_provider in ('elevenlabs', 'whisper')),
+  -- OpenAI-compatible audio/transcriptions server, e.g. a self-hosted faster-whisper
+  add column whisper_base_url text,
+  add column whisper_model_id text;
+
+-- Per-meeting override; null means "use the default provider"
+alter table public.meetings
+  add column transcription_provider text
+    check (transcription_provider in ('elevenlabs', 'whisper'));
+
+alter table public.transcription_jobs
+  add constraint transcription_jobs_provider_check
+    check (provider in ('elevenlabs', 'whisper'));
@@ -0,0 +1,11 @@
+-- ============================================
+-- Segmentation thresholds
+-- ============================================
+
+-- Used by the shared segmenter when turning provider word lists into
+-- transcript_segments. A value of 0 disables that rule.
+alter table public.app_settings
+  add column segment_max_pause_ms int not null default 1500 check (segment_max_pause_ms >= 0),
+  add column segment_max_duration_ms int not null default 30000 check (segment_max_duration_ms >= 0),
+  add column segment_max_chars int not null default 400 check (segment_max_chars >= 0),
+  add column segment_split_on_sentence boolean not null default true;
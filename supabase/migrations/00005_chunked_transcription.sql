@@ -0,0 +1,22 @@
+-- ============================================
+-- Chunked transcription of long recordings
+-- ============================================
+
+-- A long recording is transcribed as one parent job with a child job per
+-- overlapping time window. The parent's transcript is stitched from the
+-- children once all of them have completed.
+alter table public.transcription_jobs
+  add column parent_job_id uuid references public.transcription_jobs(id) on delete cascade,
+  add column chunk_index int,
+  add column chunk_start_ms int,
+  add column chunk_end_ms int,
+  -- Storage path of the chunk file sent to the provider; removed after stitching
+  add column media_path text;
+
+create index idx_transcription_jobs_parent on public.transcription_jobs(parent_job_id);
+
+-- Recordings longer than the threshold are chunked (0 disables chunking)
+alter table public.app_settings
+  add column chunk_threshold_seconds int not null default 3600 check (chunk_threshold_seconds >= 0),
+  add column chunk_duration_seconds int not null default 1200 check (chunk_duration_seconds >= 60),
+  add column chunk_overlap_seconds int not null default 15 check (chunk_overlap_seconds >= 0);
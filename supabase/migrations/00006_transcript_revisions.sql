@@ -0,0 +1,77 @@
+-- ============================================
+-- Transcript revisions
+-- ============================================
+
+-- Every completed transcription job produces a numbered revision that owns
+-- its segments. The meeting points at the revision shown to users, so a
+-- retry no longer appends a second copy of the transcript.
+create table public.transcript_revisions (
+  id uuid primary key default gen_random_uuid(),
+  meeting_id uuid not null references public.meetings(id) on delete cascade,
+  job_id uuid references public.transcription_jobs(id) on delete set null,
+  revision int not null,
+  created_at timestamptz not null default now(),
+  unique (meeting_id, revision)
+);
+
+alter table public.transcript_segments
+  add column revision_id uuid references public.transcript_revisions(id) on delete cascade;
+
+alter table public.meetings
+  add column active_revision_id uuid references public.transcript_revisions(id) on delete set null;
+
+create index idx_transcript_revisions_meeting on public.transcript_revisions(meeting_id);
+create index idx_transcript_segments_revision_start on public.transcript_segments(revision_id, start_ms);
+
+-- ============================================
+-- Backfill: attribute existing segments to the latest top-level job created
+-- before them, one revision per job
+-- ============================================
+
+create function pg_temp.segment_job(segment public.transcript_segments)
+returns uuid as $$
+  select j.id from public.transcription_jobs j
+  where j.meeting_id = segment.meeting_id
+    and j.parent_job_id is null
+    and j.created_at <= segment.created_at
+  order by j.created_at desc
+  limit 1;
+$$ language sql stable;
+
+insert into public.transcript_revisions (meeting_id, job_id, revision, created_at)
+select meeting_id,
+  job_id,
+  row_number() over (partition by meeting_id order by min(created_at)),
+  min(created_at)
+from (
+  select s.meeting_id, s.created_at, pg_temp.segment_job(s) as job_id
+  from public.transcript_segments s
+) attributed
+group by meeting_id, job_id;
+
+update public.transcript_segments s
+set revision_id = r.id
+from public.transcript_revisions r
+where r.meeting_id = s.meeting_id
+  and r.job_id is not distinct from pg_temp.segment_job(s);
+
+update public.meetings m
+set active_revision_id = (
+  select r.id from public.transcript_revisions r
+  where r.meeting_id = m.id
+  order by r.revision desc
+  limit 1
+);
+
+alter table public.transcript_segments alter column revision_id set not null;
+
+-- ============================================
+-- RLS: revisions are written by edge functions only
+-- ============================================
+
+alter table public.transcript_revisions enable row level security;
+
+create policy "revisions_select_own" on public.transcript_revisions
+  for select using (
+    exists (select 1 from public.meetings where meetings.id = meeting_id and meetings.owner_id = auth.uid())
+  );
@@ -0,0 +1,28 @@
+-- ============================================
+-- Webhook delivery log
+-- ============================================
+
+-- One row per callback request, including rejected ones, for debugging
+-- provider integrations. Written by edge functions with the service role.
+create table public.webhook_deliveries (
+  id uuid primary key default gen_random_uuid(),
+  provider text not null,
+  job_id uuid references public.transcription_jobs(id) on delete set null,
+  provider_job_id text,
+  signature_valid boolean not null,
+  outcome text not null check (outcome in ('processed', 'duplicate', 'rejected', 'not_found', 'error')),
+  http_status int not null,
+  error text,
+  payload jsonb,
+  received_at timestamptz not null default now()
+);
+
+create index idx_webhook_deliveries_job on public.webhook_deliveries(job_id);
+create index idx_webhook_deliveries_received on public.webhook_deliveries(received_at desc);
+
+alter table public.webhook_deliveries enable row level security;
+
+create policy "webhook_deliveries_select_admin" on public.webhook_deliveries
+  for select using (
+    exists (select 1 from public.profiles where id = auth.uid() and is_admin = true)
+  );
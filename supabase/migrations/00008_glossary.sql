@@ -0,0 +1,44 @@
+-- ============================================
+-- Custom vocabulary
+-- ============================================
+
+-- Organization-wide glossary. Terms are sent to the provider as biasing
+-- hints; aliases are known misrecognitions rewritten to the term afterwards.
+create table public.glossary_terms (
+  id uuid primary key default gen_random_uuid(),
+  term text not null check (length(trim(term)) > 0),
+  aliases text[] not null default '{}',
+  created_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create unique index idx_glossary_terms_term on public.glossary_terms(lower(term));
+
+-- Extra terms for a single meeting, entered at upload time
+alter table public.meetings
+  add column custom_terms text[] not null default '{}';
+
+-- Terms actually sent to the provider, so the correction pass can skip them
+alter table public.transcription_jobs
+  add column keyterms text[] not null default '{}';
+
+-- ============================================
+-- RLS: everyone can read, admins can write
+-- ============================================
+
+alter table public.glossary_terms enable row level security;
+
+create policy "glossary_select_all" on public.glossary_terms
+  for select using (true);
+create policy "glossary_insert_admin" on public.glossary_terms
+  for insert with check (
+    exists (select 1 from public.profiles where id = auth.uid() and is_admin = true)
+  );
+create policy "glossary_update_admin" on public.glossary_terms
+  for update using (
+    exists (select 1 from public.profiles where id = auth.uid() and is_admin = true)
+  );
+create policy "glossary_delete_admin" on public.glossary_terms
+  for delete using (
+    exists (select 1 from public.profiles where id = auth.uid() and is_admin = true)
+  );
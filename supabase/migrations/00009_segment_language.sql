@@ -0,0 +1,20 @@
+-- ============================================
+-- Per-segment language
+-- ============================================
+
+-- Mixed Hebrew/English meetings switch language mid-meeting, so the
+-- language (and with it the text direction) is stored per segment.
+alter table public.transcript_segments
+  add column language_code text;
+
+-- Backfill from the dominant script, matching the edge functions' detector
+update public.transcript_segments
+set language_code = case
+  when length(regexp_replace(text, '[^א-ת]', '', 'g')) > 0
+    and length(regexp_replace(text, '[^א-ת]', '', 'g')) >= length(regexp_replace(text, '[^A-Za-z]', '', 'g'))
+    then 'he'
+  when length(regexp_replace(text, '[^ء-ي]', '', 'g')) > 0
+    and length(regexp_replace(text, '[^ء-ي]', '', 'g')) >= length(regexp_replace(text, '[^A-Za-z]', '', 'g'))
+    then 'ar'
+  when text ~ '[A-Za-z]' then 'en'
+end;
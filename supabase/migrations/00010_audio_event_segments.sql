@@ -0,0 +1,15 @@
+-- ============================================
+-- Audio events as their own transcript items
+-- ============================================
+
+-- Tagged sounds such as laughter or applause are stored as separate rows
+-- holding just the event label, instead of being joined into speech text.
+alter table public.transcript_segments
+  add column kind text not null default 'speech' check (kind in ('speech', 'audio_event'));
+
+-- Segments that consist of a single bracketed tag were events all along
+update public.transcript_segments
+set kind = 'audio_event',
+  text = trim(both ' ()[]' from text),
+  language_code = null
+where text ~ '^\s*[\(\[][^\(\)\[\]]+[\)\]]\s*$';
@@ -0,0 +1,9 @@
+-- ============================================
+-- Confidence review
+-- ============================================
+
+-- Words below this confidence (0..1) are underlined in the transcript and
+-- visited by review mode. Review progress lives in transcript_segments.meta.review.
+alter table public.app_settings
+  add column review_confidence_threshold real not null default 0.6
+    check (review_confidence_threshold >= 0 and review_confidence_threshold <= 1);
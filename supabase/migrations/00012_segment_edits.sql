@@ -0,0 +1,63 @@
+-- ============================================
+-- Transcript segment edit history
+-- ============================================
+
+-- Every change to a segment's text is recorded, whichever path made it
+-- (inline editing, review corrections, edge functions).
+create table public.transcript_segment_edits (
+  id uuid primary key default gen_random_uuid(),
+  segment_id uuid not null references public.transcript_segments(id) on delete cascade,
+  editor_id uuid references public.profiles(id) on delete set null,
+  -- Snapshot, profiles are only readable by their owner
+  editor_name text,
+  old_text text not null,
+  new_text text not null,
+  created_at timestamptz not null default now()
+);
+
+create index idx_segment_edits_segment on public.transcript_segment_edits(segment_id, created_at);
+
+-- Set when a person last corrected the text; null for untouched machine output
+alter table public.transcript_segments
+  add column edited_at timestamptz,
+  add column edited_by uuid references public.profiles(id) on delete set null;
+
+create or replace function public.record_segment_edit()
+returns trigger as $$
+begin
+  if new.text is distinct from old.text then
+    insert into public.transcript_segment_edits (segment_id, editor_id, editor_name, old_text, new_text)
+    values (
+      old.id,
+      auth.uid(),
+      (select coalesce(nullif(full_name, ''), email) from public.profiles where id = auth.uid()),
+      old.text,
+      new.text
+    );
+    if auth.uid() is not null then
+      new.edited_at = now();
+      new.edited_by = auth.uid();
+    end if;
+  end if;
+  return new;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+create trigger on_segment_text_change
+  before update of text on public.transcript_segments
+  for each row execute function public.record_segment_edit();
+
+-- ============================================
+-- RLS: readable with the meeting, written by the trigger only
+-- ============================================
+
+alter table public.transcript_segment_edits enable row level security;
+
+create policy "segment_edits_select_own" on public.transcript_segment_edits
+  for select using (
+    exists (
+      select 1 from public.transcript_segments s
+      join public.meetings m on m.id = s.meeting_id
+      where s.id = segment_id and m.owner_id = auth.uid()
+    )
+  );
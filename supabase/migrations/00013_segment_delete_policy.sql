@@ -0,0 +1,10 @@
+-- ============================================
+-- Segment structure editing
+-- ============================================
+
+-- Merging segments deletes the absorbed one, and undoing a split deletes
+-- the segment the split created.
+create policy "segments_delete_own" on public.transcript_segments
+  for delete using (
+    exists (select 1 from public.meetings where meetings.id = meeting_id and meetings.owner_id = auth.uid())
+  );
@@ -0,0 +1,90 @@
+-- ============================================
+-- Participant directory
+-- ============================================
+
+-- People a user meets with, reused across meetings
+create table public.participants (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null references public.profiles(id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  email text,
+  role text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index idx_participants_owner on public.participants(owner_id, name);
+
+create trigger set_participants_updated_at
+  before update on public.participants
+  for each row execute function public.update_updated_at();
+
+-- Links a diarized speaker of one transcript revision to a known person.
+-- The segments' speaker_label carries the participant's name.
+create table public.meeting_speakers (
+  id uuid primary key default gen_random_uuid(),
+  meeting_id uuid not null references public.meetings(id) on delete cascade,
+  revision_id uuid not null references public.transcript_revisions(id) on delete cascade,
+  speaker_id text not null,
+  participant_id uuid not null references public.participants(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  unique (revision_id, speaker_id)
+);
+
+create index idx_meeting_speakers_participant on public.meeting_speakers(participant_id);
+
+-- Renaming a participant relabels every speaker linked to them
+create or replace function public.sync_participant_labels()
+returns trigger as $$
+begin
+  if new.name is distinct from old.name then
+    update public.transcript_segments s
+    set speaker_label = new.name
+    from public.meeting_speakers ms
+    where ms.participant_id = new.id
+      and s.revision_id = ms.revision_id
+      and s.speaker_id = ms.speaker_id;
+  end if;
+  return new;
+end;
+$$ language plpgsql;
+
+create trigger on_participant_rename
+  after update of name on public.participants
+  for each row execute function public.sync_participant_labels();
+
+-- ============================================
+-- RLS
+-- ============================================
+
+alter table public.participants enable row level security;
+alter table public.meeting_speakers enable row level security;
+
+-- participants: owner-only CRUD
+create policy "participants_select_own" on public.participants
+  for select using (owner_id = auth.uid());
+create policy "participants_insert_own" on public.participants
+  for insert with check (owner_id = auth.uid());
+create policy "participants_update_own" on public.participants
+  for update using (owner_id = auth.uid());
+create policy "participants_delete_own" on public.participants
+  for delete using (owner_id = auth.uid());
+
+-- meeting_speakers: accessible if meeting belongs to user
+create policy "meeting_speakers_select_own" on public.meeting_speakers
+  for select using (
+    exists (select 1 from public.meetings where meetings.id = meeting_id and meetings.owner_id = auth.uid())
+  );
+create policy "meeting_speakers_insert_own" on public.meeting_speakers
+  for insert with check (
+    exists (select 1 from public.meetings where meetings.id = meeting_id and meetings.owner_id = auth.uid())
+    and exists (select 1 from public.participants where participants.id = participant_id and participants.owner_id = auth.uid())
+  );
+create policy "meeting_speakers_update_own" on public.meeting_speakers
+  for update using (
+    exists (select 1 from public.meetings where meetings.id = meeting_id and meetings.owner_id = auth.uid())
+  );
+create policy "meeting_speakers_delete_own" on public.meeting_speakers
+  for delete using (
+    exists (select 1 from public.meetings where meetings.id = meeting_id and meetings.owner_id = auth.uid())
+  );
@@ -0,0 +1,108 @@
+-- ============================================
+-- Full-text search over transcripts and summaries
+-- ============================================
+
+-- Lower-cases and strips what spelling varies on: Hebrew niqqud and
+-- cantillation, final letter forms, and gershayim inside acronyms.
+-- Keep in sync with normalizeSearchText in src/lib/search.ts.
+create or replace function public.search_normalize(input text)
+returns text as $$
+  select trim(regexp_replace(
+    regexp_replace(
+      translate(
+        regexp_replace(replace(lower(input), U&'\05BE', ' '), '[\u0591-\u05C7]', '', 'g'),
+        'ךםןףץ',
+        'כמנפצ'
+      ),
+      '([\u05D0-\u05EA])["''\u05F3\u05F4]+(?=[\u05D0-\u05EA])', '\1', 'g'
+    ),
+    '[^a-z0-9\u00C0-\u024F\u0400-\u04FF\u05D0-\u05EA\u0600-\u06FF\u1200-\u137F]+', ' ', 'g'
+  ));
+$$ language sql immutable parallel safe;
+
+-- A word and its forms without attached Hebrew prefixes
+-- (ו ה ב כ ל מ ש, up to three), e.g. וכשהתחלנו -> כשהתחלנו, שהתחלנו, התחלנו
+create or replace function public.search_variants(token text)
+returns text[] as $$
+declare
+  variants text[] := array[token];
+  i int := 1;
+begin
+  while i <= 3 and length(token) - i >= 2 and position(substr(token, i, 1) in 'ובכלמשה') > 0 loop
+    variants := variants || substr(token, i + 1);
+    i := i + 1;
+  end loop;
+  return variants;
+end;
+$$ language plpgsql immutable parallel safe;
+
+create or replace function public.search_document(input text)
+returns tsvector as $$
+  select coalesce(array_to_tsvector(array_agg(distinct variant)), ''::tsvector)
+  from regexp_split_to_table(public.search_normalize(input), ' ') as token,
+    unnest(public.search_variants(token)) as variant
+  where token <> '';
+$$ language sql immutable parallel safe;
+
+-- Every word must match as a prefix, with or without its Hebrew prefixes.
+-- Null when the input has no searchable words.
+create or replace function public.search_query(input text)
+returns tsquery as $$
+  select to_tsquery('simple', string_agg(alternatives, ' & '))
+  from (
+    select '(' || string_agg(quote_literal(variant) || ':*', ' | ') || ')' as alternatives
+    from regexp_split_to_table(public.search_normalize(input), ' ') with ordinality as t(token, n),
+      unnest(public.search_variants(token)) as variant
+    where token <> ''
+    group by n
+  ) words;
+$$ language sql immutable parallel safe;
+
+alter table public.transcript_segments
+  add column search_vector tsvector generated always as (public.search_document(text)) stored;
+alter table public.summaries
+  add column search_vector tsvector generated always as (public.search_document(content_md)) stored;
+
+create index idx_transcript_segments_search on public.transcript_segments using gin(search_vector);
+create index idx_summaries_search on public.summaries using gin(search_vector);
+
+-- ============================================
+-- Search RPC: the caller's meetings only (RLS applies)
+-- ============================================
+
+-- Segments of each meeting's active revision and its latest summary, best first
+create or replace function public.search_meetings(search_text text, max_results int default 100)
+returns table (
+  meeting_id uuid,
+  meeting_title text,
+  meeting_created_at timestamptz,
+  source text,
+  segment_id uuid,
+  start_ms int,
+  speaker_label text,
+  content text,
+  rank real
+) as $$
+  with q as (select public.search_query(search_text) as tsq)
+  select * from (
+    select
+      m.id, coalesce(nullif(m.title, ''), m.source_filename), m.created_at,
+      'transcript', s.id, s.start_ms, s.speaker_label, s.text,
+      ts_rank(s.search_vector, q.tsq)
+    from q, public.transcript_segments s
+    join public.meetings m on m.id = s.meeting_id and m.active_revision_id = s.revision_id
+    where s.search_vector @@ q.tsq
+    union all
+    select
+      m.id, coalesce(nullif(m.title, ''), m.source_filename), m.created_at,
+      'summary', null, null, null, su.content_md,
+      ts_rank(su.search_vector, q.tsq)
+    from q, (
+      select distinct on (meeting_id) * from public.summaries order by meeting_id, version desc
+    ) su
+    join public.meetings m on m.id = su.meeting_id
+    where su.search_vector @@ q.tsq
+  ) hits
+  order by 9 desc
+  limit max_results;
+$$ language sql stable;
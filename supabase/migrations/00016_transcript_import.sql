@@ -0,0 +1,17 @@
+-- ============================================
+-- Imported transcripts
+-- ============================================
+
+-- A meeting can be created from a transcript file alone, without a recording
+alter table public.meetings
+  alter column media_path drop not null,
+  alter column media_mime drop not null;
+
+-- Imports are recorded as completed jobs of a pseudo-provider, so the
+-- revision list shows where the transcript came from
+alter table public.transcription_jobs
+  drop constraint transcription_jobs_provider_check;
+
+alter table public.transcription_jobs
+  add constraint transcription_jobs_provider_check
+    check (provider in ('elevenlabs', 'whisper', 'import'));
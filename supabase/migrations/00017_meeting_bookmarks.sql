@@ -0,0 +1,48 @@
+-- ============================================
+-- Bookmarks and highlights
+-- ============================================
+
+-- Marks are stored by time rather than by segment, so they survive segment
+-- edits and re-transcription. A bookmark is a point in time; a highlight
+-- covers the span of one or more segments.
+create table public.meeting_bookmarks (
+  id uuid primary key default gen_random_uuid(),
+  meeting_id uuid not null references public.meetings(id) on delete cascade,
+  kind text not null check (kind in ('bookmark', 'highlight')),
+  start_ms int not null check (start_ms >= 0),
+  end_ms int,
+  note text not null default '',
+  created_by uuid default auth.uid() references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check ((kind = 'bookmark' and end_ms is null) or (kind = 'highlight' and end_ms >= start_ms))
+);
+
+create index idx_meeting_bookmarks_meeting on public.meeting_bookmarks(meeting_id, start_ms);
+
+create trigger set_meeting_bookmarks_updated_at
+  before update on public.meeting_bookmarks
+  for each row execute function public.update_updated_at();
+
+-- ============================================
+-- RLS: accessible if meeting belongs to user
+-- ============================================
+
+alter table public.meeting_bookmarks enable row level security;
+
+create policy "meeting_bookmarks_select_own" on public.meeting_bookmarks
+  for select using (
+    exists (select 1 from public.meetings where meetings.id = meeting_id and meetings.owner_id = auth.uid())
+  );
+create policy "meeting_bookmarks_insert_own" on public.meeting_bookmarks
+  for insert with check (
+    exists (select 1 from public.meetings where meetings.id = meeting_id and meetings.owner_id = auth.uid())
+  );
+create policy "meeting_bookmarks_update_own" on public.meeting_bookmarks
+  for update using (
+    exists (select 1 from public.meetings where meetings.id = meeting_id and meetings.owner_id = auth.uid())
+  );
+create policy "meeting_bookmarks_delete_own" on public.meeting_bookmarks
+  for delete using (
+    exists (select 1 from public.meetings where meetings.id = meeting_id and meetings.owner_id = auth.uid())
+  );
@@ -0,0 +1,49 @@
+-- ============================================
+-- Clips: named time ranges of a meeting
+-- ============================================
+
+-- A clip points at the original recording rather than a cut copy of it, and
+-- keeps the transcript excerpt for its range as it was when the clip was made,
+-- so later edits or re-transcription don't change what was shared.
+create table public.meeting_clips (
+  id uuid primary key default gen_random_uuid(),
+  meeting_id uuid not null references public.meetings(id) on delete cascade,
+  title text not null,
+  start_ms int not null check (start_ms >= 0),
+  end_ms int not null,
+  media_path text,
+  excerpt jsonb not null default '[]',
+  created_by uuid default auth.uid() references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (end_ms > start_ms)
+);
+
+create index idx_meeting_clips_meeting on public.meeting_clips(meeting_id, start_ms);
+
+create trigger set_meeting_clips_updated_at
+  before update on public.meeting_clips
+  for each row execute function public.update_updated_at();
+
+-- ============================================
+-- RLS: accessible if meeting belongs to user
+-- ============================================
+
+alter table public.meeting_clips enable row level security;
+
+create policy "meeting_clips_select_own" on public.meeting_clips
+  for select using (
+    exists (select 1 from public.meetings where meetings.id = meeting_id and meetings.owner_id = auth.uid())
+  );
+create policy "meeting_clips_insert_own" on public.meeting_clips
+  for insert with check (
+    exists (select 1 from public.meetings where meetings.id = meeting_id and meetings.owner_id = auth.uid())
+  );
+create policy "meeting_clips_update_own" on public.meeting_clips
+  for update using (
+    exists (select 1 from public.meetings where meetings.id = meeting_id and meetings.owner_id = auth.uid())
+  );
+create policy "meeting_clips_delete_own" on public.meeting_clips
+  for delete using (
+    exists (select 1 from public.meetings where meetings.id = meeting_id and meetings.owner_id = auth.uid())
+  );
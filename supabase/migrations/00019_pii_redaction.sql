@@ -0,0 +1,64 @@
+-- ============================================
+-- PII redaction
+-- ============================================
+
+-- Spans of personal data found in a segment's text or a summary's Markdown.
+-- Detectors insert them as suggestions; the owner confirms or dismisses each.
+-- The span's text is kept alongside its offsets so a mark can be found again
+-- after the text around it was edited.
+create table public.pii_redactions (
+  id uuid primary key default gen_random_uuid(),
+  meeting_id uuid not null references public.meetings(id) on delete cascade,
+  target text not null check (target in ('segment', 'summary')),
+  -- transcript_segments.id or summaries.id, depending on target
+  target_id uuid not null,
+  start_offset int not null check (start_offset >= 0),
+  end_offset int not null,
+  kind text not null check (kind in ('phone', 'email', 'israeli_id')),
+  text text not null,
+  status text not null default 'suggested' check (status in ('suggested', 'confirmed', 'dismissed')),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (end_offset > start_offset),
+  unique (target_id, start_offset, end_offset)
+);
+
+create index idx_pii_redactions_meeting on public.pii_redactions(meeting_id);
+
+create trigger set_pii_redactions_updated_at
+  before update on public.pii_redactions
+  for each row execute function public.update_updated_at();
+
+-- Which detectors run, and whether anything emailed outside the organisation
+-- is redacted regardless of what the sender chose. With no internal domains
+-- configured, only the sender's own domain counts as internal.
+alter table public.app_settings
+  add column redaction_detectors text[] not null default '{phone,email,israeli_id}',
+  add column redact_external_email boolean not null default false,
+  add column internal_email_domains text[] not null default '{}';
+
+alter table public.email_logs
+  add column redacted boolean not null default false;
+
+-- ============================================
+-- RLS: accessible if meeting belongs to user
+-- ============================================
+
+alter table public.pii_redactions enable row level security;
+
+create policy "pii_redactions_select_own" on public.pii_redactions
+  for select using (
+    exists (select 1 from public.meetings where meetings.id = meeting_id and meetings.owner_id = auth.uid())
+  );
+create policy "pii_redactions_insert_own" on public.pii_redactions
+  for insert with check (
+    exists (select 1 from public.meetings where meetings.id = meeting_id and meetings.owner_id = auth.uid())
+  );
+create policy "pii_redactions_update_own" on public.pii_redactions
+  for update using (
+    exists (select 1 from public.meetings where meetings.id = meeting_id and meetings.owner_id = auth.uid())
+  );
+create policy "pii_redactions_delete_own" on public.pii_redactions
+  for delete using (
+    exists (select 1 from public.meetings where meetings.id = meeting_id and meetings.owner_id = auth.uid())
+  );
@@ -0,0 +1,9 @@
+-- ============================================
+-- Partial summaries
+-- ============================================
+
+-- A streamed summary that was cut off (the model failed or the browser went
+-- away) is still saved as a version, flagged so it isn't mistaken for a
+-- complete one.
+alter table public.summaries
+  add column is_partial boolean not null default false;
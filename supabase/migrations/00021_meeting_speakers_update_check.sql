@@ -0,0 +1,15 @@
+-- ============================================
+-- Speaker link ownership on update
+-- ============================================
+
+-- The update policy only checked the meeting, so an existing link could be
+-- pointed at another user's participant. Updated rows now have to pass the
+-- same checks as inserted ones.
+alter policy "meeting_speakers_update_own" on public.meeting_speakers
+  using (
+    exists (select 1 from public.meetings where meetings.id = meeting_id and meetings.owner_id = auth.uid())
+  )
+  with check (
+    exists (select 1 from public.meetings where meetings.id = meeting_id and meetings.owner_id = auth.uid())
+    and exists (select 1 from public.participants where participants.id = participant_id and participants.owner_id = auth.uid())
+  );
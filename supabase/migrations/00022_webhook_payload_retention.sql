@@ -0,0 +1,13 @@
+-- ============================================
+-- Webhook payload retention
+-- ============================================
+
+-- Transcription results hold the whole transcript, personal data included.
+-- Only rejected and failed deliveries keep their payload for debugging; the
+-- rest record its size.
+alter table public.webhook_deliveries
+  add column payload_bytes int;
+
+update public.webhook_deliveries
+  set payload_bytes = octet_length(payload::text), payload = null
+  where outcome not in ('rejected', 'error') and payload is not null;